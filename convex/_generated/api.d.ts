@@ -14,9 +14,27 @@ import type {
   FunctionReference,
 } from "convex/server";
 import type * as aimTraining from "../aimTraining.js";
+import type * as apiTokens from "../apiTokens.js";
 import type * as auth from "../auth.js";
+import type * as crosshairs from "../crosshairs.js";
+import type * as dataTransfer from "../dataTransfer.js";
+import type * as duels from "../duels.js";
+import type * as history from "../history.js";
 import type * as http from "../http.js";
+import type * as leaderboards from "../leaderboards.js";
+import type * as publicApi from "../publicApi.js";
+import type * as replays from "../replays.js";
 import type * as router from "../router.js";
+import type * as scenarios from "../scenarios.js";
+import type * as sensitivityProfiles from "../sensitivityProfiles.js";
+import type * as sessionVerification from "../sessionVerification.js";
+import type * as skillRatings from "../skillRatings.js";
+import type * as teams from "../teams.js";
+import type * as themes from "../themes.js";
+import type * as trainingPlans from "../trainingPlans.js";
+import type * as userSettings from "../userSettings.js";
+import type * as userStats from "../userStats.js";
+import type * as webhooks from "../webhooks.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -28,9 +46,27 @@ import type * as router from "../router.js";
  */
 declare const fullApi: ApiFromModules<{
   aimTraining: typeof aimTraining;
+  apiTokens: typeof apiTokens;
   auth: typeof auth;
+  crosshairs: typeof crosshairs;
+  dataTransfer: typeof dataTransfer;
+  duels: typeof duels;
+  history: typeof history;
   http: typeof http;
+  leaderboards: typeof leaderboards;
+  publicApi: typeof publicApi;
+  replays: typeof replays;
   router: typeof router;
+  scenarios: typeof scenarios;
+  sensitivityProfiles: typeof sensitivityProfiles;
+  sessionVerification: typeof sessionVerification;
+  skillRatings: typeof skillRatings;
+  teams: typeof teams;
+  themes: typeof themes;
+  trainingPlans: typeof trainingPlans;
+  userSettings: typeof userSettings;
+  userStats: typeof userStats;
+  webhooks: typeof webhooks;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -1,38 +1,170 @@
-import { query, mutation } from "./_generated/server";
-import { v } from "convex/values";
+import { query, mutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { v, type ObjectType } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { verifySession } from "./sessionVerification";
+import { frameTimingValidator, sessionLogValidator } from "./schema";
+import { resolveScenario } from "./scenarios";
+import { mergeStats, recordSessionStats } from "./userStats";
+import { recordProgress } from "./history";
+import { rateSession } from "./skillRatings";
+import { emitWebhookEvent } from "./webhooks";
+import { toApiSession } from "./publicApi";
+import { playerName } from "./leaderboards";
+import { isTrackingScenario, toScenarioDefinition } from "../src/engine/scenarios";
 
-export const saveSession = mutation({
-  args: {
-    gameMode: v.string(),
-    score: v.number(),
-    accuracy: v.number(),
-    averageReactionTime: v.number(),
-    targetsHit: v.number(),
-    targetsMissed: v.number(),
-    duration: v.number(),
-    centerHits: v.optional(v.number()),
-    ringHits: v.optional(v.number()),
-    edgeHits: v.optional(v.number()),
-    settings: v.object({
-      targetSize: v.number(),
-      targetSpeed: v.number(),
-      gameTime: v.number(),
+// A played round as the client reports it. The log is what gets verified.
+export const sessionArgs = {
+  gameMode: v.string(),
+  score: v.number(),
+  accuracy: v.number(),
+  averageReactionTime: v.number(),
+  targetsHit: v.number(),
+  targetsMissed: v.number(),
+  duration: v.number(),
+  centerHits: v.optional(v.number()),
+  ringHits: v.optional(v.number()),
+  edgeHits: v.optional(v.number()),
+  headHits: v.optional(v.number()),
+  bodyHits: v.optional(v.number()),
+  legHits: v.optional(v.number()),
+  timeOnTargetPercent: v.optional(v.number()),
+  averageTrackingDistance: v.optional(v.number()),
+  settings: v.object({
+    targetSize: v.number(),
+    targetSpeed: v.number(),
+    gameTime: v.number(),
+    holdToTrack: v.optional(v.boolean()),
+    fov: v.optional(v.number()),
+    adaptive: v.optional(v.number()),
+  }),
+  log: sessionLogValidator,
+  frameTiming: v.optional(frameTimingValidator),
+};
+
+// Verifies a round by replaying its log. Throws when it fails, before
+// anything is written.
+export async function verifySessionArgs(ctx: QueryCtx, args: ObjectType<typeof sessionArgs>) {
+  const scenario = await resolveScenario(ctx, args.gameMode);
+  if (!scenario) {
+    throw new Error(`Unknown game mode: ${args.gameMode}`);
+  }
+
+  // Only numbers recomputed from the log are stored; the claimed ones are just checked
+  return { scenario, verified: verifySession(scenario, args.settings, args.log, args) };
+}
+
+// Stores a round verified by verifySessionArgs with its replay and folds it
+// into the player's aggregates. Imported sessions keep a note of where they
+// came from, and neither move the player's rating nor fire webhooks.
+export async function insertVerifiedSession(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  args: ObjectType<typeof sessionArgs>,
+  { scenario, verified }: Awaited<ReturnType<typeof verifySessionArgs>>,
+  importedFrom?: Doc<"aimSessions">["importedFrom"],
+) {
+  const { log, frameTiming } = args;
+  const { stats } = verified;
+
+  const session = {
+    userId,
+    gameMode: args.gameMode,
+    score: stats.score,
+    accuracy: verified.accuracy,
+    averageReactionTime: verified.averageReactionTime,
+    targetsHit: stats.targetsHit,
+    targetsMissed: stats.targetsMissed,
+    // The claimed duration is ignored; the log says how long the round really
+    // ran, which is shorter than the settings when it was stopped early
+    duration: log.elapsed / 1000,
+    centerHits: stats.centerHits,
+    ringHits: stats.ringHits,
+    edgeHits: stats.edgeHits,
+    ...(isTrackingScenario(scenario) && {
+      timeOnTargetPercent: verified.timeOnTargetPercent,
+      averageTrackingDistance: verified.averageTrackingDistance,
     }),
-  },
+    ...(scenario.humanoid && {
+      headHits: stats.headHits,
+      bodyHits: stats.bodyHits,
+      legHits: stats.legHits,
+      headshotPercent: verified.headshotPercent,
+    }),
+    ...(stats.flicks > 0 && { flick: verified.flick }),
+    ...(args.settings.adaptive !== undefined && { difficultyCurve: verified.difficultyCurve }),
+    ...(frameTiming && { frameTiming }),
+    settings: args.settings,
+    seed: log.seed,
+    flagged: verified.flags.length > 0,
+    flags: verified.flags,
+    ...(importedFrom && { importedFrom }),
+  };
+  const sessionId = await ctx.db.insert("aimSessions", session);
+  const playedAt = importedFrom?.playedAt ?? Date.now();
+  const previousBest = await recordSessionStats(ctx, session, playedAt);
+  await recordProgress(ctx, session, playedAt);
+  if (!importedFrom) {
+    await rateSession(ctx, sessionId, session, Date.now());
+  }
+  const replayId = await ctx.db.insert("sessionReplays", {
+    sessionId,
+    userId,
+    log,
+    scenario: toScenarioDefinition(scenario),
+  });
+  await ctx.db.patch(sessionId, { replayId });
+
+  const saved = await ctx.db.get(sessionId);
+  const user = await ctx.db.get(userId);
+  if (!importedFrom && saved && user) {
+    const player = { id: userId, name: playerName(user) };
+    await emitWebhookEvent(ctx, userId, "session.saved", { player, session: toApiSession(saved) });
+    if (!session.flagged && previousBest !== null && session.score > previousBest) {
+      await emitWebhookEvent(ctx, userId, "personal_best", { player, session: toApiSession(saved), previousBest });
+    }
+  }
+  return sessionId;
+}
+
+export const saveSession = mutation({
+  args: sessionArgs,
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) {
       throw new Error("Must be logged in to save session");
     }
-
-    return await ctx.db.insert("aimSessions", {
-      userId,
-      ...args,
-    });
+    return await insertVerifiedSession(ctx, userId, args, await verifySessionArgs(ctx, args));
   },
 });
 
+// Lifetime numbers come from the per-mode aggregates, so they cover every
+// session however many there are
+export async function getLifetimeStats(ctx: QueryCtx, userId: Id<"users">) {
+  const buckets = await ctx.db
+    .query("userStats")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  const empty = { count: 0, mean: 0, m2: 0 };
+  const accuracy = buckets.reduce((stat, bucket) => mergeStats(stat, bucket.accuracy), empty);
+  // Tracking rounds have no reaction times, so only click sessions go into this
+  const reactionTime = buckets.reduce((stat, bucket) => mergeStats(stat, bucket.reactionTime), empty);
+  const timeOnTarget = buckets.reduce((stat, bucket) => mergeStats(stat, bucket.timeOnTarget), empty);
+  const trackingDistance = buckets.reduce((stat, bucket) => mergeStats(stat, bucket.trackingDistance), empty);
+
+  return {
+    totalSessions: buckets.reduce((sum, bucket) => sum + bucket.sessions, 0),
+    // Flagged sessions still count as played, but can't set a best score
+    bestScore: Math.max(0, ...buckets.map(bucket => bucket.bestScore)),
+    averageAccuracy: accuracy.mean,
+    averageReactionTime: reactionTime.mean,
+    trackingSessions: timeOnTarget.count,
+    averageTimeOnTarget: timeOnTarget.mean,
+    averageTrackingDistance: trackingDistance.mean,
+  };
+}
+
 export const getUserStats = query({
   args: {},
   handler: async (ctx) => {
@@ -41,33 +173,15 @@ export const getUserStats = query({
       return null;
     }
 
-    const sessions = await ctx.db
+    const recentSessions = await ctx.db
       .query("aimSessions")
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
-      .take(50);
-
-    if (sessions.length === 0) {
-      return {
-        totalSessions: 0,
-        bestScore: 0,
-        averageAccuracy: 0,
-        averageReactionTime: 0,
-        recentSessions: [],
-      };
-    }
-
-    const totalSessions = sessions.length;
-    const bestScore = Math.max(...sessions.map(s => s.score));
-    const averageAccuracy = sessions.reduce((sum, s) => sum + s.accuracy, 0) / totalSessions;
-    const averageReactionTime = sessions.reduce((sum, s) => sum + s.averageReactionTime, 0) / totalSessions;
+      .take(10);
 
     return {
-      totalSessions,
-      bestScore,
-      averageAccuracy,
-      averageReactionTime,
-      recentSessions: sessions.slice(0, 10),
+      ...(await getLifetimeStats(ctx, userId)),
+      recentSessions,
     };
   },
 });
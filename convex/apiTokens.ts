@@ -0,0 +1,124 @@
+import { action, internalMutation, mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+
+const MAX_TOKENS_PER_USER = 10;
+const MAX_NAME_LENGTH = 40;
+const TOKEN_PREFIX = "alp_";
+const TOKEN_BYTES = 20;
+// Shown in the UI next to the token's name
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+export const RATE_LIMIT = 60;
+export const RATE_WINDOW_MS = 60 * 1000;
+
+export async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export const listMyTokens = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const tokens = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    return tokens.map((token) => ({
+      id: token._id,
+      name: token.name,
+      prefix: token.prefix,
+      createdAt: token._creationTime,
+      lastUsedAt: token.lastUsedAt ?? null,
+    }));
+  },
+});
+
+// Creates a token and returns it. This is the only time the token itself is
+// available; afterwards only its hash is known.
+export const createToken = action({
+  args: { name: v.string() },
+  handler: async (ctx, args): Promise<string> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to create API tokens");
+    }
+
+    const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+    const token = TOKEN_PREFIX + Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+    await ctx.runMutation(internal.apiTokens.insertToken, {
+      userId,
+      name: args.name.trim(),
+      tokenHash: await hashToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    });
+    return token;
+  },
+});
+
+export const insertToken = internalMutation({
+  args: {
+    userId: v.id("users"),
+    name: v.string(),
+    tokenHash: v.string(),
+    prefix: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (args.name.length === 0 || args.name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Token names must be 1 to ${MAX_NAME_LENGTH} characters`);
+    }
+    const owned = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .take(MAX_TOKENS_PER_USER);
+    if (owned.length >= MAX_TOKENS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_TOKENS_PER_USER} API tokens`);
+    }
+    await ctx.db.insert("apiTokens", { ...args, windowStart: 0, windowCount: 0 });
+  },
+});
+
+export const revokeToken = mutation({
+  args: { tokenId: v.id("apiTokens") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to revoke API tokens");
+    }
+    const token = await ctx.db.get(args.tokenId);
+    if (!token || token.userId !== userId) {
+      throw new Error("Token not found");
+    }
+    await ctx.db.delete(token._id);
+  },
+});
+
+// Looks up the token a request carries and counts the request against its
+// rate limit
+export const authenticateToken = internalMutation({
+  args: { tokenHash: v.string() },
+  handler: async (ctx, args) => {
+    const token = await ctx.db
+      .query("apiTokens")
+      .withIndex("by_hash", (q) => q.eq("tokenHash", args.tokenHash))
+      .unique();
+    if (!token) {
+      return { status: "invalid" as const };
+    }
+
+    const now = Date.now();
+    const windowStart = now - token.windowStart >= RATE_WINDOW_MS ? now : token.windowStart;
+    const windowCount = windowStart === token.windowStart ? token.windowCount : 0;
+    const resetAt = windowStart + RATE_WINDOW_MS;
+    if (windowCount >= RATE_LIMIT) {
+      return { status: "rate_limited" as const, resetAt };
+    }
+    await ctx.db.patch(token._id, { windowStart, windowCount: windowCount + 1, lastUsedAt: now });
+    return { status: "ok" as const, userId: token.userId, remaining: RATE_LIMIT - windowCount - 1, resetAt };
+  },
+});
@@ -0,0 +1,64 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { validateCrosshair } from "../src/engine/crosshair";
+
+export const getMyCrosshair = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const crosshair = await ctx.db
+      .query("crosshairs")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (!crosshair) {
+      return null;
+    }
+    return {
+      style: crosshair.style,
+      color: crosshair.color,
+      outline: crosshair.outline,
+      thickness: crosshair.thickness,
+      gap: crosshair.gap,
+      length: crosshair.length,
+      centerDot: crosshair.centerDot,
+    };
+  },
+});
+
+export const saveCrosshair = mutation({
+  args: {
+    style: v.union(v.literal("cross"), v.literal("dot"), v.literal("circle"), v.literal("t")),
+    color: v.string(),
+    outline: v.number(),
+    thickness: v.number(),
+    gap: v.number(),
+    length: v.number(),
+    centerDot: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save a crosshair");
+    }
+
+    const problem = validateCrosshair(args);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const existing = await ctx.db
+      .query("crosshairs")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+      return existing._id;
+    }
+    return await ctx.db.insert("crosshairs", { userId, ...args });
+  },
+});
@@ -0,0 +1,332 @@
+import { httpAction, internalMutation, internalQuery } from "./_generated/server";
+import { v, type ObjectType } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { sessionLogValidator } from "./schema";
+import { insertVerifiedSession, sessionArgs, verifySessionArgs } from "./aimTraining";
+import type { SessionLog } from "../src/engine/sessionLog";
+
+// Export and import of a player's session history over HTTP, see router.ts.
+// Requests carry the player's auth token as `Authorization: Bearer <token>`.
+
+const EXPORT_VERSION = 1;
+const EXPORT_PAGE_SIZE = 100;
+// Input logs of long rounds are large, so pages that carry them are small
+const EXPORT_LOG_PAGE_SIZE = 10;
+const MAX_IMPORT_SESSIONS = 5000;
+// Imported play dates before this are not real ones
+const EARLIEST_PLAYED_AT = Date.UTC(2020, 0, 1);
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+};
+
+function toExported(session: Doc<"aimSessions">, log: SessionLog | undefined) {
+  return {
+    // Imported sessions keep their original id, so exporting them again
+    // still lets duplicates be spotted
+    id: session.importedFrom?.sessionId ?? session._id,
+    playedAt: session.importedFrom?.playedAt ?? session._creationTime,
+    gameMode: session.gameMode,
+    score: session.score,
+    accuracy: session.accuracy,
+    averageReactionTime: session.averageReactionTime,
+    targetsHit: session.targetsHit,
+    targetsMissed: session.targetsMissed,
+    duration: session.duration,
+    centerHits: session.centerHits,
+    ringHits: session.ringHits,
+    edgeHits: session.edgeHits,
+    headHits: session.headHits,
+    bodyHits: session.bodyHits,
+    legHits: session.legHits,
+    headshotPercent: session.headshotPercent,
+    timeOnTargetPercent: session.timeOnTargetPercent,
+    averageTrackingDistance: session.averageTrackingDistance,
+    settings: session.settings,
+    flick: session.flick,
+    frameTiming: session.frameTiming,
+    difficultyCurve: session.difficultyCurve,
+    flagged: session.flagged ?? false,
+    flags: session.flags ?? [],
+    // Per-shot data lives in the input log, as log.shots: [time, x, y] plus
+    // the click's own time when it was recorded. Only sessions saved with a
+    // replay have one.
+    log,
+  };
+}
+
+type ExportedSession = ReturnType<typeof toExported>;
+
+interface ExportPage {
+  sessions: ExportedSession[];
+  isDone: boolean;
+  continueCursor: string;
+}
+
+// One page of a user's sessions, oldest first, with their input logs when asked for
+export const exportPage = internalQuery({
+  args: { userId: v.id("users"), withLogs: v.boolean(), paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args): Promise<ExportPage> => {
+    const page = await ctx.db
+      .query("aimSessions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .paginate(args.paginationOpts);
+
+    const sessions = [];
+    for (const session of page.page) {
+      const replay = args.withLogs && session.replayId ? await ctx.db.get(session.replayId) : null;
+      sessions.push(toExported(session, replay?.log));
+    }
+    return { sessions, isDone: page.isDone, continueCursor: page.continueCursor };
+  },
+});
+
+type ImportResult = { status: "imported" } | { status: "duplicate" } | { status: "rejected"; reason: string };
+
+// Restores one exported session into an account, verified like a freshly
+// played one. A session is a duplicate when the account already has it: as
+// the original, or from an earlier import.
+export const importSession = internalMutation({
+  args: {
+    userId: v.id("users"),
+    importedFrom: v.object({ sessionId: v.string(), playedAt: v.number() }),
+    session: v.object(sessionArgs),
+  },
+  handler: async (ctx, args): Promise<ImportResult> => {
+    const originalId = ctx.db.normalizeId("aimSessions", args.importedFrom.sessionId);
+    const original = originalId ? await ctx.db.get(originalId) : null;
+    const earlier = await ctx.db
+      .query("aimSessions")
+      .withIndex("by_user_and_import", (q) =>
+        q.eq("userId", args.userId).eq("importedFrom.sessionId", args.importedFrom.sessionId),
+      )
+      .first();
+    if (original?.userId === args.userId || earlier) {
+      return { status: "duplicate" };
+    }
+
+    // Only verification failures are caught. Anything failing while the session
+    // is stored throws on, so that none of its writes are kept.
+    let checked;
+    try {
+      checked = await verifySessionArgs(ctx, args.session);
+    } catch (error) {
+      return { status: "rejected", reason: error instanceof Error ? error.message : "Failed verification" };
+    }
+    await insertVerifiedSession(ctx, args.userId, args.session, checked, args.importedFrom);
+    return { status: "imported" };
+  },
+});
+
+type CsvValue = string | number | boolean | undefined;
+
+function csvCell(value: CsvValue) {
+  if (value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: CsvValue[][]) {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+const SESSION_COLUMNS: [string, (session: ExportedSession) => CsvValue][] = [
+  ["id", (session) => session.id],
+  ["playedAt", (session) => new Date(session.playedAt).toISOString()],
+  ["gameMode", (session) => session.gameMode],
+  ["score", (session) => session.score],
+  ["accuracy", (session) => session.accuracy],
+  ["averageReactionTime", (session) => session.averageReactionTime],
+  ["targetsHit", (session) => session.targetsHit],
+  ["targetsMissed", (session) => session.targetsMissed],
+  ["duration", (session) => session.duration],
+  ["centerHits", (session) => session.centerHits],
+  ["ringHits", (session) => session.ringHits],
+  ["edgeHits", (session) => session.edgeHits],
+  ["headHits", (session) => session.headHits],
+  ["bodyHits", (session) => session.bodyHits],
+  ["legHits", (session) => session.legHits],
+  ["headshotPercent", (session) => session.headshotPercent],
+  ["timeOnTargetPercent", (session) => session.timeOnTargetPercent],
+  ["averageTrackingDistance", (session) => session.averageTrackingDistance],
+  ["targetSize", (session) => session.settings.targetSize],
+  ["targetSpeed", (session) => session.settings.targetSpeed],
+  ["gameTime", (session) => session.settings.gameTime],
+  ["holdToTrack", (session) => session.settings.holdToTrack],
+  ["fov", (session) => session.settings.fov],
+  ["adaptive", (session) => session.settings.adaptive],
+  ["flickTimeToMove", (session) => session.flick?.averageTimeToMove],
+  ["flickPeakVelocity", (session) => session.flick?.averagePeakVelocity],
+  ["flickPathEfficiency", (session) => session.flick?.averagePathEfficiency],
+  ["flickCorrections", (session) => session.flick?.averageCorrections],
+  ["flickOvershootRate", (session) => session.flick?.overshootRate],
+  ["averageFrameTime", (session) => session.frameTiming?.averageFrameTime],
+  ["droppedFrames", (session) => session.frameTiming?.droppedFrames],
+  ["averageInputDelay", (session) => session.frameTiming?.averageInputDelay],
+  ["flagged", (session) => session.flagged],
+  ["flags", (session) => session.flags.join("; ")],
+];
+
+function sessionsCsv(sessions: ExportedSession[]) {
+  return toCsv([
+    SESSION_COLUMNS.map(([name]) => name),
+    ...sessions.map((session) => SESSION_COLUMNS.map(([, value]) => value(session))),
+  ]);
+}
+
+// One row per shot of every session that has an input log
+function shotsCsv(sessions: ExportedSession[]) {
+  const rows: CsvValue[][] = [["sessionId", "gameMode", "playedAt", "time", "x", "y"]];
+  for (const session of sessions) {
+    for (const [time, x, y] of session.log?.shots ?? []) {
+      rows.push([session.id, session.gameMode, new Date(session.playedAt).toISOString(), time, x, y]);
+    }
+  }
+  return toCsv(rows);
+}
+
+function textResponse(status: number, message: string) {
+  return new Response(message, { status, headers: CORS_HEADERS });
+}
+
+export const corsPreflight = httpAction(async () => {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+});
+
+// GET /export?format=json|csv[&data=sessions|shots]. JSON holds everything,
+// logs included, and is what /import takes back. CSV is a table of sessions,
+// or of shots with data=shots.
+export const exportHistory = httpAction(async (ctx, request) => {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    return textResponse(401, "Sign in to export your history");
+  }
+  const params = new URL(request.url).searchParams;
+  const format = params.get("format") ?? "json";
+  const data = params.get("data") ?? "sessions";
+  if ((format !== "json" && format !== "csv") || (data !== "sessions" && data !== "shots")) {
+    return textResponse(400, "Use format=json or format=csv, and data=sessions or data=shots");
+  }
+
+  // The sessions table needs no logs; JSON and the shots table do
+  const withLogs = format === "json" || data === "shots";
+  const sessions: ExportedSession[] = [];
+  let cursor: string | null = null;
+  for (;;) {
+    const page: ExportPage = await ctx.runQuery(internal.dataTransfer.exportPage, {
+      userId,
+      withLogs,
+      paginationOpts: { numItems: withLogs ? EXPORT_LOG_PAGE_SIZE : EXPORT_PAGE_SIZE, cursor },
+    });
+    sessions.push(...page.sessions);
+    if (page.isDone) break;
+    cursor = page.continueCursor;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === "json") {
+    const body = JSON.stringify({ version: EXPORT_VERSION, exportedAt: Date.now(), sessions });
+    return new Response(body, {
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="aim-sessions-${date}.json"`,
+      },
+    });
+  }
+  return new Response(data === "shots" ? shotsCsv(sessions) : sessionsCsv(sessions), {
+    headers: {
+      ...CORS_HEADERS,
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="aim-${data}-${date}.csv"`,
+    },
+  });
+});
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Keeps only the keys a validator knows, since extra ones fail validation
+function pick(source: Record<string, unknown>, keys: string[]) {
+  return Object.fromEntries(keys.filter((key) => source[key] !== undefined).map((key) => [key, source[key]]));
+}
+
+function toSessionArgs(raw: Record<string, unknown>) {
+  return {
+    ...pick(raw, Object.keys(sessionArgs)),
+    settings: isRecord(raw.settings) ? pick(raw.settings, Object.keys(sessionArgs.settings.fields)) : raw.settings,
+    log: isRecord(raw.log) ? pick(raw.log, Object.keys(sessionLogValidator.fields)) : raw.log,
+  } as ObjectType<typeof sessionArgs>;
+}
+
+// POST /import with a JSON export as the body. Every session is replayed and
+// verified like a freshly played one; sessions without an input log can't be
+// and are rejected. Responds with what was imported, skipped and rejected.
+export const importHistory = httpAction(async (ctx, request) => {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    return textResponse(401, "Sign in to import sessions");
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return textResponse(400, "Body is not valid JSON");
+  }
+  if (!isRecord(body) || body.version !== EXPORT_VERSION || !Array.isArray(body.sessions)) {
+    return textResponse(400, `Not a version ${EXPORT_VERSION} export: expected { version, sessions }`);
+  }
+  if (body.sessions.length > MAX_IMPORT_SESSIONS) {
+    return textResponse(400, `Imports can hold at most ${MAX_IMPORT_SESSIONS} sessions`);
+  }
+
+  let imported = 0;
+  let duplicates = 0;
+  const rejected: { id: string; reason: string }[] = [];
+  for (const [i, raw] of (body.sessions as unknown[]).entries()) {
+    if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.playedAt !== "number") {
+      rejected.push({ id: `#${i + 1}`, reason: "Missing id or playedAt" });
+      continue;
+    }
+    // Dates get formatted on export and land in the progress charts
+    if (!Number.isFinite(raw.playedAt) || raw.playedAt < EARLIEST_PLAYED_AT || raw.playedAt > Date.now()) {
+      rejected.push({ id: raw.id, reason: "playedAt is not a possible play date" });
+      continue;
+    }
+    if (!isRecord(raw.log)) {
+      rejected.push({ id: raw.id, reason: "No input log to verify" });
+      continue;
+    }
+
+    let result: ImportResult;
+    try {
+      result = await ctx.runMutation(internal.dataTransfer.importSession, {
+        userId,
+        importedFrom: { sessionId: raw.id, playedAt: raw.playedAt },
+        session: toSessionArgs(raw),
+      });
+    } catch {
+      result = { status: "rejected", reason: "Fields are missing or have the wrong type, or it could not be stored" };
+    }
+    if (result.status === "imported") {
+      imported++;
+    } else if (result.status === "duplicate") {
+      duplicates++;
+    } else {
+      rejected.push({ id: raw.id, reason: result.reason });
+    }
+  }
+
+  return new Response(JSON.stringify({ imported, duplicates, rejected }), {
+    headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,390 @@
+import { internalMutation, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { resolveScenario } from "./scenarios";
+import { playerName } from "./leaderboards";
+import { createSeed } from "../src/engine/random";
+
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 6;
+// A room nobody joins is abandoned after this long
+const WAITING_TIMEOUT_MS = 10 * 60 * 1000;
+// Time between the second player joining and the round starting
+const COUNTDOWN_MS = 5000;
+// Time after the round ends for both players to submit their saved sessions
+const SUBMIT_GRACE_MS = 30 * 1000;
+// A session saved this much before the round could have ended still counts,
+// which covers clock drift between the players and the server
+const ROUND_END_TOLERANCE_MS = 2000;
+const RECENT_RESULTS = 10;
+
+function randomRoomCode() {
+  let code = "";
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+async function uniqueRoomCode(ctx: QueryCtx) {
+  for (;;) {
+    const code = randomRoomCode();
+    const taken = await ctx.db
+      .query("duelRooms")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+    if (!taken) {
+      return code;
+    }
+  }
+}
+
+async function getParticipants(ctx: QueryCtx, roomId: Id<"duelRooms">) {
+  return await ctx.db
+    .query("duelParticipants")
+    .withIndex("by_room", (q) => q.eq("roomId", roomId))
+    .collect();
+}
+
+async function getParticipant(ctx: QueryCtx, roomId: Id<"duelRooms">, userId: Id<"users">) {
+  const participants = await getParticipants(ctx, roomId);
+  return participants.find((participant) => participant.userId === userId) ?? null;
+}
+
+// Decides the duel once every player has either submitted a session or
+// forfeited. A forfeit always loses; two forfeits abandon the room.
+async function settleIfDone(ctx: MutationCtx, room: Doc<"duelRooms">) {
+  const participants = await getParticipants(ctx, room._id);
+  if (participants.some((participant) => !participant.sessionId && !participant.forfeited)) {
+    return;
+  }
+
+  const contenders = participants.filter((participant) => !participant.forfeited);
+  if (contenders.length === 0) {
+    await ctx.db.patch(room._id, { status: "abandoned" });
+    return;
+  }
+  const [first, second] = [...contenders].sort((a, b) => b.score - a.score);
+  const winner = !second || first.score > second.score ? first : null;
+  await ctx.db.patch(room._id, { status: "finished", winnerId: winner?.userId });
+
+  for (const participant of participants) {
+    const opponent = participants.find((other) => other._id !== participant._id);
+    if (!opponent) {
+      continue;
+    }
+    await ctx.db.insert("duelResults", {
+      userId: participant.userId,
+      roomId: room._id,
+      opponentId: opponent.userId,
+      opponentName: opponent.name,
+      gameMode: room.gameMode,
+      score: participant.score,
+      opponentScore: opponent.score,
+      outcome: !winner ? "draw" : winner.userId === participant.userId ? "win" : "loss",
+    });
+  }
+}
+
+export const createRoom = mutation({
+  args: {
+    gameMode: v.string(),
+    settings: v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to create a duel");
+    }
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const scenario = await resolveScenario(ctx, args.gameMode);
+    if (!scenario) {
+      throw new Error(`Unknown game mode: ${args.gameMode}`);
+    }
+    const { targetSize, targetSpeed } = args.settings;
+    const gameTime = scenario.duration ?? args.settings.gameTime;
+    if (
+      targetSize < 30 || targetSize > 80 ||
+      targetSpeed < 1000 || targetSpeed > 4000 ||
+      gameTime < 15 || gameTime > 120
+    ) {
+      throw new Error("Duel settings are out of range");
+    }
+
+    const roomId = await ctx.db.insert("duelRooms", {
+      code: await uniqueRoomCode(ctx),
+      hostId: userId,
+      gameMode: args.gameMode,
+      settings: { targetSize, targetSpeed, gameTime },
+      seed: createSeed(),
+      status: "waiting",
+    });
+    await ctx.db.insert("duelParticipants", {
+      roomId,
+      userId,
+      name: playerName(user),
+      score: 0,
+      targetsHit: 0,
+      targetsMissed: 0,
+      forfeited: false,
+    });
+    await ctx.scheduler.runAfter(WAITING_TIMEOUT_MS, internal.duels.expireRoom, { roomId });
+    return roomId;
+  },
+});
+
+// Joins a waiting room as the second player, which starts the countdown
+export const joinRoom = mutation({
+  args: { code: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to join a duel");
+    }
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const room = await ctx.db
+      .query("duelRooms")
+      .withIndex("by_code", (q) => q.eq("code", args.code.trim().toUpperCase()))
+      .unique();
+    if (!room || room.status !== "waiting") {
+      throw new Error("No open duel with that code");
+    }
+    if (room.hostId === userId) {
+      throw new Error("You can't join your own duel");
+    }
+
+    await ctx.db.insert("duelParticipants", {
+      roomId: room._id,
+      userId,
+      name: playerName(user),
+      score: 0,
+      targetsHit: 0,
+      targetsMissed: 0,
+      forfeited: false,
+    });
+    const startsAt = Date.now() + COUNTDOWN_MS;
+    await ctx.db.patch(room._id, { status: "playing", startsAt });
+    await ctx.scheduler.runAt(
+      startsAt + room.settings.gameTime * 1000 + SUBMIT_GRACE_MS,
+      internal.duels.closeDuel,
+      { roomId: room._id },
+    );
+    return room._id;
+  },
+});
+
+// Live, unverified numbers for the opponent's scoreboard
+export const reportProgress = mutation({
+  args: {
+    roomId: v.id("duelRooms"),
+    score: v.number(),
+    targetsHit: v.number(),
+    targetsMissed: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to play a duel");
+    }
+    const room = await ctx.db.get(args.roomId);
+    const participant = await getParticipant(ctx, args.roomId, userId);
+    if (!room || !participant || room.status !== "playing" || participant.sessionId || participant.forfeited) {
+      return;
+    }
+    await ctx.db.patch(participant._id, {
+      score: args.score,
+      targetsHit: args.targetsHit,
+      targetsMissed: args.targetsMissed,
+    });
+  },
+});
+
+// Enters the caller's saved session as their duel result. The session must
+// have been played in this room: same scenario, settings and seed, saved
+// after the round started.
+export const submitResult = mutation({
+  args: {
+    roomId: v.id("duelRooms"),
+    sessionId: v.id("aimSessions"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to play a duel");
+    }
+    const room = await ctx.db.get(args.roomId);
+    const participant = await getParticipant(ctx, args.roomId, userId);
+    if (!room || !participant) {
+      throw new Error("Duel not found");
+    }
+    if (room.status !== "playing" || participant.sessionId || participant.forfeited) {
+      throw new Error("This duel is no longer taking results");
+    }
+
+    const session = await ctx.db.get(args.sessionId);
+    if (
+      !session ||
+      session.userId !== userId ||
+      session.gameMode !== room.gameMode ||
+      session.seed !== room.seed ||
+      session.settings.targetSize !== room.settings.targetSize ||
+      session.settings.targetSpeed !== room.settings.targetSpeed ||
+      session.settings.gameTime !== room.settings.gameTime ||
+      session.settings.adaptive !== undefined ||
+      room.startsAt === undefined ||
+      session._creationTime < room.startsAt + room.settings.gameTime * 1000 - ROUND_END_TOLERANCE_MS
+    ) {
+      throw new Error("Session was not played in this duel");
+    }
+
+    await ctx.db.patch(participant._id, {
+      score: session.score,
+      targetsHit: session.targetsHit,
+      targetsMissed: session.targetsMissed,
+      sessionId: args.sessionId,
+      forfeited: session.flagged ?? false,
+    });
+    await settleIfDone(ctx, room);
+  },
+});
+
+// Leaves a room. The host leaving a waiting room closes it; leaving a duel in
+// progress forfeits it.
+export const leaveRoom = mutation({
+  args: { roomId: v.id("duelRooms") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to leave a duel");
+    }
+    const room = await ctx.db.get(args.roomId);
+    const participant = await getParticipant(ctx, args.roomId, userId);
+    if (!room || !participant) {
+      throw new Error("Duel not found");
+    }
+
+    if (room.status === "waiting") {
+      await ctx.db.patch(room._id, { status: "abandoned" });
+    } else if (room.status === "playing" && !participant.sessionId && !participant.forfeited) {
+      await ctx.db.patch(participant._id, { forfeited: true });
+      await settleIfDone(ctx, room);
+    }
+  },
+});
+
+export const expireRoom = internalMutation({
+  args: { roomId: v.id("duelRooms") },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (room?.status === "waiting") {
+      await ctx.db.patch(room._id, { status: "abandoned" });
+    }
+  },
+});
+
+// Runs once the round and the grace period to submit are over. Whoever hasn't
+// submitted a session by then forfeits.
+export const closeDuel = internalMutation({
+  args: { roomId: v.id("duelRooms") },
+  handler: async (ctx, args) => {
+    const room = await ctx.db.get(args.roomId);
+    if (room?.status !== "playing") {
+      return;
+    }
+    for (const participant of await getParticipants(ctx, room._id)) {
+      if (!participant.sessionId && !participant.forfeited) {
+        await ctx.db.patch(participant._id, { forfeited: true });
+      }
+    }
+    await settleIfDone(ctx, room);
+  },
+});
+
+// A room as seen by one of its players. Both get the same seed, so the same
+// sequence of targets, laid out on their own canvas size.
+export const getRoom = query({
+  args: { roomId: v.id("duelRooms") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const room = await ctx.db.get(args.roomId);
+    if (!room) {
+      return null;
+    }
+    const participants = await getParticipants(ctx, room._id);
+    if (!participants.some((participant) => participant.userId === userId)) {
+      return null;
+    }
+    const scenario = await resolveScenario(ctx, room.gameMode);
+    if (!scenario) {
+      return null;
+    }
+
+    return {
+      id: room._id,
+      code: room.code,
+      status: room.status,
+      isHost: room.hostId === userId,
+      scenario,
+      settings: room.settings,
+      seed: room.seed,
+      startsAt: room.startsAt ?? null,
+      winnerId: room.winnerId ?? null,
+      players: participants.map((participant) => ({
+        userId: participant.userId,
+        name: participant.name,
+        score: participant.score,
+        targetsHit: participant.targetsHit,
+        targetsMissed: participant.targetsMissed,
+        finished: participant.sessionId !== undefined,
+        forfeited: participant.forfeited,
+        isMe: participant.userId === userId,
+      })),
+    };
+  },
+});
+
+export const getMyDuelRecord = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const results = await ctx.db
+      .query("duelResults")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+    return {
+      wins: results.filter((result) => result.outcome === "win").length,
+      losses: results.filter((result) => result.outcome === "loss").length,
+      draws: results.filter((result) => result.outcome === "draw").length,
+      recent: results.slice(0, RECENT_RESULTS).map((result) => ({
+        playedAt: result._creationTime,
+        opponentName: result.opponentName,
+        gameMode: result.gameMode,
+        score: result.score,
+        opponentScore: result.opponentScore,
+        outcome: result.outcome,
+      })),
+    };
+  },
+});
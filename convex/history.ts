@@ -0,0 +1,223 @@
+import { internalMutation, query, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { paginationOptsValidator, type WithoutSystemFields } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { EMPTY_STAT, addValue, bucketOf } from "./userStats";
+
+type SessionFields = WithoutSystemFields<Doc<"aimSessions">>;
+type ProgressDay = WithoutSystemFields<Doc<"progressDays">>;
+type Bucket = ReturnType<typeof bucketOf>;
+
+const PROGRESS_METRICS = [
+  "score",
+  "accuracy",
+  "reactionTime",
+  "centerHitPercent",
+  "headshotPercent",
+  "timeOnTarget",
+] as const;
+
+type ProgressMetric = (typeof PROGRESS_METRICS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayOf(time: number) {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+// The numbers the progress charts plot for one session. Reaction time and
+// center hits don't exist for tracking sessions, and time on target only does.
+// Humanoid sessions have headshots instead of center hits.
+function sessionMetrics(session: SessionFields): Record<ProgressMetric, number | undefined> {
+  const tracking = session.timeOnTargetPercent !== undefined;
+  const humanoid = session.headshotPercent !== undefined;
+  return {
+    score: session.score,
+    accuracy: session.accuracy,
+    reactionTime: tracking ? undefined : session.averageReactionTime,
+    centerHitPercent: tracking || humanoid || session.centerHits === undefined
+      ? undefined
+      : session.targetsHit > 0 ? (session.centerHits / session.targetsHit) * 100 : 0,
+    headshotPercent: session.headshotPercent,
+    timeOnTarget: session.timeOnTargetPercent,
+  };
+}
+
+function emptyDay(session: SessionFields, settings: Bucket | undefined, day: number): ProgressDay {
+  const empty = { stat: EMPTY_STAT };
+  return {
+    userId: session.userId,
+    gameMode: session.gameMode,
+    ...(settings && { settings }),
+    day,
+    sessions: 0,
+    score: empty,
+    accuracy: empty,
+    reactionTime: empty,
+    centerHitPercent: empty,
+    headshotPercent: empty,
+    timeOnTarget: empty,
+  };
+}
+
+// Folds one session into its day. Flagged sessions count towards the averages
+// but can't set a best, just as they can't on the leaderboard.
+function addSession(row: ProgressDay, session: SessionFields): ProgressDay {
+  const flagged = session.flagged ?? false;
+  const values = sessionMetrics(session);
+  const next: ProgressDay = { ...row, sessions: row.sessions + 1 };
+  for (const metric of PROGRESS_METRICS) {
+    const value = values[metric];
+    if (value === undefined) continue;
+    const { stat, best } = row[metric];
+    const pick = metric === "reactionTime" ? Math.min : Math.max;
+    next[metric] = {
+      stat: addValue(stat, value),
+      best: flagged ? best : best === undefined ? value : pick(best, value),
+    };
+  }
+  return next;
+}
+
+function dayKey(row: ProgressDay) {
+  const { settings } = row;
+  return JSON.stringify([row.gameMode, settings?.targetSize, settings?.targetSpeed, settings?.gameTime, row.day]);
+}
+
+// Called by saveSession in the same transaction as the session insert. Every
+// session lands in its settings' day and in the day for all settings.
+export async function recordProgress(ctx: MutationCtx, session: SessionFields, playedAt: number) {
+  const day = dayOf(playedAt);
+  for (const settings of [bucketOf(session), undefined]) {
+    const existing = await ctx.db
+      .query("progressDays")
+      .withIndex("by_user_mode_settings_and_day", (q) =>
+        q
+          .eq("userId", session.userId)
+          .eq("gameMode", session.gameMode)
+          .eq("settings.targetSize", settings?.targetSize)
+          .eq("settings.targetSpeed", settings?.targetSpeed)
+          .eq("settings.gameTime", settings?.gameTime)
+          .eq("day", day),
+      )
+      .unique();
+
+    if (existing) {
+      const { _id, _creationTime, ...row } = existing;
+      await ctx.db.replace(_id, addSession(row, session));
+    } else {
+      await ctx.db.insert("progressDays", addSession(emptyDay(session, settings, day), session));
+    }
+  }
+}
+
+// What a chart needs of one metric on one day, undefined when no session had it
+function toMetricPoint({ stat, best }: ProgressDay[ProgressMetric]) {
+  return stat.count > 0 ? { average: stat.mean, sessions: stat.count, best } : undefined;
+}
+
+// The caller's days of one mode, oldest first, optionally within a time range
+// and for one settings combination. Modes are never mixed since their scores
+// can't be compared. Days are UTC, and a range covers every day it touches.
+export const listHistory = query({
+  args: {
+    gameMode: v.string(),
+    settings: v.optional(
+      v.object({
+        targetSize: v.number(),
+        targetSpeed: v.number(),
+        gameTime: v.number(),
+      }),
+    ),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const result = await ctx.db
+      .query("progressDays")
+      .withIndex("by_user_mode_settings_and_day", (q) => {
+        const range = q
+          .eq("userId", userId)
+          .eq("gameMode", args.gameMode)
+          .eq("settings.targetSize", args.settings?.targetSize)
+          .eq("settings.targetSpeed", args.settings?.targetSpeed)
+          .eq("settings.gameTime", args.settings?.gameTime)
+          .gte("day", dayOf(args.from ?? 0));
+        return args.to === undefined ? range : range.lte("day", dayOf(args.to));
+      })
+      .order("asc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((row) => ({
+        day: row.day,
+        sessions: row.sessions,
+        score: toMetricPoint(row.score),
+        accuracy: toMetricPoint(row.accuracy),
+        reactionTime: toMetricPoint(row.reactionTime),
+        centerHitPercent: toMetricPoint(row.centerHitPercent),
+        headshotPercent: toMetricPoint(row.headshotPercent),
+        timeOnTarget: toMetricPoint(row.timeOnTarget),
+      })),
+    };
+  },
+});
+
+// Recomputes one user's days from all of their sessions
+export const rebuildProgress = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("progressDays")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+
+    const rows = new Map<string, ProgressDay>();
+    const sessions = ctx.db
+      .query("aimSessions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId));
+    for await (const session of sessions) {
+      const { _id, _creationTime, ...fields } = session;
+      const day = dayOf(fields.importedFrom?.playedAt ?? _creationTime);
+      for (const settings of [bucketOf(fields), undefined]) {
+        const empty = emptyDay(fields, settings, day);
+        const key = dayKey(empty);
+        rows.set(key, addSession(rows.get(key) ?? empty, fields));
+      }
+    }
+    for (const row of rows.values()) {
+      await ctx.db.insert("progressDays", row);
+    }
+  },
+});
+
+// Fills the table for sessions saved before it existed. Run once with
+// `npx convex run history:backfillProgress`, like backfillUserStats.
+export const backfillProgress = internalMutation({
+  args: { paginationOpts: v.optional(paginationOptsValidator) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("users")
+      .paginate(args.paginationOpts ?? { numItems: 100, cursor: null });
+    for (const user of page.page) {
+      await ctx.scheduler.runAfter(0, internal.history.rebuildProgress, { userId: user._id });
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.history.backfillProgress, {
+        paginationOpts: { numItems: 100, cursor: page.continueCursor },
+      });
+    }
+  },
+});
@@ -0,0 +1,191 @@
+import { query, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getRatingFor, type RankTier } from "./skillRatings";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on sessions read per leaderboard query
+const MAX_SCANNED_SESSIONS = 4000;
+const MAX_PAGE_SIZE = 50;
+
+const windowValidator = v.union(v.literal("all"), v.literal("week"), v.literal("day"));
+
+const boardArgs = {
+  gameMode: v.string(),
+  // When omitted the board covers every settings combination for the mode
+  settings: v.optional(
+    v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+    }),
+  ),
+  window: windowValidator,
+};
+
+type Board = {
+  gameMode: string;
+  settings?: Doc<"aimSessions">["settings"];
+  window: "all" | "week" | "day";
+};
+
+export type LeaderboardEntry = {
+  rank: number;
+  userId: Id<"users">;
+  playerName: string;
+  sessionId: Id<"aimSessions">;
+  score: number;
+  accuracy: number;
+  averageReactionTime: number;
+  playedAt: number;
+  // The player's overall rank, null until they have a rated session
+  tier: RankTier | null;
+};
+
+function windowStart(window: Board["window"]) {
+  switch (window) {
+    case "day":
+      return Date.now() - DAY_MS;
+    case "week":
+      return Date.now() - 7 * DAY_MS;
+    default:
+      return 0;
+  }
+}
+
+export function playerName(user: Doc<"users">) {
+  return user.name ?? `Player ${user._id.slice(-4)}`;
+}
+
+// A board's sessions from the highest score down, reading at most
+// MAX_SCANNED_SESSIONS of them. All-time boards walk the score index; day and
+// week boards read the window's most recent sessions by time and sort those.
+async function* sessionsByScore(ctx: QueryCtx, board: Board): AsyncGenerator<Doc<"aimSessions">> {
+  const { gameMode, settings } = board;
+  if (board.window !== "all") {
+    const recent = await ctx.db
+      .query("aimSessions")
+      .withIndex("by_mode", (q) => q.eq("gameMode", gameMode).gte("_creationTime", windowStart(board.window)))
+      .order("desc")
+      .take(MAX_SCANNED_SESSIONS);
+    yield* recent
+      .filter((session) =>
+        !settings || (
+          session.settings.targetSize === settings.targetSize &&
+          session.settings.targetSpeed === settings.targetSpeed &&
+          session.settings.gameTime === settings.gameTime
+        ))
+      .sort((a, b) => b.score - a.score);
+    return;
+  }
+
+  const sessions = settings
+    ? ctx.db
+        .query("aimSessions")
+        .withIndex("by_mode_settings_and_score", (q) =>
+          q
+            .eq("gameMode", gameMode)
+            .eq("settings.targetSize", settings.targetSize)
+            .eq("settings.targetSpeed", settings.targetSpeed)
+            .eq("settings.gameTime", settings.gameTime),
+        )
+    : ctx.db.query("aimSessions").withIndex("by_mode_and_score", (q) => q.eq("gameMode", gameMode));
+  let scanned = 0;
+  for await (const session of sessions.order("desc")) {
+    if (++scanned > MAX_SCANNED_SESSIONS) return;
+    yield session;
+  }
+}
+
+// Walks a board's sessions from the highest score down and yields each ranked
+// player's best session once. Flagged, adaptive and imported sessions and
+// anonymous players are skipped. Sessions are checked here rather than in a query filter, so
+// that the ones skipped still count towards the read limit.
+async function* rankedEntries(ctx: QueryCtx, board: Board): AsyncGenerator<LeaderboardEntry> {
+  const seen = new Set<Id<"users">>();
+  const users = new Map<Id<"users">, Doc<"users"> | null>();
+  let rank = 0;
+
+  for await (const session of sessionsByScore(ctx, board)) {
+    if (
+      session.flagged ||
+      // Imported sessions were verified, but not played on this account
+      session.importedFrom !== undefined ||
+      // Adaptive rounds didn't play at the board's settings
+      session.settings.adaptive !== undefined
+    ) {
+      continue;
+    }
+    if (seen.has(session.userId)) continue;
+    seen.add(session.userId);
+
+    if (!users.has(session.userId)) {
+      users.set(session.userId, await ctx.db.get(session.userId));
+    }
+    const user = users.get(session.userId);
+    if (!user || user.isAnonymous) continue;
+
+    yield {
+      rank: ++rank,
+      userId: session.userId,
+      playerName: playerName(user),
+      sessionId: session._id,
+      score: session.score,
+      accuracy: session.accuracy,
+      averageReactionTime: session.averageReactionTime,
+      playedAt: session._creationTime,
+      tier: (await getRatingFor(ctx, session.userId))?.tier ?? null,
+    };
+  }
+}
+
+export const getLeaderboard = query({
+  args: {
+    ...boardArgs,
+    offset: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const offset = Math.max(0, args.offset ?? 0);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, args.limit ?? 10));
+    const entries: LeaderboardEntry[] = [];
+    let hasMore = false;
+
+    for await (const entry of rankedEntries(ctx, args)) {
+      if (entry.rank <= offset) continue;
+      if (entries.length === limit) {
+        hasMore = true;
+        break;
+      }
+      entries.push(entry);
+    }
+
+    return { entries, offset, hasMore };
+  },
+});
+
+export const getMyLeaderboardPosition = query({
+  args: boardArgs,
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      return null;
+    }
+    if (user.isAnonymous) {
+      return { anonymous: true as const, entry: null };
+    }
+
+    for await (const entry of rankedEntries(ctx, args)) {
+      if (entry.userId === userId) {
+        return { anonymous: false as const, entry };
+      }
+    }
+    return { anonymous: false as const, entry: null };
+  },
+});
@@ -0,0 +1,238 @@
+import { httpAction, internalQuery, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getLifetimeStats } from "./aimTraining";
+import { RATE_LIMIT, hashToken } from "./apiTokens";
+import { playerName } from "./leaderboards";
+import { getRatingFor } from "./skillRatings";
+import { canViewPlayer } from "./teams";
+
+// Read-only REST API under /api/v1, authenticated with personal API tokens:
+//
+//   GET /api/v1/users/:id/stats          lifetime stats, overall and per mode
+//   GET /api/v1/users/:id/sessions       recent sessions (?limit=, max 100)
+//   GET /api/v1/sessions/:id             one session
+//   GET /api/v1/leaderboards/:mode       a leaderboard (?window=all|week|day,
+//                                        ?targetSize=&targetSpeed=&gameTime=,
+//                                        ?offset=&limit=)
+//
+// `:id` may be `me`. A token sees what its owner sees in the app: their own
+// data, their teams' members' if they own or coach the team, and leaderboards.
+// Errors are JSON: { "error": { "code": "...", "message": "..." } }.
+
+const API_PREFIX = "/api/v1/";
+const DEFAULT_SESSIONS = 20;
+const MAX_SESSIONS = 100;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization",
+};
+
+// Sessions as the API and webhook payloads show them
+export function toApiSession(session: Doc<"aimSessions">) {
+  return {
+    id: session._id,
+    userId: session.userId,
+    playedAt: session.importedFrom?.playedAt ?? session._creationTime,
+    gameMode: session.gameMode,
+    score: session.score,
+    accuracy: session.accuracy,
+    averageReactionTime: session.averageReactionTime,
+    targetsHit: session.targetsHit,
+    targetsMissed: session.targetsMissed,
+    duration: session.duration,
+    centerHits: session.centerHits ?? null,
+    ringHits: session.ringHits ?? null,
+    edgeHits: session.edgeHits ?? null,
+    headHits: session.headHits ?? null,
+    bodyHits: session.bodyHits ?? null,
+    legHits: session.legHits ?? null,
+    headshotPercent: session.headshotPercent ?? null,
+    timeOnTargetPercent: session.timeOnTargetPercent ?? null,
+    averageTrackingDistance: session.averageTrackingDistance ?? null,
+    settings: session.settings,
+    flick: session.flick ?? null,
+    frameTiming: session.frameTiming ?? null,
+    flagged: session.flagged ?? false,
+  };
+}
+
+// The user an `:id` refers to, if the viewer may see their data
+async function resolveUser(ctx: QueryCtx, viewerId: Id<"users">, id: string) {
+  const userId = id === "me" ? viewerId : ctx.db.normalizeId("users", id);
+  if (!userId || !(await canViewPlayer(ctx, viewerId, userId))) {
+    return null;
+  }
+  return await ctx.db.get(userId);
+}
+
+export const getUserStats = internalQuery({
+  args: { viewerId: v.id("users"), userId: v.string() },
+  handler: async (ctx, args) => {
+    const user = await resolveUser(ctx, args.viewerId, args.userId);
+    if (!user) {
+      return null;
+    }
+
+    const buckets = await ctx.db
+      .query("userStats")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    return {
+      id: user._id,
+      name: playerName(user),
+      rating: await getRatingFor(ctx, user._id),
+      ...(await getLifetimeStats(ctx, user._id)),
+      modes: buckets.map((bucket) => ({
+        gameMode: bucket.gameMode,
+        settings: bucket.settings,
+        sessions: bucket.sessions,
+        bestScore: bucket.bestScore,
+        averageScore: bucket.score.mean,
+        bestAccuracy: bucket.bestAccuracy,
+        averageAccuracy: bucket.accuracy.mean,
+        lastPlayedAt: bucket.lastPlayedAt,
+      })),
+    };
+  },
+});
+
+export const listSessions = internalQuery({
+  args: { viewerId: v.id("users"), userId: v.string(), limit: v.number() },
+  handler: async (ctx, args) => {
+    const user = await resolveUser(ctx, args.viewerId, args.userId);
+    if (!user) {
+      return null;
+    }
+
+    const sessions = await ctx.db
+      .query("aimSessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .take(args.limit);
+    return sessions.map(toApiSession);
+  },
+});
+
+export const getSession = internalQuery({
+  args: { viewerId: v.id("users"), sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const sessionId = ctx.db.normalizeId("aimSessions", args.sessionId);
+    const session = sessionId ? await ctx.db.get(sessionId) : null;
+    if (!session || !(await canViewPlayer(ctx, args.viewerId, session.userId))) {
+      return null;
+    }
+    return toApiSession(session);
+  },
+});
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, ...headers, "Content-Type": "application/json" },
+  });
+}
+
+function apiError(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+  return json(status, { error: { code, message } }, headers);
+}
+
+// A query parameter as a number, undefined when absent and NaN when not a number
+function numberParam(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  return value === null ? undefined : Number(value);
+}
+
+export const corsPreflight = httpAction(async () => {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+});
+
+export const handleApiRequest = httpAction(async (ctx, request) => {
+  const token = /^Bearer (\S+)$/.exec(request.headers.get("Authorization") ?? "")?.[1];
+  if (!token) {
+    return apiError(401, "unauthorized", "Send a personal API token as 'Authorization: Bearer <token>'");
+  }
+  const auth = await ctx.runMutation(internal.apiTokens.authenticateToken, { tokenHash: await hashToken(token) });
+  if (auth.status === "invalid") {
+    return apiError(401, "unauthorized", "Unknown or revoked API token");
+  }
+  const limitHeaders = {
+    "X-RateLimit-Limit": String(RATE_LIMIT),
+    "X-RateLimit-Remaining": String(auth.status === "ok" ? auth.remaining : 0),
+    "X-RateLimit-Reset": String(Math.ceil(auth.resetAt / 1000)),
+  };
+  if (auth.status === "rate_limited") {
+    return apiError(429, "rate_limited", `Rate limit of ${RATE_LIMIT} requests per minute exceeded`, {
+      ...limitHeaders,
+      "Retry-After": String(Math.max(1, Math.ceil((auth.resetAt - Date.now()) / 1000))),
+    });
+  }
+
+  const url = new URL(request.url);
+  const params = url.searchParams;
+  let path: string[];
+  try {
+    path = url.pathname.slice(API_PREFIX.length).split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return apiError(400, "bad_request", "Malformed escape in the request path", limitHeaders);
+  }
+  const notFound = (what: string) => apiError(404, "not_found", `${what} not found`, limitHeaders);
+
+  if (path.length === 3 && path[0] === "users" && path[2] === "stats") {
+    const stats = await ctx.runQuery(internal.publicApi.getUserStats, { viewerId: auth.userId, userId: path[1] });
+    return stats ? json(200, stats, limitHeaders) : notFound("User");
+  }
+
+  if (path.length === 3 && path[0] === "users" && path[2] === "sessions") {
+    const limit = numberParam(params, "limit") ?? DEFAULT_SESSIONS;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SESSIONS) {
+      return apiError(400, "bad_request", `limit must be a whole number from 1 to ${MAX_SESSIONS}`, limitHeaders);
+    }
+    const sessions = await ctx.runQuery(internal.publicApi.listSessions, {
+      viewerId: auth.userId,
+      userId: path[1],
+      limit,
+    });
+    return sessions ? json(200, { sessions }, limitHeaders) : notFound("User");
+  }
+
+  if (path.length === 2 && path[0] === "sessions") {
+    const session = await ctx.runQuery(internal.publicApi.getSession, { viewerId: auth.userId, sessionId: path[1] });
+    return session ? json(200, session, limitHeaders) : notFound("Session");
+  }
+
+  if (path.length === 2 && path[0] === "leaderboards") {
+    const window = params.get("window") ?? "all";
+    if (window !== "all" && window !== "week" && window !== "day") {
+      return apiError(400, "bad_request", "window must be all, week or day", limitHeaders);
+    }
+    const targetSize = numberParam(params, "targetSize");
+    const targetSpeed = numberParam(params, "targetSpeed");
+    const gameTime = numberParam(params, "gameTime");
+    const given = [targetSize, targetSpeed, gameTime].filter((value) => value !== undefined);
+    if (given.length !== 0 && (given.length !== 3 || given.some((value) => Number.isNaN(value)))) {
+      return apiError(400, "bad_request", "Give all of targetSize, targetSpeed and gameTime as numbers, or none", limitHeaders);
+    }
+    const offset = numberParam(params, "offset");
+    const limit = numberParam(params, "limit");
+    if (Number.isNaN(offset) || Number.isNaN(limit)) {
+      return apiError(400, "bad_request", "offset and limit must be numbers", limitHeaders);
+    }
+
+    const board = await ctx.runQuery(api.leaderboards.getLeaderboard, {
+      gameMode: path[1],
+      settings: targetSize !== undefined && targetSpeed !== undefined && gameTime !== undefined
+        ? { targetSize, targetSpeed, gameTime }
+        : undefined,
+      window,
+      offset,
+      limit,
+    });
+    return json(200, { gameMode: path[1], window, ...board }, limitHeaders);
+  }
+
+  return apiError(404, "not_found", `No endpoint at GET ${url.pathname}`, limitHeaders);
+});
@@ -0,0 +1,47 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { resolveScenario } from "./scenarios";
+import { canViewPlayer } from "./teams";
+
+// Everything the viewer needs to re-simulate a session. Only the player who
+// recorded it and their team's owners and coaches can watch it.
+export const getReplay = query({
+  args: { replayId: v.id("sessionReplays") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const replay = await ctx.db.get(args.replayId);
+    if (!replay || !(await canViewPlayer(ctx, userId, replay.userId))) {
+      return null;
+    }
+    const session = await ctx.db.get(replay.sessionId);
+    if (!session) {
+      return null;
+    }
+
+    // Replays run on the scenario as it was played. Older ones only have the
+    // current definition, which is null once a custom scenario is deleted.
+    const current = await resolveScenario(ctx, session.gameMode);
+    const scenario = replay.scenario
+      ? {
+          id: session.gameMode,
+          name: current?.name ?? "Deleted scenario",
+          description: current?.description ?? "",
+          ...replay.scenario,
+        }
+      : current;
+
+    return {
+      log: replay.log,
+      scenario,
+      settings: session.settings,
+      score: session.score,
+      accuracy: session.accuracy,
+      playedAt: session.importedFrom?.playedAt ?? session._creationTime,
+    };
+  },
+});
@@ -1,5 +1,16 @@
 import { httpRouter } from "convex/server";
+import { corsPreflight, exportHistory, importHistory } from "./dataTransfer";
+import { corsPreflight as apiCorsPreflight, handleApiRequest } from "./publicApi";
 
 const http = httpRouter();
 
+http.route({ path: "/export", method: "GET", handler: exportHistory });
+http.route({ path: "/export", method: "OPTIONS", handler: corsPreflight });
+http.route({ path: "/import", method: "POST", handler: importHistory });
+http.route({ path: "/import", method: "OPTIONS", handler: corsPreflight });
+
+// Versioned REST API, see publicApi.ts
+http.route({ pathPrefix: "/api/v1/", method: "GET", handler: handleApiRequest });
+http.route({ pathPrefix: "/api/v1/", method: "OPTIONS", handler: apiCorsPreflight });
+
 export default http;
@@ -0,0 +1,191 @@
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { scenarioDefinitionValidator } from "./schema";
+import { getBuiltInScenario, toScenarioDefinition, validateScenario } from "../src/engine/scenarios";
+import type { Scenario, ScenarioDefinition } from "../src/engine/types";
+
+const MAX_SCENARIOS_PER_USER = 50;
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 200;
+const SHARE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const SHARE_CODE_LENGTH = 8;
+
+function toScenario(doc: Doc<"scenarios">): Scenario {
+  return {
+    id: doc._id,
+    name: doc.name,
+    description: doc.description,
+    ...doc.definition,
+  };
+}
+
+function randomShareCode() {
+  let code = "";
+  for (let i = 0; i < SHARE_CODE_LENGTH; i++) {
+    code += SHARE_CODE_ALPHABET[Math.floor(Math.random() * SHARE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+async function uniqueShareCode(ctx: QueryCtx) {
+  for (;;) {
+    const code = randomShareCode();
+    const taken = await ctx.db
+      .query("scenarios")
+      .withIndex("by_share_code", (q) => q.eq("shareCode", code))
+      .first();
+    if (!taken) {
+      return code;
+    }
+  }
+}
+
+function assertValidScenario(name: string, description: string, definition: ScenarioDefinition) {
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Scenario names must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`Scenario descriptions must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  const problem = validateScenario(definition);
+  if (problem) {
+    throw new Error(problem);
+  }
+}
+
+async function assertRoomForScenario(ctx: QueryCtx, ownerId: Id<"users">) {
+  const owned = await ctx.db
+    .query("scenarios")
+    .withIndex("by_owner", (q) => q.eq("ownerId", ownerId))
+    .take(MAX_SCENARIOS_PER_USER);
+  if (owned.length >= MAX_SCENARIOS_PER_USER) {
+    throw new Error(`You can keep at most ${MAX_SCENARIOS_PER_USER} scenarios`);
+  }
+}
+
+// The scenario a session's gameMode refers to: a built-in id or a scenario document id
+export async function resolveScenario(ctx: QueryCtx, gameMode: string): Promise<Scenario | null> {
+  const builtIn = getBuiltInScenario(gameMode);
+  if (builtIn) {
+    return builtIn;
+  }
+  const scenarioId = ctx.db.normalizeId("scenarios", gameMode);
+  if (!scenarioId) {
+    return null;
+  }
+  const doc = await ctx.db.get(scenarioId);
+  return doc ? toScenario(doc) : null;
+}
+
+export const listMyScenarios = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const scenarios = await ctx.db
+      .query("scenarios")
+      .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+      .take(MAX_SCENARIOS_PER_USER);
+    return scenarios.map((doc) => ({ ...toScenario(doc), shareCode: doc.shareCode }));
+  },
+});
+
+export const getSharedScenario = query({
+  args: { shareCode: v.string() },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db
+      .query("scenarios")
+      .withIndex("by_share_code", (q) => q.eq("shareCode", args.shareCode.trim().toUpperCase()))
+      .first();
+    return doc ? toScenario(doc) : null;
+  },
+});
+
+// Creates a scenario, or updates one when scenarioId is given
+export const saveScenario = mutation({
+  args: {
+    scenarioId: v.optional(v.id("scenarios")),
+    name: v.string(),
+    description: v.string(),
+    definition: scenarioDefinitionValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save scenarios");
+    }
+    const name = args.name.trim();
+    const description = args.description.trim();
+    assertValidScenario(name, description, args.definition);
+
+    if (args.scenarioId) {
+      const existing = await ctx.db.get(args.scenarioId);
+      if (!existing || existing.ownerId !== userId) {
+        throw new Error("Scenario not found");
+      }
+      await ctx.db.patch(args.scenarioId, { name, description, definition: args.definition });
+      return args.scenarioId;
+    }
+
+    await assertRoomForScenario(ctx, userId);
+    return await ctx.db.insert("scenarios", {
+      ownerId: userId,
+      name,
+      description,
+      shareCode: await uniqueShareCode(ctx),
+      definition: args.definition,
+    });
+  },
+});
+
+// Copies a shared scenario into the caller's own list
+export const importScenario = mutation({
+  args: { shareCode: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to import scenarios");
+    }
+
+    const shared = await ctx.db
+      .query("scenarios")
+      .withIndex("by_share_code", (q) => q.eq("shareCode", args.shareCode.trim().toUpperCase()))
+      .first();
+    if (!shared) {
+      throw new Error("No scenario has that share code");
+    }
+    if (shared.ownerId === userId) {
+      return shared._id;
+    }
+
+    await assertRoomForScenario(ctx, userId);
+    return await ctx.db.insert("scenarios", {
+      ownerId: userId,
+      name: shared.name,
+      description: shared.description,
+      shareCode: await uniqueShareCode(ctx),
+      definition: toScenarioDefinition(shared.definition),
+    });
+  },
+});
+
+export const deleteScenario = mutation({
+  args: { scenarioId: v.id("scenarios") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to delete scenarios");
+    }
+
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario || scenario.ownerId !== userId) {
+      throw new Error("Scenario not found");
+    }
+    await ctx.db.delete(args.scenarioId);
+  },
+});
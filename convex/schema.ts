@@ -2,6 +2,159 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+// Everything on the Settings panel that follows a user between devices
+export const trainingSettingsValidator = v.object({
+  targetSize: v.number(),
+  targetSpeed: v.number(),
+  gameTime: v.number(),
+  holdToTrack: v.boolean(),
+  firstPerson: v.boolean(),
+  fov: v.number(),
+  soundEnabled: v.boolean(),
+  soundVolume: v.number(),
+  // Added later, so older settings and presets don't have them
+  adaptive: v.optional(v.boolean()),
+  successRate: v.optional(v.number()),
+});
+
+// Mirrors Theme in src/engine/theme.ts
+export const themeValidator = v.object({
+  background: v.string(),
+  backgroundGradient: v.optional(v.string()),
+  targetColor: v.optional(v.string()),
+  targetStyle: v.union(v.literal("bullseye"), v.literal("solid"), v.literal("ring"), v.literal("humanoid")),
+  hitPalette: v.union(v.literal("classic"), v.literal("neon"), v.literal("mono")),
+  colorblindSafe: v.boolean(),
+  highContrast: v.boolean(),
+});
+
+// Mirrors SessionLog in src/engine/sessionLog.ts
+export const sessionLogValidator = v.object({
+  seed: v.number(),
+  bounds: v.object({
+    width: v.number(),
+    height: v.number(),
+  }),
+  elapsed: v.number(),
+  shots: v.array(v.array(v.number())),
+  resizes: v.array(v.array(v.number())),
+  cursors: v.array(v.array(v.number())),
+  spawns: v.array(v.array(v.number())),
+  shown: v.optional(v.array(v.array(v.number()))),
+});
+
+// How smoothly a round ran on the player's machine, see src/engine/timing.ts.
+// Reported by the client and not verified.
+export const frameTimingValidator = v.object({
+  frames: v.number(),
+  averageFrameTime: v.number(),
+  worstFrameTime: v.number(),
+  droppedFrames: v.number(),
+  averageInputDelay: v.number(),
+});
+
+const rangeValidator = v.object({ min: v.number(), max: v.number() });
+
+const bodyZoneValidator = v.object({ damage: v.number(), multiplier: v.number() });
+
+// Mirrors ScenarioDefinition in src/engine/types.ts
+export const scenarioDefinitionValidator = v.object({
+  maxTargets: v.number(),
+  spawnRate: v.number(),
+  lifetime: v.union(v.null(), v.object({ offset: v.number(), min: v.number() })),
+  size: v.object({ offset: v.number(), jitter: v.number(), min: v.number() }),
+  velocity: v.union(v.null(), rangeValidator),
+  steering: v.union(v.null(), v.object({ turn: rangeValidator, easeMs: v.number() })),
+  shrink: v.union(v.null(), v.object({ endScale: v.number(), power: v.number() })),
+  scoring: v.union(
+    v.object({
+      type: v.literal("linear"),
+      base: v.number(),
+      decayMs: v.number(),
+      minimum: v.number(),
+      movingBonus: v.number(),
+      sizeBonus: v.number(),
+    }),
+    v.object({
+      type: v.literal("tiered"),
+      tiers: v.array(v.object({ within: v.number(), points: v.number() })),
+      otherwise: v.number(),
+      movingBonus: v.number(),
+      sizeBonus: v.number(),
+    }),
+    v.object({
+      type: v.literal("tracking"),
+      perSecond: v.number(),
+      centerBonus: v.number(),
+    }),
+  ),
+  humanoid: v.optional(
+    v.object({
+      health: v.number(),
+      zones: v.object({
+        head: bodyZoneValidator,
+        body: bodyZoneValidator,
+        legs: bodyZoneValidator,
+      }),
+    }),
+  ),
+  missPenalty: v.number(),
+  duration: v.union(v.null(), v.number()),
+});
+
+// Mirrors PlanDefinition in src/engine/plans.ts
+export const planDefinitionValidator = v.object({
+  restSeconds: v.number(),
+  blocks: v.array(
+    v.object({
+      scenarioId: v.string(),
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      duration: v.number(),
+      targetScore: v.number(),
+    }),
+  ),
+});
+
+// What a coach can assign: a scenario at fixed settings, or a training plan
+export const teamWorkValidator = v.union(
+  v.object({
+    kind: v.literal("scenario"),
+    scenarioId: v.string(),
+    settings: v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+    }),
+  }),
+  v.object({
+    kind: v.literal("plan"),
+    planId: v.string(),
+  }),
+);
+
+// Training events webhooks can subscribe to
+export const webhookEventValidator = v.union(
+  v.literal("session.saved"),
+  v.literal("personal_best"),
+  v.literal("plan.completed"),
+);
+
+// Count, mean and sum of squared deviations of a series (Welford's method),
+// which can be updated one value at a time and merged without the values
+export const runningStatValidator = v.object({
+  count: v.number(),
+  mean: v.number(),
+  m2: v.number(),
+});
+
+// One progress chart metric over a day: its running average, and its best
+// among the sessions that passed verification
+const progressMetricValidator = v.object({
+  stat: runningStatValidator,
+  best: v.optional(v.number()),
+});
+
 const applicationTables = {
   aimSessions: defineTable({
     userId: v.id("users"),
@@ -15,12 +168,360 @@ const applicationTables = {
     centerHits: v.optional(v.number()),
     ringHits: v.optional(v.number()),
     edgeHits: v.optional(v.number()),
+    settings: v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+      holdToTrack: v.optional(v.boolean()),
+      fov: v.optional(v.number()),
+      // Success rate of an adaptive round, whose targets didn't follow the settings above
+      adaptive: v.optional(v.number()),
+    }),
+    timeOnTargetPercent: v.optional(v.number()),
+    averageTrackingDistance: v.optional(v.number()),
+    // Humanoid scenarios only: hits per body part and the share of them that were headshots
+    headHits: v.optional(v.number()),
+    bodyHits: v.optional(v.number()),
+    legHits: v.optional(v.number()),
+    headshotPercent: v.optional(v.number()),
+    // Averages of how the cursor moved onto each target, click scenarios only
+    flick: v.optional(
+      v.object({
+        averageTimeToMove: v.number(),
+        averagePeakVelocity: v.number(),
+        averagePathEfficiency: v.number(),
+        averageCorrections: v.number(),
+        overshootRate: v.number(),
+      }),
+    ),
+    // Adaptive rounds: [time, difficulty] at the start and at every change
+    difficultyCurve: v.optional(v.array(v.array(v.number()))),
+    frameTiming: v.optional(frameTimingValidator),
+    seed: v.optional(v.number()),
+    flagged: v.optional(v.boolean()),
+    flags: v.optional(v.array(v.string())),
+    replayId: v.optional(v.id("sessionReplays")),
+    // Sessions restored from another account's export: the original session
+    // id, used to spot duplicates, and when it was actually played
+    importedFrom: v.optional(
+      v.object({
+        sessionId: v.string(),
+        playedAt: v.number(),
+      }),
+    ),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_import", ["userId", "importedFrom.sessionId"])
+    .index("by_user_and_mode", ["userId", "gameMode"])
+    .index("by_mode", ["gameMode"])
+    .index("by_mode_and_score", ["gameMode", "score"])
+    .index("by_mode_settings_and_score", [
+      "gameMode",
+      "settings.targetSize",
+      "settings.targetSpeed",
+      "settings.gameTime",
+      "score",
+    ]),
+  // The input log of a session, which replays to every frame of the round
+  sessionReplays: defineTable({
+    sessionId: v.id("aimSessions"),
+    userId: v.id("users"),
+    log: sessionLogValidator,
+    // The scenario as it was played, since custom ones can be edited later.
+    // Replays saved before this was kept use the current definition.
+    scenario: v.optional(scenarioDefinitionValidator),
+  }).index("by_session", ["sessionId"]),
+  sensitivityProfiles: defineTable({
+    userId: v.id("users"),
+    dpi: v.number(),
+    // Id of a built-in game or one of customGames
+    game: v.string(),
+    sensitivity: v.number(),
+    customGames: v.array(
+      v.object({
+        id: v.string(),
+        name: v.string(),
+        yaw: v.number(),
+      }),
+    ),
+  }).index("by_user", ["userId"]),
+  crosshairs: defineTable({
+    userId: v.id("users"),
+    style: v.union(v.literal("cross"), v.literal("dot"), v.literal("circle"), v.literal("t")),
+    color: v.string(),
+    outline: v.number(),
+    thickness: v.number(),
+    gap: v.number(),
+    length: v.number(),
+    centerDot: v.boolean(),
+  }).index("by_user", ["userId"]),
+  // A user's theme for one scenario, or their default without a scenarioId
+  themes: defineTable({
+    userId: v.id("users"),
+    scenarioId: v.optional(v.string()),
+    theme: themeValidator,
+  }).index("by_user_and_scenario", ["userId", "scenarioId"]),
+  userSettings: defineTable({
+    userId: v.id("users"),
+    settings: trainingSettingsValidator,
+  }).index("by_user", ["userId"]),
+  settingsPresets: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    settings: trainingSettingsValidator,
+  }).index("by_user_and_name", ["userId", "name"]),
+  scenarios: defineTable({
+    ownerId: v.id("users"),
+    name: v.string(),
+    description: v.string(),
+    // Short code other players use to import a copy
+    shareCode: v.string(),
+    definition: scenarioDefinitionValidator,
+  })
+    .index("by_owner", ["ownerId"])
+    .index("by_share_code", ["shareCode"]),
+  // Lifetime aggregates of a user's sessions in one mode with one settings
+  // combination, kept up to date by saveSession. Adaptive rounds aren't included.
+  userStats: defineTable({
+    userId: v.id("users"),
+    gameMode: v.string(),
+    settings: v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+    }),
+    sessions: v.number(),
+    flaggedSessions: v.number(),
+    targetsHit: v.number(),
+    targetsMissed: v.number(),
+    // Bests only count sessions that passed verification
+    bestScore: v.number(),
+    bestAccuracy: v.number(),
+    bestReactionTime: v.optional(v.number()),
+    score: runningStatValidator,
+    accuracy: runningStatValidator,
+    // Click sessions only
+    reactionTime: runningStatValidator,
+    // Tracking sessions only
+    timeOnTarget: runningStatValidator,
+    trackingDistance: runningStatValidator,
+    lastPlayedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_mode_and_settings", [
+      "userId",
+      "gameMode",
+      "settings.targetSize",
+      "settings.targetSpeed",
+      "settings.gameTime",
+    ]),
+  // One UTC day of a user's sessions in one mode, the points the progress
+  // charts page through. Kept up to date by saveSession; rows without
+  // settings cover every settings combination.
+  progressDays: defineTable({
+    userId: v.id("users"),
+    gameMode: v.string(),
+    settings: v.optional(
+      v.object({
+        targetSize: v.number(),
+        targetSpeed: v.number(),
+        gameTime: v.number(),
+      }),
+    ),
+    // Start of the day, UTC
+    day: v.number(),
+    sessions: v.number(),
+    score: progressMetricValidator,
+    accuracy: progressMetricValidator,
+    // Click sessions only
+    reactionTime: progressMetricValidator,
+    // Click sessions outside humanoid scenarios only
+    centerHitPercent: progressMetricValidator,
+    // Humanoid scenarios only
+    headshotPercent: progressMetricValidator,
+    // Tracking sessions only
+    timeOnTarget: progressMetricValidator,
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_mode_settings_and_day", [
+      "userId",
+      "gameMode",
+      "settings.targetSize",
+      "settings.targetSpeed",
+      "settings.gameTime",
+      "day",
+    ]),
+  trainingPlans: defineTable({
+    ownerId: v.id("users"),
+    name: v.string(),
+    description: v.string(),
+    definition: planDefinitionValidator,
+  }).index("by_owner", ["ownerId"]),
+  // One played block of a plan. `day` is the player's local date (yyyy-mm-dd),
+  // so progress lines up with their days rather than UTC ones.
+  planBlockResults: defineTable({
+    userId: v.id("users"),
+    // A built-in plan id or a trainingPlans document id
+    planId: v.string(),
+    blockIndex: v.number(),
+    sessionId: v.id("aimSessions"),
+    score: v.number(),
+    passed: v.boolean(),
+    day: v.string(),
+  })
+    .index("by_user_plan_and_day", ["userId", "planId", "day"])
+    .index("by_session", ["sessionId"]),
+  // Everyone's verified scores in one mode with one settings combination,
+  // which sessions are rated against
+  scenarioPopulations: defineTable({
+    gameMode: v.string(),
     settings: v.object({
       targetSize: v.number(),
       targetSpeed: v.number(),
       gameTime: v.number(),
     }),
+    score: runningStatValidator,
+  }).index("by_mode_and_settings", [
+    "gameMode",
+    "settings.targetSize",
+    "settings.targetSpeed",
+    "settings.gameTime",
+  ]),
+  // Glicko rating across all modes, see convex/skillRatings.ts
+  skillRatings: defineTable({
+    userId: v.id("users"),
+    rating: v.number(),
+    deviation: v.number(),
+    ratedSessions: v.number(),
+    lastRatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_rating", ["rating"]),
+  ratingHistory: defineTable({
+    userId: v.id("users"),
+    sessionId: v.id("aimSessions"),
+    gameMode: v.string(),
+    // Share of the population the session beat, 0 to 1
+    percentile: v.number(),
+    rating: v.number(),
+    deviation: v.number(),
+  }).index("by_user", ["userId"]),
+  // A 1v1 duel: both players play the same scenario, settings and seed, see
+  // convex/duels.ts
+  duelRooms: defineTable({
+    // Short code the second player joins with
+    code: v.string(),
+    hostId: v.id("users"),
+    gameMode: v.string(),
+    settings: v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+    }),
+    seed: v.number(),
+    status: v.union(
+      v.literal("waiting"),
+      v.literal("playing"),
+      v.literal("finished"),
+      v.literal("abandoned"),
+    ),
+    // When the round starts, set once the second player joins
+    startsAt: v.optional(v.number()),
+    // Unset on a finished room means a draw
+    winnerId: v.optional(v.id("users")),
+  }).index("by_code", ["code"]),
+  duelParticipants: defineTable({
+    roomId: v.id("duelRooms"),
+    userId: v.id("users"),
+    name: v.string(),
+    // Live numbers reported while playing, replaced by the verified session's
+    score: v.number(),
+    targetsHit: v.number(),
+    targetsMissed: v.number(),
+    sessionId: v.optional(v.id("aimSessions")),
+    // Left, stopped early, ran out of time or failed verification
+    forfeited: v.boolean(),
+  }).index("by_room", ["roomId"]),
+  duelResults: defineTable({
+    userId: v.id("users"),
+    roomId: v.id("duelRooms"),
+    opponentId: v.id("users"),
+    opponentName: v.string(),
+    gameMode: v.string(),
+    score: v.number(),
+    opponentScore: v.number(),
+    outcome: v.union(v.literal("win"), v.literal("loss"), v.literal("draw")),
   }).index("by_user", ["userId"]),
+  // Teams and their members, see convex/teams.ts for who can see what
+  teams: defineTable({
+    name: v.string(),
+    ownerId: v.id("users"),
+  }).index("by_owner", ["ownerId"]),
+  teamMembers: defineTable({
+    teamId: v.id("teams"),
+    userId: v.id("users"),
+    role: v.union(v.literal("owner"), v.literal("coach"), v.literal("member")),
+  })
+    .index("by_team", ["teamId"])
+    .index("by_user", ["userId"])
+    .index("by_team_and_user", ["teamId", "userId"]),
+  // Single-use codes the owner hands out to add members and coaches
+  teamInvites: defineTable({
+    teamId: v.id("teams"),
+    code: v.string(),
+    role: v.union(v.literal("coach"), v.literal("member")),
+    expiresAt: v.number(),
+  })
+    .index("by_team", ["teamId"])
+    .index("by_code", ["code"]),
+  teamAssignments: defineTable({
+    teamId: v.id("teams"),
+    assignedBy: v.id("users"),
+    // Unset assigns the work to the whole team
+    assigneeId: v.optional(v.id("users")),
+    work: teamWorkValidator,
+    note: v.string(),
+  }).index("by_team", ["teamId"]),
+  // Personal tokens for the REST API in convex/publicApi.ts. Only a hash of
+  // the token is kept; the prefix is shown to tell tokens apart.
+  apiTokens: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    tokenHash: v.string(),
+    prefix: v.string(),
+    lastUsedAt: v.optional(v.number()),
+    // Fixed-window rate limit: when the current window began and the
+    // requests made in it
+    windowStart: v.number(),
+    windowCount: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_hash", ["tokenHash"]),
+  // Outgoing webhooks, see convex/webhooks.ts. Personal ones get the owner's
+  // events; team ones, set up by the team's staff, every member's.
+  webhooks: defineTable({
+    userId: v.id("users"),
+    teamId: v.optional(v.id("teams")),
+    url: v.string(),
+    events: v.array(webhookEventValidator),
+    // Signs payloads; shown to the owner so receivers can check signatures
+    secret: v.string(),
+    active: v.boolean(),
+  })
+    .index("by_user_and_team", ["userId", "teamId"])
+    .index("by_team", ["teamId"]),
+  // One event sent to one webhook, with how its attempts went. `data` is the
+  // event's JSON, so retries send exactly the same body.
+  webhookDeliveries: defineTable({
+    webhookId: v.id("webhooks"),
+    event: v.union(webhookEventValidator, v.literal("test")),
+    data: v.string(),
+    status: v.union(v.literal("pending"), v.literal("succeeded"), v.literal("failed")),
+    attempts: v.number(),
+    responseStatus: v.optional(v.number()),
+    error: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.number()),
+  }).index("by_webhook", ["webhookId"]),
 };
 
 export default defineSchema({
@@ -0,0 +1,64 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { validateSensitivityProfile } from "../src/engine/sensitivity";
+
+export const getMyProfile = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const profile = await ctx.db
+      .query("sensitivityProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (!profile) {
+      return null;
+    }
+    return {
+      dpi: profile.dpi,
+      game: profile.game,
+      sensitivity: profile.sensitivity,
+      customGames: profile.customGames,
+    };
+  },
+});
+
+export const saveProfile = mutation({
+  args: {
+    dpi: v.number(),
+    game: v.string(),
+    sensitivity: v.number(),
+    customGames: v.array(
+      v.object({
+        id: v.string(),
+        name: v.string(),
+        yaw: v.number(),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save a sensitivity profile");
+    }
+
+    const problem = validateSensitivityProfile(args);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const existing = await ctx.db
+      .query("sensitivityProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+      return existing._id;
+    }
+    return await ctx.db.insert("sensitivityProfiles", { userId, ...args });
+  },
+});
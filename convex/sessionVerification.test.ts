@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { verifySession, type ClaimedResult } from "./sessionVerification";
+import { createGameState, step, summarizeStats } from "../src/engine/engine";
+import { MAX_SHOWN_DELAY_MS } from "../src/engine/rules";
+import { getBuiltInScenario } from "../src/engine/scenarios";
+import { CURSOR_SAMPLE_MS, TICK_MS, createSessionLog, recordEvents, recordInputs, type SessionLog } from "../src/engine/sessionLog";
+import type { EngineSettings, GameConfig, GameInput, GameState, GameStats } from "../src/engine/types";
+
+const SETTINGS: EngineSettings = { targetSize: 50, targetSpeed: 2000, gameTime: 15 };
+
+const scenario = (() => {
+  const classic = getBuiltInScenario("classic");
+  if (!classic) throw new Error("Missing the classic scenario");
+  return classic;
+})();
+
+// Plays a whole round, reporting every target shown a few milliseconds into
+// the tick after it appears. `shotsAt` picks the tick's shots.
+function playRound(shotsAt: (state: GameState) => GameInput[]) {
+  const config: GameConfig = { scenario, settings: SETTINGS, bounds: { width: 800, height: 600 }, seed: 1234 };
+  const log = createSessionLog(config);
+  let state = createGameState(config);
+  let shownUpTo = -1;
+
+  while (!state.isOver) {
+    const inputs: GameInput[] = [];
+    for (const target of state.targets) {
+      if (target.id > shownUpTo) {
+        inputs.push({ type: "shown", targetId: target.id, at: state.time + 3 });
+        shownUpTo = target.id;
+      }
+    }
+    inputs.push(...shotsAt(state));
+
+    recordInputs(log, state.time, inputs);
+    const result = step(state, TICK_MS, inputs);
+    state = result.state;
+    recordEvents(log, state, result.events);
+  }
+  return { log, stats: state.stats };
+}
+
+// Shots on the oldest target every 400 ms, well after it appeared
+function steadyShots(state: GameState): GameInput[] {
+  const [target] = state.targets;
+  return state.time % 400 === 200 && target ? [{ type: "shot", x: target.x, y: target.y, at: state.time + 5 }] : [];
+}
+
+function claimFor(stats: GameStats): ClaimedResult {
+  return {
+    ...summarizeStats(scenario, stats),
+    score: stats.score,
+    targetsHit: stats.targetsHit,
+    targetsMissed: stats.targetsMissed,
+    centerHits: stats.centerHits,
+    ringHits: stats.ringHits,
+    edgeHits: stats.edgeHits,
+  };
+}
+
+function verify(log: SessionLog, claimed: ClaimedResult) {
+  return verifySession(scenario, SETTINGS, log, claimed);
+}
+
+describe("verifySession", () => {
+  const { log, stats } = playRound(steadyShots);
+  const shownEntries = log.shown ?? [];
+
+  it("accepts an honest round without flags", () => {
+    expect(verify(log, claimFor(stats)).flags).toEqual([]);
+  });
+
+  it("rejects a claimed score the log doesn't reach", () => {
+    expect(() => verify(log, { ...claimFor(stats), score: stats.score + 1 })).toThrow(
+      "Session result does not match its log",
+    );
+  });
+
+  it("rejects a shot logged off a tick boundary", () => {
+    const tampered = structuredClone(log);
+    tampered.shots[0][0] += TICK_MS / 2;
+
+    expect(() => verify(tampered, claimFor(stats))).toThrow("Session has an invalid shot entry");
+  });
+
+  it("rejects a shot whose time falls outside its tick", () => {
+    const tampered = structuredClone(log);
+    tampered.shots[0][3] = tampered.shots[0][0] + TICK_MS;
+
+    expect(() => verify(tampered, claimFor(stats))).toThrow("Session has an invalid shot entry");
+  });
+
+  it("rejects a target shown long after it spawned", () => {
+    const [spawnedAt, targetId] = log.spawns[0];
+    const at = spawnedAt + MAX_SHOWN_DELAY_MS + 1;
+    const shown = shownEntries.map((entry) => entry[1] === targetId ? [at - (at % TICK_MS), targetId, at] : entry);
+
+    expect(() => verify({ ...log, shown }, claimFor(stats))).toThrow("Session has an invalid shown entry");
+  });
+
+  it("rejects a target shown twice or never created", () => {
+    const [first, ...rest] = shownEntries;
+    const shownTwice = [first, first, ...rest];
+    const unknown = [[first[0], 9999, first[2]], ...rest];
+
+    expect(() => verify({ ...log, shown: shownTwice }, claimFor(stats))).toThrow("Session has an invalid shown entry");
+    expect(() => verify({ ...log, shown: unknown }, claimFor(stats))).toThrow("Session has an invalid shown entry");
+  });
+
+  it("rejects more cursor samples than the round had time for", () => {
+    const tampered = structuredClone(log);
+    const samples = Math.floor(log.elapsed / CURSOR_SAMPLE_MS) + 2;
+    tampered.cursors = Array.from({ length: samples }, (_, i) => [i * TICK_MS, 400, 300, 0]);
+
+    expect(() => verify(tampered, claimFor(stats))).toThrow("Session has too many cursor samples");
+  });
+
+  it("flags reactions faster than a human's", () => {
+    const round = playRound((state) => {
+      const [target] = state.targets;
+      return target && state.time - target.createdAt === 48
+        ? [{ type: "shot", x: target.x, y: target.y, at: state.time + 5 }]
+        : [];
+    });
+
+    expect(verify(round.log, claimFor(round.stats)).flags).toContain("reaction_time_below_floor");
+  });
+
+  it("flags sustained clicking faster than a human can", () => {
+    // 56 ms apart is almost 18 shots a second
+    const round = playRound((state) => state.time % 56 === 0 ? [{ type: "shot", x: 1, y: 1, at: state.time + 5 }] : []);
+
+    expect(verify(round.log, claimFor(round.stats)).flags).toContain("shot_rate_exceeded");
+  });
+});
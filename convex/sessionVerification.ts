@@ -0,0 +1,184 @@
+import { createGameState, summarizeStats } from "../src/engine/engine";
+import { MAX_SUCCESS_RATE, MIN_DIFFICULTY, MIN_SUCCESS_RATE, getEffectiveSettings } from "../src/engine/difficulty";
+import { MAX_SHOWN_DELAY_MS, getSpawnMargin } from "../src/engine/rules";
+import { isTrackingScenario } from "../src/engine/scenarios";
+import { CURSOR_SAMPLE_MS, TICK_MS, replaySessionLog, type SessionLog } from "../src/engine/sessionLog";
+import type { EngineSettings, FlickSummary, GameStats, Scenario } from "../src/engine/types";
+
+// Below this, a "reaction" is anticipation or automation, not a human reacting
+export const MIN_REACTION_TIME_MS = 100;
+// Sustained clicking faster than this is not humanly possible
+export const MAX_SHOTS_PER_SECOND = 15;
+
+export interface ClaimedResult {
+  score: number;
+  accuracy: number;
+  averageReactionTime: number;
+  targetsHit: number;
+  targetsMissed: number;
+  centerHits?: number;
+  ringHits?: number;
+  edgeHits?: number;
+  headHits?: number;
+  bodyHits?: number;
+  legHits?: number;
+  timeOnTargetPercent?: number;
+  averageTrackingDistance?: number;
+}
+
+export interface VerifiedSession {
+  stats: GameStats;
+  accuracy: number;
+  averageReactionTime: number;
+  timeOnTargetPercent: number;
+  averageTrackingDistance: number;
+  headshotPercent: number;
+  flick: FlickSummary;
+  // [time, difficulty] at the start and every change of an adaptive round
+  difficultyCurve: number[][];
+  flags: string[];
+}
+
+function isTickTime(time: number, elapsed: number) {
+  return Number.isInteger(time / TICK_MS) && time >= 0 && time <= elapsed;
+}
+
+// Exact input times lie within the tick the input is applied in
+function isWithinTick(at: number, tickTime: number) {
+  return at >= tickTime && at < tickTime + TICK_MS;
+}
+
+function assertValidLog(scenario: Scenario, settings: EngineSettings, log: SessionLog) {
+  if (
+    settings.targetSize < 30 || settings.targetSize > 80 ||
+    settings.targetSpeed < 1000 || settings.targetSpeed > 4000 ||
+    settings.gameTime < 15 || settings.gameTime > 120 ||
+    (settings.fov !== undefined && (settings.fov < 60 || settings.fov > 120))
+  ) {
+    throw new Error("Session settings are out of range");
+  }
+  if (
+    settings.adaptive !== undefined &&
+    (isTrackingScenario(scenario) || !(settings.adaptive >= MIN_SUCCESS_RATE && settings.adaptive <= MAX_SUCCESS_RATE))
+  ) {
+    throw new Error("Session has invalid adaptive difficulty");
+  }
+  if (scenario.duration !== null && settings.gameTime !== scenario.duration) {
+    throw new Error("Session length does not match its scenario");
+  }
+  if (!isTickTime(log.elapsed, settings.gameTime * 1000)) {
+    throw new Error("Session length does not match its settings");
+  }
+
+  // Adaptive rounds can spawn targets as large as the easiest difficulty allows
+  const margin = getSpawnMargin(
+    scenario,
+    settings.adaptive !== undefined ? getEffectiveSettings(settings, MIN_DIFFICULTY) : settings,
+  );
+  const validBounds = (width: number, height: number) =>
+    width > 2 * margin && height > 2 * margin && width <= 10000 && height <= 10000;
+  if (!validBounds(log.bounds.width, log.bounds.height)) {
+    throw new Error("Session has invalid canvas bounds");
+  }
+  for (const entry of log.resizes) {
+    if (entry.length !== 3 || !isTickTime(entry[0], log.elapsed) || !validBounds(entry[1], entry[2])) {
+      throw new Error("Session has an invalid resize entry");
+    }
+  }
+  for (const entry of log.shots) {
+    if (
+      (entry.length !== 3 && entry.length !== 4) || !isTickTime(entry[0], log.elapsed) ||
+      !entry.every(Number.isFinite) || (entry.length === 4 && !isWithinTick(entry[3], entry[0]))
+    ) {
+      throw new Error("Session has an invalid shot entry");
+    }
+  }
+  // Each shown entry names a target the round created, the opening one included,
+  // within a few frames of its spawn, and a target is shown at most once. The
+  // spawns are checked against the replay.
+  const openingTargets = createGameState({ scenario, settings, seed: log.seed, bounds: log.bounds }).targets;
+  const createdAt = new Map(openingTargets.map((target) => [target.id, target.createdAt]));
+  for (const [time, targetId] of log.spawns) {
+    createdAt.set(targetId, time);
+  }
+  const shownIds = new Set<number>();
+  for (const entry of log.shown ?? []) {
+    const spawnedAt = createdAt.get(entry[1]);
+    if (
+      entry.length !== 3 || !isTickTime(entry[0], log.elapsed) ||
+      !entry.every(Number.isFinite) || !isWithinTick(entry[2], entry[0]) ||
+      spawnedAt === undefined || shownIds.has(entry[1]) ||
+      entry[2] < spawnedAt || entry[2] - spawnedAt > MAX_SHOWN_DELAY_MS
+    ) {
+      throw new Error("Session has an invalid shown entry");
+    }
+    shownIds.add(entry[1]);
+  }
+  if (log.cursors.length > log.elapsed / CURSOR_SAMPLE_MS + 1) {
+    throw new Error("Session has too many cursor samples");
+  }
+  for (const entry of log.cursors) {
+    if (
+      entry.length !== 4 || !isTickTime(entry[0], log.elapsed) ||
+      !entry.every(Number.isFinite) || (entry[3] !== 0 && entry[3] !== 1)
+    ) {
+      throw new Error("Session has an invalid cursor entry");
+    }
+  }
+}
+
+function sameNumbers(a: number[][], b: number[][]) {
+  return a.length === b.length && a.every((row, i) =>
+    row.length === b[i].length && row.every((value, j) => value === b[i][j]));
+}
+
+function closeEnough(a: number, b: number) {
+  return Math.abs(a - b) < 1e-6;
+}
+
+// Replays a submitted round and returns the numbers the server trusts. Throws
+// when the log is malformed or disagrees with the claimed result; rounds that
+// replay cleanly but could not have been played by a human come back flagged.
+export function verifySession(
+  scenario: Scenario,
+  settings: EngineSettings,
+  log: SessionLog,
+  claimed: ClaimedResult,
+): VerifiedSession {
+  assertValidLog(scenario, settings, log);
+
+  const { state, spawns } = replaySessionLog({ scenario, settings }, log);
+  if (!sameNumbers(spawns, log.spawns)) {
+    throw new Error("Session log does not match its seed");
+  }
+
+  const { stats } = state;
+  const summary = summarizeStats(scenario, stats);
+  const matches =
+    claimed.score === stats.score &&
+    claimed.targetsHit === stats.targetsHit &&
+    claimed.targetsMissed === stats.targetsMissed &&
+    (claimed.centerHits ?? 0) === stats.centerHits &&
+    (claimed.ringHits ?? 0) === stats.ringHits &&
+    (claimed.edgeHits ?? 0) === stats.edgeHits &&
+    (claimed.headHits ?? 0) === stats.headHits &&
+    (claimed.bodyHits ?? 0) === stats.bodyHits &&
+    (claimed.legHits ?? 0) === stats.legHits &&
+    closeEnough(claimed.accuracy, summary.accuracy) &&
+    closeEnough(claimed.averageReactionTime, summary.averageReactionTime) &&
+    closeEnough(claimed.timeOnTargetPercent ?? 0, summary.timeOnTargetPercent) &&
+    closeEnough(claimed.averageTrackingDistance ?? 0, summary.averageTrackingDistance);
+  if (!matches) {
+    throw new Error("Session result does not match its log");
+  }
+
+  const flags: string[] = [];
+  if (stats.reactionTimes.some((time) => time < MIN_REACTION_TIME_MS)) {
+    flags.push("reaction_time_below_floor");
+  }
+  if (log.shots.length > (log.elapsed / 1000) * MAX_SHOTS_PER_SECOND) {
+    flags.push("shot_rate_exceeded");
+  }
+
+  return { stats, ...summary, difficultyCurve: state.difficultyCurve, flags };
+}
@@ -0,0 +1,208 @@
+import { query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { WithoutSystemFields } from "convex/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mergeStats, variance } from "./userStats";
+import { getBuiltInScenario } from "../src/engine/scenarios";
+
+// Ratings follow Glicko: each saved session is a game against everyone else's
+// results in the same scenario and settings, and the outcome is the session's
+// percentile among them. Scoring at the population median keeps a rating at
+// INITIAL_RATING; consistently beating 90% of it settles around 1900.
+
+const INITIAL_RATING = 1500;
+const INITIAL_DEVIATION = 350;
+const MIN_DEVIATION = 30;
+// How far the population as a whole is from being a single known opponent
+const POPULATION_DEVIATION = 50;
+// Uncertainty regained per day without a rated session
+const DEVIATION_PER_DAY = 10;
+// Sessions a scenario and settings combination needs before it can rate anyone
+export const MIN_POPULATION = 10;
+// Deviations above this show the tier as provisional
+const PROVISIONAL_DEVIATION = 110;
+const HISTORY_LENGTH = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Q = Math.LN10 / 400;
+
+export const RANK_TIERS = [
+  { name: "Bronze", minRating: 0 },
+  { name: "Silver", minRating: 1200 },
+  { name: "Gold", minRating: 1400 },
+  { name: "Platinum", minRating: 1600 },
+  { name: "Diamond", minRating: 1800 },
+  { name: "Master", minRating: 2000 },
+  { name: "Grandmaster", minRating: 2200 },
+] as const;
+
+export type RankTier = (typeof RANK_TIERS)[number]["name"];
+
+export function getRankTier(rating: number): RankTier {
+  let tier: RankTier = RANK_TIERS[0].name;
+  for (const candidate of RANK_TIERS) {
+    if (rating >= candidate.minRating) tier = candidate.name;
+  }
+  return tier;
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+function normalCdf(z: number) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Share of the population a score beats, assuming scores are roughly normal
+function percentileOf(score: number, population: Doc<"scenarioPopulations">["score"]) {
+  const spread = Math.sqrt(variance(population));
+  if (spread === 0) {
+    return score > population.mean ? 1 : score < population.mean ? 0 : 0.5;
+  }
+  return normalCdf((score - population.mean) / spread);
+}
+
+function g(deviation: number) {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+}
+
+// One Glicko rating period with a single game of outcome `percentile` (0 to 1)
+// against the population
+export function glickoUpdate(rating: number, deviation: number, percentile: number) {
+  const impact = g(POPULATION_DEVIATION);
+  const expected = 1 / (1 + Math.pow(10, (-impact * (rating - INITIAL_RATING)) / 400));
+  const dSquared = 1 / (Q * Q * impact * impact * expected * (1 - expected));
+  const precision = 1 / (deviation * deviation) + 1 / dSquared;
+  return {
+    rating: rating + (Q / precision) * impact * (percentile - expected),
+    deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+  };
+}
+
+function ratingView(row: Doc<"skillRatings">) {
+  return {
+    rating: row.rating,
+    deviation: row.deviation,
+    tier: getRankTier(row.rating),
+    provisional: row.deviation > PROVISIONAL_DEVIATION,
+  };
+}
+
+export async function getRatingFor(ctx: QueryCtx, userId: Id<"users">) {
+  const row = await ctx.db
+    .query("skillRatings")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+  return row ? ratingView(row) : null;
+}
+
+// Rates a verified session against the results already in its population, then
+// adds it to that population. Flagged and adaptive sessions take no part in
+// either, and neither do custom scenarios, whose owner could fill one with
+// their own throwaway rounds. Runs in saveSession's transaction.
+export async function rateSession(
+  ctx: MutationCtx,
+  sessionId: Id<"aimSessions">,
+  session: WithoutSystemFields<Doc<"aimSessions">>,
+  playedAt: number,
+) {
+  if (session.flagged || session.settings.adaptive !== undefined || !getBuiltInScenario(session.gameMode)) {
+    return;
+  }
+
+  const bucket = {
+    targetSize: session.settings.targetSize,
+    targetSpeed: session.settings.targetSpeed,
+    gameTime: session.settings.gameTime,
+  };
+  const population = await ctx.db
+    .query("scenarioPopulations")
+    .withIndex("by_mode_and_settings", (q) =>
+      q
+        .eq("gameMode", session.gameMode)
+        .eq("settings.targetSize", bucket.targetSize)
+        .eq("settings.targetSpeed", bucket.targetSpeed)
+        .eq("settings.gameTime", bucket.gameTime),
+    )
+    .unique();
+  const sample = { count: 1, mean: session.score, m2: 0 };
+  if (population) {
+    await ctx.db.patch(population._id, { score: mergeStats(population.score, sample) });
+  } else {
+    await ctx.db.insert("scenarioPopulations", { gameMode: session.gameMode, settings: bucket, score: sample });
+  }
+  if (!population || population.score.count < MIN_POPULATION) {
+    return;
+  }
+
+  const existing = await ctx.db
+    .query("skillRatings")
+    .withIndex("by_user", (q) => q.eq("userId", session.userId))
+    .unique();
+  const rating = existing?.rating ?? INITIAL_RATING;
+  // Time away makes the rating less certain, so the next sessions move it more
+  const idleDays = existing ? Math.max(0, playedAt - existing.lastRatedAt) / DAY_MS : 0;
+  const deviation = Math.min(
+    INITIAL_DEVIATION,
+    Math.sqrt((existing?.deviation ?? INITIAL_DEVIATION) ** 2 + DEVIATION_PER_DAY ** 2 * idleDays),
+  );
+
+  const percentile = percentileOf(session.score, population.score);
+  const updated = glickoUpdate(rating, deviation, percentile);
+  const row = {
+    userId: session.userId,
+    rating: updated.rating,
+    deviation: updated.deviation,
+    ratedSessions: (existing?.ratedSessions ?? 0) + 1,
+    lastRatedAt: playedAt,
+  };
+  if (existing) {
+    await ctx.db.replace(existing._id, row);
+  } else {
+    await ctx.db.insert("skillRatings", row);
+  }
+  await ctx.db.insert("ratingHistory", {
+    userId: session.userId,
+    sessionId,
+    gameMode: session.gameMode,
+    percentile,
+    rating: updated.rating,
+    deviation: updated.deviation,
+  });
+}
+
+export const getMyRating = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const row = await ctx.db
+      .query("skillRatings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (!row) {
+      return null;
+    }
+
+    const history = await ctx.db
+      .query("ratingHistory")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(HISTORY_LENGTH);
+
+    return {
+      ...ratingView(row),
+      ratedSessions: row.ratedSessions,
+      history: history.reverse().map((entry) => ({
+        ratedAt: entry._creationTime,
+        gameMode: entry.gameMode,
+        percentile: entry.percentile,
+        rating: entry.rating,
+      })),
+    };
+  },
+});
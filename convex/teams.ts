@@ -0,0 +1,595 @@
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { teamWorkValidator } from "./schema";
+import { resolveScenario } from "./scenarios";
+import { playerName } from "./leaderboards";
+import { getRatingFor } from "./skillRatings";
+import { mergeStats } from "./userStats";
+import { toPlan } from "./trainingPlans";
+import { deleteTeamWebhooks } from "./webhooks";
+import { getBuiltInPlan } from "../src/engine/plans";
+
+// Access rules: every member sees the team and its roster of names and roles.
+// Owners and coaches ("staff") also see every member's sessions, stats and
+// replays, and assign work. Only the owner manages membership.
+
+const MAX_OWNED_TEAMS = 5;
+const MAX_MEMBERS = 50;
+const MAX_ASSIGNMENTS = 50;
+const MAX_NAME_LENGTH = 40;
+const MAX_NOTE_LENGTH = 200;
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+const INVITE_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+const MEMBER_SESSIONS = 20;
+
+type Role = Doc<"teamMembers">["role"];
+
+function isStaff(role: Role) {
+  return role === "owner" || role === "coach";
+}
+
+async function getMembership(ctx: QueryCtx, teamId: Id<"teams">, userId: Id<"users">) {
+  return await ctx.db
+    .query("teamMembers")
+    .withIndex("by_team_and_user", (q) => q.eq("teamId", teamId).eq("userId", userId))
+    .unique();
+}
+
+export async function getMyMemberships(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("teamMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+// Whether the user owns or coaches the team
+export async function isTeamStaff(ctx: QueryCtx, teamId: Id<"teams">, userId: Id<"users">) {
+  const membership = await getMembership(ctx, teamId, userId);
+  return membership !== null && isStaff(membership.role);
+}
+
+async function getMembers(ctx: QueryCtx, teamId: Id<"teams">) {
+  return await ctx.db
+    .query("teamMembers")
+    .withIndex("by_team", (q) => q.eq("teamId", teamId))
+    .collect();
+}
+
+async function nameOf(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  return user ? playerName(user) : "Deleted player";
+}
+
+// Whether the viewer may see the player's sessions, stats and replays: their
+// own, or a member's of a team the viewer owns or coaches
+export async function canViewPlayer(ctx: QueryCtx, viewerId: Id<"users">, playerId: Id<"users">) {
+  if (viewerId === playerId) {
+    return true;
+  }
+  for (const membership of await getMyMemberships(ctx, viewerId)) {
+    if (isStaff(membership.role) && (await getMembership(ctx, membership.teamId, playerId))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function getAssignmentsFor(ctx: QueryCtx, userId: Id<"users">) {
+  const assignments = [];
+  for (const membership of await getMyMemberships(ctx, userId)) {
+    const teamAssignments = await ctx.db
+      .query("teamAssignments")
+      .withIndex("by_team", (q) => q.eq("teamId", membership.teamId))
+      .collect();
+    assignments.push(
+      ...teamAssignments.filter((assignment) => assignment.assigneeId === undefined || assignment.assigneeId === userId),
+    );
+  }
+  return assignments;
+}
+
+// Custom plans are private to their owner, except to players a coach assigned
+// them to
+export async function isPlanAssignedTo(ctx: QueryCtx, planId: string, userId: Id<"users">) {
+  const assignments = await getAssignmentsFor(ctx, userId);
+  return assignments.some((assignment) => assignment.work.kind === "plan" && assignment.work.planId === planId);
+}
+
+function randomInviteCode() {
+  let code = "";
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[Math.floor(Math.random() * INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+async function uniqueInviteCode(ctx: QueryCtx) {
+  for (;;) {
+    const code = randomInviteCode();
+    const taken = await ctx.db
+      .query("teamInvites")
+      .withIndex("by_code", (q) => q.eq("code", code))
+      .first();
+    if (!taken) {
+      return code;
+    }
+  }
+}
+
+function assertValidName(name: string) {
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Team names must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+}
+
+export const listMyTeams = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const teams = [];
+    for (const membership of await getMyMemberships(ctx, userId)) {
+      const team = await ctx.db.get(membership.teamId);
+      if (team) {
+        teams.push({ id: team._id, name: team.name, role: membership.role });
+      }
+    }
+    return teams;
+  },
+});
+
+export const createTeam = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to create a team");
+    }
+    const name = args.name.trim();
+    assertValidName(name);
+
+    const owned = await ctx.db
+      .query("teams")
+      .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+      .take(MAX_OWNED_TEAMS);
+    if (owned.length >= MAX_OWNED_TEAMS) {
+      throw new Error(`You can own at most ${MAX_OWNED_TEAMS} teams`);
+    }
+    const teamId = await ctx.db.insert("teams", { name, ownerId: userId });
+    await ctx.db.insert("teamMembers", { teamId, userId, role: "owner" });
+    return teamId;
+  },
+});
+
+// Deletes a team with its members, invites, assignments and webhooks. Owner
+// only.
+export const deleteTeam = mutation({
+  args: { teamId: v.id("teams") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to delete a team");
+    }
+    const team = await ctx.db.get(args.teamId);
+    if (!team || team.ownerId !== userId) {
+      throw new Error("Team not found");
+    }
+
+    for (const member of await getMembers(ctx, team._id)) {
+      await ctx.db.delete(member._id);
+    }
+    const invites = await ctx.db
+      .query("teamInvites")
+      .withIndex("by_team", (q) => q.eq("teamId", team._id))
+      .collect();
+    for (const invite of invites) {
+      await ctx.db.delete(invite._id);
+    }
+    const assignments = await ctx.db
+      .query("teamAssignments")
+      .withIndex("by_team", (q) => q.eq("teamId", team._id))
+      .collect();
+    for (const assignment of assignments) {
+      await ctx.db.delete(assignment._id);
+    }
+    await deleteTeamWebhooks(ctx, team._id);
+    await ctx.db.delete(team._id);
+  },
+});
+
+export const createInvite = mutation({
+  args: {
+    teamId: v.id("teams"),
+    role: v.union(v.literal("coach"), v.literal("member")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to invite players");
+    }
+    const team = await ctx.db.get(args.teamId);
+    if (!team || team.ownerId !== userId) {
+      throw new Error("Only the team owner can invite players");
+    }
+
+    const code = await uniqueInviteCode(ctx);
+    await ctx.db.insert("teamInvites", {
+      teamId: team._id,
+      code,
+      role: args.role,
+      expiresAt: Date.now() + INVITE_LIFETIME_MS,
+    });
+    return code;
+  },
+});
+
+export const listInvites = query({
+  args: { teamId: v.id("teams") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const team = await ctx.db.get(args.teamId);
+    if (!team || team.ownerId !== userId) {
+      return [];
+    }
+
+    const invites = await ctx.db
+      .query("teamInvites")
+      .withIndex("by_team", (q) => q.eq("teamId", team._id))
+      .collect();
+    return invites
+      .filter((invite) => invite.expiresAt > Date.now())
+      .map((invite) => ({ id: invite._id, code: invite.code, role: invite.role, expiresAt: invite.expiresAt }));
+  },
+});
+
+export const revokeInvite = mutation({
+  args: { inviteId: v.id("teamInvites") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to revoke invites");
+    }
+    const invite = await ctx.db.get(args.inviteId);
+    const team = invite && (await ctx.db.get(invite.teamId));
+    if (!invite || !team || team.ownerId !== userId) {
+      throw new Error("Invite not found");
+    }
+    await ctx.db.delete(invite._id);
+  },
+});
+
+// Joins the team an invite code belongs to, in the role it was created for.
+// Each code works once.
+export const joinTeam = mutation({
+  args: { code: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to join a team");
+    }
+
+    const invite = await ctx.db
+      .query("teamInvites")
+      .withIndex("by_code", (q) => q.eq("code", args.code.trim().toUpperCase()))
+      .unique();
+    if (!invite || invite.expiresAt <= Date.now()) {
+      throw new Error("Invite code is invalid or has expired");
+    }
+    if (await getMembership(ctx, invite.teamId, userId)) {
+      throw new Error("You are already on this team");
+    }
+    const members = await getMembers(ctx, invite.teamId);
+    if (members.length >= MAX_MEMBERS) {
+      throw new Error(`Teams can have at most ${MAX_MEMBERS} members`);
+    }
+
+    await ctx.db.insert("teamMembers", { teamId: invite.teamId, userId, role: invite.role });
+    await ctx.db.delete(invite._id);
+    return invite.teamId;
+  },
+});
+
+// Leaves a team. Owners delete their team instead.
+export const leaveTeam = mutation({
+  args: { teamId: v.id("teams") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to leave a team");
+    }
+    const membership = await getMembership(ctx, args.teamId, userId);
+    if (!membership) {
+      throw new Error("You are not on this team");
+    }
+    if (membership.role === "owner") {
+      throw new Error("Owners can't leave their team, only delete it");
+    }
+    await ctx.db.delete(membership._id);
+  },
+});
+
+export const removeMember = mutation({
+  args: { teamId: v.id("teams"), userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to manage a team");
+    }
+    const team = await ctx.db.get(args.teamId);
+    if (!team || team.ownerId !== userId) {
+      throw new Error("Only the team owner can remove members");
+    }
+    const membership = await getMembership(ctx, args.teamId, args.userId);
+    if (!membership || membership.role === "owner") {
+      throw new Error("Member not found");
+    }
+    await ctx.db.delete(membership._id);
+  },
+});
+
+export const setMemberRole = mutation({
+  args: {
+    teamId: v.id("teams"),
+    userId: v.id("users"),
+    role: v.union(v.literal("coach"), v.literal("member")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to manage a team");
+    }
+    const team = await ctx.db.get(args.teamId);
+    if (!team || team.ownerId !== userId) {
+      throw new Error("Only the team owner can change roles");
+    }
+    const membership = await getMembership(ctx, args.teamId, args.userId);
+    if (!membership || membership.role === "owner") {
+      throw new Error("Member not found");
+    }
+    await ctx.db.patch(membership._id, { role: args.role });
+  },
+});
+
+// The team and its roster, for any member
+export const getTeam = query({
+  args: { teamId: v.id("teams") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const team = await ctx.db.get(args.teamId);
+    const membership = await getMembership(ctx, args.teamId, userId);
+    if (!team || !membership) {
+      return null;
+    }
+
+    const members = [];
+    for (const member of await getMembers(ctx, team._id)) {
+      members.push({ userId: member.userId, name: await nameOf(ctx, member.userId), role: member.role });
+    }
+    return { id: team._id, name: team.name, myRole: membership.role, members };
+  },
+});
+
+// Every member's lifetime numbers in one scenario, side by side. Staff only.
+export const getRoster = query({
+  args: { teamId: v.id("teams"), gameMode: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const membership = await getMembership(ctx, args.teamId, userId);
+    if (!membership || !isStaff(membership.role)) {
+      return null;
+    }
+
+    const roster = [];
+    for (const member of await getMembers(ctx, args.teamId)) {
+      const rows = await ctx.db
+        .query("userStats")
+        .withIndex("by_user", (q) => q.eq("userId", member.userId))
+        .collect();
+      const modeRows = rows.filter((row) => row.gameMode === args.gameMode);
+      const score = modeRows.reduce((merged, row) => mergeStats(merged, row.score), { count: 0, mean: 0, m2: 0 });
+      const accuracy = modeRows.reduce((merged, row) => mergeStats(merged, row.accuracy), { count: 0, mean: 0, m2: 0 });
+      const rating = await getRatingFor(ctx, member.userId);
+      roster.push({
+        userId: member.userId,
+        name: await nameOf(ctx, member.userId),
+        role: member.role,
+        sessions: modeRows.reduce((sum, row) => sum + row.sessions, 0),
+        bestScore: Math.max(0, ...modeRows.map((row) => row.bestScore)),
+        averageScore: score.mean,
+        averageAccuracy: accuracy.mean,
+        lastPlayedAt: Math.max(0, ...modeRows.map((row) => row.lastPlayedAt)),
+        rating: rating?.rating ?? null,
+        tier: rating?.tier ?? null,
+      });
+    }
+    return roster;
+  },
+});
+
+// A member's most recent sessions, with replays. Staff only.
+export const getMemberSessions = query({
+  args: { teamId: v.id("teams"), userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const membership = await getMembership(ctx, args.teamId, userId);
+    if (!membership || !isStaff(membership.role) || !(await getMembership(ctx, args.teamId, args.userId))) {
+      return null;
+    }
+
+    const sessions = await ctx.db
+      .query("aimSessions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(MEMBER_SESSIONS);
+    return sessions.map((session) => ({
+      id: session._id,
+      playedAt: session.importedFrom?.playedAt ?? session._creationTime,
+      gameMode: session.gameMode,
+      score: session.score,
+      accuracy: session.accuracy,
+      settings: session.settings,
+      flagged: session.flagged ?? false,
+      replayId: session.replayId ?? null,
+    }));
+  },
+});
+
+// Assigns a scenario or plan to one member, or to the whole team. Staff only;
+// custom plans must be the assigner's own.
+export const assignWork = mutation({
+  args: {
+    teamId: v.id("teams"),
+    assigneeId: v.optional(v.id("users")),
+    work: teamWorkValidator,
+    note: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to assign work");
+    }
+    const membership = await getMembership(ctx, args.teamId, userId);
+    if (!membership || !isStaff(membership.role)) {
+      throw new Error("Only owners and coaches can assign work");
+    }
+    if (args.assigneeId && !(await getMembership(ctx, args.teamId, args.assigneeId))) {
+      throw new Error("Assignee is not on this team");
+    }
+    const note = args.note.trim();
+    if (note.length > MAX_NOTE_LENGTH) {
+      throw new Error(`Notes must be at most ${MAX_NOTE_LENGTH} characters`);
+    }
+
+    const { work } = args;
+    if (work.kind === "scenario") {
+      const scenario = await resolveScenario(ctx, work.scenarioId);
+      if (!scenario) {
+        throw new Error("Scenario not found");
+      }
+      const { targetSize, targetSpeed, gameTime } = work.settings;
+      if (
+        targetSize < 30 || targetSize > 80 ||
+        targetSpeed < 1000 || targetSpeed > 4000 ||
+        gameTime < 15 || gameTime > 120 ||
+        (scenario.duration !== null && gameTime !== scenario.duration)
+      ) {
+        throw new Error("Assignment settings are out of range");
+      }
+    } else if (!getBuiltInPlan(work.planId)) {
+      const planId = ctx.db.normalizeId("trainingPlans", work.planId);
+      const plan = planId && (await ctx.db.get(planId));
+      if (!plan || plan.ownerId !== userId) {
+        throw new Error("Plan not found");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("teamAssignments")
+      .withIndex("by_team", (q) => q.eq("teamId", args.teamId))
+      .take(MAX_ASSIGNMENTS);
+    if (existing.length >= MAX_ASSIGNMENTS) {
+      throw new Error(`Teams can have at most ${MAX_ASSIGNMENTS} assignments`);
+    }
+    return await ctx.db.insert("teamAssignments", {
+      teamId: args.teamId,
+      assignedBy: userId,
+      assigneeId: args.assigneeId,
+      work,
+      note,
+    });
+  },
+});
+
+export const removeAssignment = mutation({
+  args: { assignmentId: v.id("teamAssignments") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to remove assignments");
+    }
+    const assignment = await ctx.db.get(args.assignmentId);
+    const membership = assignment && (await getMembership(ctx, assignment.teamId, userId));
+    if (!assignment || !membership || !isStaff(membership.role)) {
+      throw new Error("Assignment not found");
+    }
+    await ctx.db.delete(assignment._id);
+  },
+});
+
+// Assignments as shown to players, with what they need to start the work
+async function toAssignmentView(ctx: QueryCtx, assignment: Doc<"teamAssignments">) {
+  const { work } = assignment;
+  let scenario = null;
+  let plan = null;
+  if (work.kind === "scenario") {
+    scenario = await resolveScenario(ctx, work.scenarioId);
+  } else {
+    const planId = ctx.db.normalizeId("trainingPlans", work.planId);
+    const doc = planId && (await ctx.db.get(planId));
+    plan = getBuiltInPlan(work.planId) ?? (doc ? toPlan(doc) : null);
+  }
+  return {
+    id: assignment._id,
+    teamId: assignment.teamId,
+    assignedAt: assignment._creationTime,
+    assignedByName: await nameOf(ctx, assignment.assignedBy),
+    assigneeName: assignment.assigneeId ? await nameOf(ctx, assignment.assigneeId) : null,
+    note: assignment.note,
+    // Null when the scenario or plan was deleted after it was assigned
+    scenario,
+    settings: work.kind === "scenario" ? work.settings : null,
+    plan,
+  };
+}
+
+// Everything assigned to the team, for its staff
+export const listTeamAssignments = query({
+  args: { teamId: v.id("teams") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const membership = await getMembership(ctx, args.teamId, userId);
+    if (!membership || !isStaff(membership.role)) {
+      return [];
+    }
+
+    const assignments = await ctx.db
+      .query("teamAssignments")
+      .withIndex("by_team", (q) => q.eq("teamId", args.teamId))
+      .collect();
+    return await Promise.all(assignments.map((assignment) => toAssignmentView(ctx, assignment)));
+  },
+});
+
+// Work assigned to the caller across all of their teams
+export const listMyAssignments = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const assignments = await getAssignmentsFor(ctx, userId);
+    return await Promise.all(assignments.map((assignment) => toAssignmentView(ctx, assignment)));
+  },
+});
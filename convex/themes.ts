@@ -0,0 +1,85 @@
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Id } from "./_generated/dataModel";
+import { themeValidator } from "./schema";
+import { validateTheme } from "../src/engine/theme";
+
+// Scenario themes per user, on top of the default one
+const MAX_SCENARIO_THEMES = 50;
+
+async function getTheme(ctx: QueryCtx, userId: Id<"users">, scenarioId: string | undefined) {
+  return await ctx.db
+    .query("themes")
+    .withIndex("by_user_and_scenario", (q) => q.eq("userId", userId).eq("scenarioId", scenarioId))
+    .unique();
+}
+
+// The user's default theme, with a null scenarioId, and their scenario themes
+export const getMyThemes = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const themes = await ctx.db
+      .query("themes")
+      .withIndex("by_user_and_scenario", (q) => q.eq("userId", userId))
+      .take(MAX_SCENARIO_THEMES + 1);
+    return themes.map((entry) => ({ scenarioId: entry.scenarioId ?? null, theme: entry.theme }));
+  },
+});
+
+// Without a scenarioId this saves the default theme
+export const saveTheme = mutation({
+  args: {
+    scenarioId: v.optional(v.string()),
+    theme: themeValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save a theme");
+    }
+
+    const problem = validateTheme(args.theme);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const existing = await getTheme(ctx, userId, args.scenarioId);
+    if (existing) {
+      await ctx.db.patch(existing._id, { theme: args.theme });
+      return existing._id;
+    }
+
+    if (args.scenarioId !== undefined) {
+      const themes = await ctx.db
+        .query("themes")
+        .withIndex("by_user_and_scenario", (q) => q.eq("userId", userId))
+        .take(MAX_SCENARIO_THEMES + 1);
+      if (themes.filter((entry) => entry.scenarioId !== undefined).length >= MAX_SCENARIO_THEMES) {
+        throw new Error(`You can keep themes for at most ${MAX_SCENARIO_THEMES} scenarios`);
+      }
+    }
+    return await ctx.db.insert("themes", { userId, scenarioId: args.scenarioId, theme: args.theme });
+  },
+});
+
+// Goes back to the default theme for a scenario, or to the built-in default
+export const deleteTheme = mutation({
+  args: { scenarioId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to delete a theme");
+    }
+
+    const existing = await getTheme(ctx, userId, args.scenarioId);
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
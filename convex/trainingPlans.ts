@@ -0,0 +1,309 @@
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { planDefinitionValidator } from "./schema";
+import { resolveScenario } from "./scenarios";
+import { isPlanAssignedTo } from "./teams";
+import { emitWebhookEvent } from "./webhooks";
+import { playerName } from "./leaderboards";
+import { getBuiltInPlan, validatePlan, type PlanDefinition, type TrainingPlan } from "../src/engine/plans";
+
+const MAX_PLANS_PER_USER = 20;
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_PROGRESS_DAYS = 31;
+// Upper bound on results read when looking for a plan's best scores
+const MAX_SCANNED_RESULTS = 2000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Whether `day` (yyyy-mm-dd) is the local date somewhere in the world at
+// `time`. Time zones run from UTC-12 to UTC+14.
+function isLocalDayOf(day: string, time: number) {
+  const start = Date.parse(`${day}T00:00:00Z`);
+  return time >= start - 14 * HOUR_MS && time < start + DAY_MS + 12 * HOUR_MS;
+}
+
+// A plan is complete for a day once every block has a passing result
+function isPlanComplete(plan: TrainingPlan, results: { blockIndex: number; passed: boolean }[]) {
+  return plan.blocks.every((_, i) => results.some((result) => result.blockIndex === i && result.passed));
+}
+
+export function toPlan(doc: Doc<"trainingPlans">): TrainingPlan {
+  return {
+    id: doc._id,
+    name: doc.name,
+    description: doc.description,
+    ...doc.definition,
+  };
+}
+
+// A built-in plan, one of the user's own, or one a coach assigned to them.
+// Custom plans are otherwise private.
+async function resolvePlan(ctx: QueryCtx, planId: string, userId: Id<"users">): Promise<TrainingPlan | null> {
+  const builtIn = getBuiltInPlan(planId);
+  if (builtIn) {
+    return builtIn;
+  }
+  const docId = ctx.db.normalizeId("trainingPlans", planId);
+  if (!docId) {
+    return null;
+  }
+  const doc = await ctx.db.get(docId);
+  if (!doc) {
+    return null;
+  }
+  return doc.ownerId === userId || (await isPlanAssignedTo(ctx, planId, userId)) ? toPlan(doc) : null;
+}
+
+async function assertValidPlan(ctx: QueryCtx, name: string, description: string, definition: PlanDefinition) {
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Plan names must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`Plan descriptions must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  const problem = validatePlan(definition);
+  if (problem) {
+    throw new Error(problem);
+  }
+  for (const [i, block] of definition.blocks.entries()) {
+    const scenario = await resolveScenario(ctx, block.scenarioId);
+    if (!scenario) {
+      throw new Error(`Block ${i + 1} uses a scenario that doesn't exist`);
+    }
+    if (scenario.duration !== null && scenario.duration !== block.duration) {
+      throw new Error(`Block ${i + 1} must last ${scenario.duration} seconds, like its scenario`);
+    }
+  }
+}
+
+export const listMyPlans = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const plans = await ctx.db
+      .query("trainingPlans")
+      .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+      .take(MAX_PLANS_PER_USER);
+    return plans.map(toPlan);
+  },
+});
+
+// Creates a plan, or updates one when planId is given
+export const savePlan = mutation({
+  args: {
+    planId: v.optional(v.id("trainingPlans")),
+    name: v.string(),
+    description: v.string(),
+    definition: planDefinitionValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save plans");
+    }
+    const name = args.name.trim();
+    const description = args.description.trim();
+    await assertValidPlan(ctx, name, description, args.definition);
+
+    if (args.planId) {
+      const existing = await ctx.db.get(args.planId);
+      if (!existing || existing.ownerId !== userId) {
+        throw new Error("Plan not found");
+      }
+      await ctx.db.patch(args.planId, { name, description, definition: args.definition });
+      return args.planId;
+    }
+
+    const owned = await ctx.db
+      .query("trainingPlans")
+      .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+      .take(MAX_PLANS_PER_USER);
+    if (owned.length >= MAX_PLANS_PER_USER) {
+      throw new Error(`You can keep at most ${MAX_PLANS_PER_USER} plans`);
+    }
+    return await ctx.db.insert("trainingPlans", {
+      ownerId: userId,
+      name,
+      description,
+      definition: args.definition,
+    });
+  },
+});
+
+// Deletes a plan along with the progress recorded against it
+export const deletePlan = mutation({
+  args: { planId: v.id("trainingPlans") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to delete plans");
+    }
+
+    const plan = await ctx.db.get(args.planId);
+    if (!plan || plan.ownerId !== userId) {
+      throw new Error("Plan not found");
+    }
+    const results = await ctx.db
+      .query("planBlockResults")
+      .withIndex("by_user_plan_and_day", (q) => q.eq("userId", userId).eq("planId", args.planId))
+      .collect();
+    for (const result of results) {
+      await ctx.db.delete(result._id);
+    }
+    await ctx.db.delete(args.planId);
+  },
+});
+
+// Marks a block of a plan as played with an already saved session. The score
+// comes from the session, which must have been played exactly as the block
+// describes, on the given day, and not used for a block before. The plan is
+// completed for the day by the result that makes every block passed.
+export const recordBlockResult = mutation({
+  args: {
+    planId: v.string(),
+    blockIndex: v.number(),
+    sessionId: v.id("aimSessions"),
+    day: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to record plan progress");
+    }
+    if (!DAY_PATTERN.test(args.day)) {
+      throw new Error("Invalid day");
+    }
+
+    const plan = await resolvePlan(ctx, args.planId, userId);
+    const block = plan?.blocks[args.blockIndex];
+    if (!block) {
+      throw new Error("Plan block not found");
+    }
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.userId !== userId) {
+      throw new Error("Session not found");
+    }
+    if (!isLocalDayOf(args.day, session._creationTime)) {
+      throw new Error("Session was not played on that day");
+    }
+    const used = await ctx.db
+      .query("planBlockResults")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .first();
+    if (used) {
+      throw new Error("Session was already recorded for a plan block");
+    }
+    if (
+      session.gameMode !== block.scenarioId ||
+      session.settings.targetSize !== block.targetSize ||
+      session.settings.targetSpeed !== block.targetSpeed ||
+      session.settings.gameTime !== block.duration ||
+      session.settings.adaptive !== undefined
+    ) {
+      throw new Error("Session was not played with the block's settings");
+    }
+
+    const passed = !session.flagged && session.score >= block.targetScore;
+    const earlier = await ctx.db
+      .query("planBlockResults")
+      .withIndex("by_user_plan_and_day", (q) =>
+        q.eq("userId", userId).eq("planId", args.planId).eq("day", args.day),
+      )
+      .collect();
+    const recorded = {
+      userId,
+      planId: args.planId,
+      blockIndex: args.blockIndex,
+      sessionId: args.sessionId,
+      score: session.score,
+      passed,
+      day: args.day,
+    };
+    await ctx.db.insert("planBlockResults", recorded);
+
+    const results = [...earlier, recorded];
+    const user = await ctx.db.get(userId);
+    if (plan && user && !isPlanComplete(plan, earlier) && isPlanComplete(plan, results)) {
+      await emitWebhookEvent(ctx, userId, "plan.completed", {
+        player: { id: userId, name: playerName(user) },
+        plan: { id: plan.id, name: plan.name },
+        day: args.day,
+        // Each block's best passing result of the day
+        blocks: plan.blocks.map((planBlock, i) => {
+          const best = results
+            .filter((result) => result.blockIndex === i && result.passed)
+            .sort((a, b) => b.score - a.score)[0];
+          return {
+            scenarioId: planBlock.scenarioId,
+            targetScore: planBlock.targetScore,
+            score: best?.score ?? null,
+            passed: best?.passed ?? false,
+          };
+        }),
+      });
+    }
+    return passed;
+  },
+});
+
+// How the caller did on each block of a plan, on each of the given days, plus
+// their best score on every block ever
+export const getPlanProgress = query({
+  args: {
+    planId: v.string(),
+    // The player's local dates to report on, oldest first
+    days: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId || args.days.length === 0 || args.days.length > MAX_PROGRESS_DAYS) {
+      return null;
+    }
+    const plan = await resolvePlan(ctx, args.planId, userId);
+    if (!plan) {
+      return null;
+    }
+
+    const inRange = await ctx.db
+      .query("planBlockResults")
+      .withIndex("by_user_plan_and_day", (q) =>
+        q
+          .eq("userId", userId)
+          .eq("planId", args.planId)
+          .gte("day", args.days[0])
+          .lte("day", args.days[args.days.length - 1]),
+      )
+      .collect();
+    const days = args.days.map((day) => {
+      const results = inRange.filter((result) => result.day === day);
+      return {
+        day,
+        // Best score on each block that day, null when it wasn't played
+        blocks: plan.blocks.map((_, i) => {
+          const scores = results.filter((result) => result.blockIndex === i).map((result) => result.score);
+          return scores.length > 0 ? Math.max(...scores) : null;
+        }),
+        passed: plan.blocks.map((_, i) => results.some((result) => result.blockIndex === i && result.passed)),
+      };
+    });
+
+    const allResults = await ctx.db
+      .query("planBlockResults")
+      .withIndex("by_user_plan_and_day", (q) => q.eq("userId", userId).eq("planId", args.planId))
+      .take(MAX_SCANNED_RESULTS);
+    const bestScores = plan.blocks.map((_, i) => {
+      const scores = allResults.filter((result) => result.blockIndex === i).map((result) => result.score);
+      return scores.length > 0 ? Math.max(...scores) : null;
+    });
+
+    return { days, bestScores };
+  },
+});
@@ -0,0 +1,129 @@
+import { query, mutation } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { trainingSettingsValidator } from "./schema";
+
+const MAX_PRESETS = 30;
+const MAX_PRESET_NAME_LENGTH = 40;
+
+function assertValidSettings(settings: Infer<typeof trainingSettingsValidator>) {
+  if (
+    settings.targetSize < 30 || settings.targetSize > 80 ||
+    settings.targetSpeed < 1000 || settings.targetSpeed > 4000 ||
+    settings.gameTime < 15 || settings.gameTime > 120 ||
+    settings.fov < 60 || settings.fov > 120 ||
+    settings.soundVolume < 0 || settings.soundVolume > 1
+  ) {
+    throw new Error("Settings are out of range");
+  }
+}
+
+export const getMySettings = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const stored = await ctx.db
+      .query("userSettings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    return stored?.settings ?? null;
+  },
+});
+
+export const saveMySettings = mutation({
+  args: { settings: trainingSettingsValidator },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save settings");
+    }
+    assertValidSettings(args.settings);
+
+    const existing = await ctx.db
+      .query("userSettings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { settings: args.settings });
+      return existing._id;
+    }
+    return await ctx.db.insert("userSettings", { userId, settings: args.settings });
+  },
+});
+
+export const listPresets = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const presets = await ctx.db
+      .query("settingsPresets")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId))
+      .take(MAX_PRESETS);
+    return presets.map((preset) => ({
+      _id: preset._id,
+      name: preset.name,
+      settings: preset.settings,
+    }));
+  },
+});
+
+// Saving under an existing name overwrites that preset
+export const savePreset = mutation({
+  args: {
+    name: v.string(),
+    settings: trainingSettingsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to save presets");
+    }
+    const name = args.name.trim();
+    if (name.length === 0 || name.length > MAX_PRESET_NAME_LENGTH) {
+      throw new Error(`Preset names must be 1 to ${MAX_PRESET_NAME_LENGTH} characters`);
+    }
+    assertValidSettings(args.settings);
+
+    const existing = await ctx.db
+      .query("settingsPresets")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId).eq("name", name))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { settings: args.settings });
+      return existing._id;
+    }
+
+    const presets = await ctx.db
+      .query("settingsPresets")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId))
+      .take(MAX_PRESETS);
+    if (presets.length >= MAX_PRESETS) {
+      throw new Error(`You can keep at most ${MAX_PRESETS} presets`);
+    }
+    return await ctx.db.insert("settingsPresets", { userId, name, settings: args.settings });
+  },
+});
+
+export const deletePreset = mutation({
+  args: { presetId: v.id("settingsPresets") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to delete presets");
+    }
+
+    const preset = await ctx.db.get(args.presetId);
+    if (!preset || preset.userId !== userId) {
+      throw new Error("Preset not found");
+    }
+    await ctx.db.delete(args.presetId);
+  },
+});
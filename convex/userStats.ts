@@ -0,0 +1,220 @@
+import { internalMutation, query, type MutationCtx } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { paginationOptsValidator, type WithoutSystemFields } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import type { runningStatValidator } from "./schema";
+
+type RunningStat = Infer<typeof runningStatValidator>;
+type SessionFields = WithoutSystemFields<Doc<"aimSessions">>;
+type StatsRow = WithoutSystemFields<Doc<"userStats">>;
+
+export const EMPTY_STAT: RunningStat = { count: 0, mean: 0, m2: 0 };
+
+export function addValue(stat: RunningStat, value: number): RunningStat {
+  const count = stat.count + 1;
+  const delta = value - stat.mean;
+  const mean = stat.mean + delta / count;
+  return { count, mean, m2: stat.m2 + delta * (value - mean) };
+}
+
+export function mergeStats(a: RunningStat, b: RunningStat): RunningStat {
+  const count = a.count + b.count;
+  if (count === 0) {
+    return EMPTY_STAT;
+  }
+  const delta = b.mean - a.mean;
+  return {
+    count,
+    mean: a.mean + (delta * b.count) / count,
+    m2: a.m2 + b.m2 + (delta * delta * a.count * b.count) / count,
+  };
+}
+
+// Sample variance, 0 until there are two values
+export function variance(stat: RunningStat) {
+  return stat.count > 1 ? stat.m2 / (stat.count - 1) : 0;
+}
+
+export function bucketOf(session: SessionFields) {
+  return {
+    targetSize: session.settings.targetSize,
+    targetSpeed: session.settings.targetSpeed,
+    gameTime: session.settings.gameTime,
+  };
+}
+
+function emptyRow(session: SessionFields): StatsRow {
+  return {
+    userId: session.userId,
+    gameMode: session.gameMode,
+    settings: bucketOf(session),
+    sessions: 0,
+    flaggedSessions: 0,
+    targetsHit: 0,
+    targetsMissed: 0,
+    bestScore: 0,
+    bestAccuracy: 0,
+    score: EMPTY_STAT,
+    accuracy: EMPTY_STAT,
+    reactionTime: EMPTY_STAT,
+    timeOnTarget: EMPTY_STAT,
+    trackingDistance: EMPTY_STAT,
+    lastPlayedAt: 0,
+  };
+}
+
+// Folds one session into its bucket's aggregates. Like getUserStats always
+// did, a session is a tracking one when it has time on target.
+function addSession(row: StatsRow, session: SessionFields, playedAt: number): StatsRow {
+  const flagged = session.flagged ?? false;
+  const tracking = session.timeOnTargetPercent !== undefined;
+  const next: StatsRow = {
+    ...row,
+    sessions: row.sessions + 1,
+    flaggedSessions: row.flaggedSessions + (flagged ? 1 : 0),
+    targetsHit: row.targetsHit + session.targetsHit,
+    targetsMissed: row.targetsMissed + session.targetsMissed,
+    score: addValue(row.score, session.score),
+    accuracy: addValue(row.accuracy, session.accuracy),
+    lastPlayedAt: Math.max(row.lastPlayedAt, playedAt),
+  };
+  if (tracking) {
+    next.timeOnTarget = addValue(row.timeOnTarget, session.timeOnTargetPercent ?? 0);
+    next.trackingDistance = addValue(row.trackingDistance, session.averageTrackingDistance ?? 0);
+  } else {
+    next.reactionTime = addValue(row.reactionTime, session.averageReactionTime);
+  }
+  if (!flagged) {
+    next.bestScore = Math.max(row.bestScore, session.score);
+    next.bestAccuracy = Math.max(row.bestAccuracy, session.accuracy);
+    if (!tracking && session.averageReactionTime > 0) {
+      next.bestReactionTime = Math.min(row.bestReactionTime ?? Infinity, session.averageReactionTime);
+    }
+  }
+  return next;
+}
+
+// Called by saveSession in the same transaction as the session insert, so the
+// aggregates can never drift from the sessions they summarize. Returns the
+// bucket's best score before this session, null when it is the first.
+// Adaptive rounds didn't play at their bucket's settings, so like on the
+// leaderboards they are left out and return null.
+export async function recordSessionStats(ctx: MutationCtx, session: SessionFields, playedAt: number) {
+  if (session.settings.adaptive !== undefined) {
+    return null;
+  }
+  const bucket = bucketOf(session);
+  const existing = await ctx.db
+    .query("userStats")
+    .withIndex("by_user_mode_and_settings", (q) =>
+      q
+        .eq("userId", session.userId)
+        .eq("gameMode", session.gameMode)
+        .eq("settings.targetSize", bucket.targetSize)
+        .eq("settings.targetSpeed", bucket.targetSpeed)
+        .eq("settings.gameTime", bucket.gameTime),
+    )
+    .unique();
+
+  if (existing) {
+    const { _id, _creationTime, ...row } = existing;
+    await ctx.db.replace(_id, addSession(row, session, playedAt));
+    return existing.bestScore;
+  }
+  await ctx.db.insert("userStats", addSession(emptyRow(session), session, playedAt));
+  return null;
+}
+
+// The caller's aggregates for one mode and settings combination
+export const getMyBucketStats = query({
+  args: {
+    gameMode: v.string(),
+    settings: v.object({
+      targetSize: v.number(),
+      targetSpeed: v.number(),
+      gameTime: v.number(),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const row = await ctx.db
+      .query("userStats")
+      .withIndex("by_user_mode_and_settings", (q) =>
+        q
+          .eq("userId", userId)
+          .eq("gameMode", args.gameMode)
+          .eq("settings.targetSize", args.settings.targetSize)
+          .eq("settings.targetSpeed", args.settings.targetSpeed)
+          .eq("settings.gameTime", args.settings.gameTime),
+      )
+      .unique();
+    if (!row) {
+      return null;
+    }
+
+    return {
+      sessions: row.sessions,
+      bestScore: row.bestScore,
+      averageScore: row.score.mean,
+      scoreStdDev: Math.sqrt(variance(row.score)),
+      averageAccuracy: row.accuracy.mean,
+      accuracyStdDev: Math.sqrt(variance(row.accuracy)),
+    };
+  },
+});
+
+// Recomputes one user's aggregates from all of their sessions
+export const rebuildUserStats = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("userStats")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+
+    const rows = new Map<string, StatsRow>();
+    const sessions = ctx.db
+      .query("aimSessions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId));
+    for await (const session of sessions) {
+      const { _id, _creationTime, ...fields } = session;
+      if (fields.settings.adaptive !== undefined) continue;
+      const bucket = bucketOf(fields);
+      const key = JSON.stringify([fields.gameMode, bucket.targetSize, bucket.targetSpeed, bucket.gameTime]);
+      const playedAt = fields.importedFrom?.playedAt ?? _creationTime;
+      rows.set(key, addSession(rows.get(key) ?? emptyRow(fields), fields, playedAt));
+    }
+    for (const row of rows.values()) {
+      await ctx.db.insert("userStats", row);
+    }
+  },
+});
+
+// Fills the table for sessions saved before it existed. Run once with
+// `npx convex run userStats:backfillUserStats`; it walks the users a page at
+// a time and rebuilds each one separately.
+export const backfillUserStats = internalMutation({
+  args: { paginationOpts: v.optional(paginationOptsValidator) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("users")
+      .paginate(args.paginationOpts ?? { numItems: 100, cursor: null });
+    for (const user of page.page) {
+      await ctx.scheduler.runAfter(0, internal.userStats.rebuildUserStats, { userId: user._id });
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.userStats.backfillUserStats, {
+        paginationOpts: { numItems: 100, cursor: page.continueCursor },
+      });
+    }
+  },
+});
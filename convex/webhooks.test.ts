@@ -0,0 +1,44 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { deliveriesToTrim, retryDelay, sign } from "./webhooks";
+
+describe("sign", () => {
+  it("is the hex HMAC-SHA256 of the timestamp and body", async () => {
+    const body = JSON.stringify({ id: "1", event: "session.saved", createdAt: 1700000000000, data: {} });
+    const expected = createHmac("sha256", "whsec_test").update(`1700000000.${body}`).digest("hex");
+
+    expect(await sign("whsec_test", 1700000000, body)).toBe(expected);
+  });
+
+  it("changes with the secret and the timestamp", async () => {
+    const signature = await sign("whsec_test", 1700000000, "{}");
+
+    expect(await sign("whsec_other", 1700000000, "{}")).not.toBe(signature);
+    expect(await sign("whsec_test", 1700000001, "{}")).not.toBe(signature);
+  });
+});
+
+describe("retryDelay", () => {
+  it("doubles from 30 seconds and gives up after the sixth attempt", () => {
+    const delays = [1, 2, 3, 4, 5, 6].map(retryDelay);
+
+    expect(delays).toEqual([30_000, 60_000, 120_000, 240_000, 480_000, null]);
+  });
+});
+
+describe("deliveriesToTrim", () => {
+  it("keeps the newest 50 deliveries and anything still pending", () => {
+    const deliveries = Array.from({ length: 60 }, (_, i) => ({
+      id: i,
+      status: i === 55 ? ("pending" as const) : ("succeeded" as const),
+    }));
+
+    expect(deliveriesToTrim(deliveries).map((delivery) => delivery.id)).toEqual(
+      [50, 51, 52, 53, 54, 56, 57, 58, 59],
+    );
+  });
+
+  it("trims nothing from a short log", () => {
+    expect(deliveriesToTrim([{ status: "failed" as const }])).toEqual([]);
+  });
+});
@@ -0,0 +1,397 @@
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { webhookEventValidator } from "./schema";
+import { getMyMemberships, isTeamStaff } from "./teams";
+
+// Outgoing webhooks. Events are queued as deliveries in the mutation that
+// causes them and sent from a scheduled action, so nothing is sent for work
+// that doesn't commit. Every request is a JSON POST:
+//
+//   { "id": "<delivery id>", "event": "session.saved", "createdAt": 1700000000000, "data": { ... } }
+//
+// signed with the webhook's secret. X-Webhook-Signature is `sha256=` and the
+// hex HMAC-SHA256 of `<X-Webhook-Timestamp>.<body>`. Anything but a 2xx
+// response is retried with exponential backoff.
+
+export type WebhookEvent = Infer<typeof webhookEventValidator>;
+
+const MAX_WEBHOOKS = 10;
+const MAX_URL_LENGTH = 500;
+const SECRET_PREFIX = "whsec_";
+const SECRET_BYTES = 24;
+const MAX_ATTEMPTS = 6;
+// Retries wait 30 s, 1 min, 2 min, 4 min and 8 min
+const RETRY_BASE_MS = 30 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Settled deliveries kept per webhook for the delivery log
+const LOGGED_DELIVERIES = 50;
+const MAX_ERROR_LENGTH = 200;
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function sign(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`)));
+}
+
+// How long to wait after a delivery's failed attempt number `attempts` before
+// the next one, null when it has run out of attempts
+export function retryDelay(attempts: number) {
+  return attempts >= MAX_ATTEMPTS ? null : RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+// The deliveries, newest first, that fall out of a webhook's delivery log.
+// Anything still being retried stays.
+export function deliveriesToTrim<T extends Pick<Doc<"webhookDeliveries">, "status">>(deliveries: T[]) {
+  return deliveries.slice(LOGGED_DELIVERIES).filter((delivery) => delivery.status !== "pending");
+}
+
+function assertValidWebhook(url: string, events: WebhookEvent[]) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Webhook URL is not a valid URL");
+  }
+  // Plain http is allowed so deliveries can be tried against a local server
+  if ((parsed.protocol !== "https:" && parsed.protocol !== "http:") || url.length > MAX_URL_LENGTH) {
+    throw new Error(`Webhook URLs must be http(s) and at most ${MAX_URL_LENGTH} characters`);
+  }
+  if (events.length === 0) {
+    throw new Error("Pick at least one event");
+  }
+}
+
+async function getPersonalWebhooks(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("webhooks")
+    .withIndex("by_user_and_team", (q) => q.eq("userId", userId).eq("teamId", undefined))
+    .collect();
+}
+
+async function getTeamWebhooks(ctx: QueryCtx, teamId: Id<"teams">) {
+  return await ctx.db
+    .query("webhooks")
+    .withIndex("by_team", (q) => q.eq("teamId", teamId))
+    .collect();
+}
+
+// Personal webhooks are their creator's; team ones belong to the team's staff
+async function canManage(ctx: QueryCtx, userId: Id<"users">, webhook: Pick<Doc<"webhooks">, "userId" | "teamId">) {
+  return webhook.teamId ? await isTeamStaff(ctx, webhook.teamId, userId) : webhook.userId === userId;
+}
+
+async function getManagedWebhook(ctx: QueryCtx, userId: Id<"users">, webhookId: Id<"webhooks">) {
+  const webhook = await ctx.db.get(webhookId);
+  if (!webhook || !(await canManage(ctx, userId, webhook))) {
+    throw new Error("Webhook not found");
+  }
+  return webhook;
+}
+
+async function deleteDeliveries(ctx: MutationCtx, webhookId: Id<"webhooks">) {
+  const deliveries = await ctx.db
+    .query("webhookDeliveries")
+    .withIndex("by_webhook", (q) => q.eq("webhookId", webhookId))
+    .collect();
+  for (const delivery of deliveries) {
+    await ctx.db.delete(delivery._id);
+  }
+}
+
+async function enqueueDelivery(
+  ctx: MutationCtx,
+  webhook: Doc<"webhooks">,
+  event: Doc<"webhookDeliveries">["event"],
+  data: unknown,
+) {
+  const deliveryId = await ctx.db.insert("webhookDeliveries", {
+    webhookId: webhook._id,
+    event,
+    data: JSON.stringify(data),
+    status: "pending",
+    attempts: 0,
+  });
+  await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+
+  const deliveries = await ctx.db
+    .query("webhookDeliveries")
+    .withIndex("by_webhook", (q) => q.eq("webhookId", webhook._id))
+    .order("desc")
+    .collect();
+  for (const delivery of deliveriesToTrim(deliveries)) {
+    await ctx.db.delete(delivery._id);
+  }
+}
+
+// Queues an event for the player's own webhooks and those of their teams.
+// Called from the mutation the event happens in.
+export async function emitWebhookEvent(ctx: MutationCtx, userId: Id<"users">, event: WebhookEvent, data: unknown) {
+  const webhooks = await getPersonalWebhooks(ctx, userId);
+  for (const membership of await getMyMemberships(ctx, userId)) {
+    webhooks.push(...(await getTeamWebhooks(ctx, membership.teamId)));
+  }
+  for (const webhook of webhooks) {
+    if (webhook.active && webhook.events.includes(event)) {
+      await enqueueDelivery(ctx, webhook, event, data);
+    }
+  }
+}
+
+export async function deleteTeamWebhooks(ctx: MutationCtx, teamId: Id<"teams">) {
+  for (const webhook of await getTeamWebhooks(ctx, teamId)) {
+    await deleteDeliveries(ctx, webhook._id);
+    await ctx.db.delete(webhook._id);
+  }
+}
+
+// The caller's personal webhooks, or a team's when they are its staff
+export const listWebhooks = query({
+  args: { teamId: v.optional(v.id("teams")) },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId || (args.teamId && !(await isTeamStaff(ctx, args.teamId, userId)))) {
+      return [];
+    }
+
+    const webhooks = args.teamId ? await getTeamWebhooks(ctx, args.teamId) : await getPersonalWebhooks(ctx, userId);
+    return webhooks.map((webhook) => ({
+      id: webhook._id,
+      url: webhook.url,
+      events: webhook.events,
+      secret: webhook.secret,
+      active: webhook.active,
+      createdAt: webhook._creationTime,
+    }));
+  },
+});
+
+// Creates a webhook with a fresh signing secret
+export const createWebhook = action({
+  args: {
+    teamId: v.optional(v.id("teams")),
+    url: v.string(),
+    events: v.array(webhookEventValidator),
+  },
+  handler: async (ctx, args): Promise<Id<"webhooks">> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to create webhooks");
+    }
+
+    const bytes = crypto.getRandomValues(new Uint8Array(SECRET_BYTES));
+    return await ctx.runMutation(internal.webhooks.insertWebhook, {
+      ...args,
+      userId,
+      url: args.url.trim(),
+      secret: SECRET_PREFIX + toHex(bytes.buffer),
+    });
+  },
+});
+
+export const insertWebhook = internalMutation({
+  args: {
+    userId: v.id("users"),
+    teamId: v.optional(v.id("teams")),
+    url: v.string(),
+    events: v.array(webhookEventValidator),
+    secret: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!(await canManage(ctx, args.userId, args))) {
+      throw new Error("Only a team's owner and coaches can add its webhooks");
+    }
+    assertValidWebhook(args.url, args.events);
+    const existing = args.teamId ? await getTeamWebhooks(ctx, args.teamId) : await getPersonalWebhooks(ctx, args.userId);
+    if (existing.length >= MAX_WEBHOOKS) {
+      throw new Error(`At most ${MAX_WEBHOOKS} webhooks are allowed`);
+    }
+    return await ctx.db.insert("webhooks", { ...args, events: [...new Set(args.events)], active: true });
+  },
+});
+
+export const updateWebhook = mutation({
+  args: {
+    webhookId: v.id("webhooks"),
+    url: v.string(),
+    events: v.array(webhookEventValidator),
+    active: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to edit webhooks");
+    }
+    const webhook = await getManagedWebhook(ctx, userId, args.webhookId);
+    const url = args.url.trim();
+    assertValidWebhook(url, args.events);
+    await ctx.db.patch(webhook._id, { url, events: [...new Set(args.events)], active: args.active });
+  },
+});
+
+export const deleteWebhook = mutation({
+  args: { webhookId: v.id("webhooks") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to delete webhooks");
+    }
+    const webhook = await getManagedWebhook(ctx, userId, args.webhookId);
+    await deleteDeliveries(ctx, webhook._id);
+    await ctx.db.delete(webhook._id);
+  },
+});
+
+// Sends a `test` event, active or not, to check the receiving end
+export const sendTestEvent = mutation({
+  args: { webhookId: v.id("webhooks") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Must be logged in to test webhooks");
+    }
+    const webhook = await getManagedWebhook(ctx, userId, args.webhookId);
+    await enqueueDelivery(ctx, webhook, "test", { message: "Test event", webhookId: webhook._id });
+  },
+});
+
+// The most recent deliveries to a webhook, newest first
+export const listDeliveries = query({
+  args: { webhookId: v.id("webhooks") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const webhook = await ctx.db.get(args.webhookId);
+    if (!webhook || !(await canManage(ctx, userId, webhook))) {
+      return [];
+    }
+
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_webhook", (q) => q.eq("webhookId", webhook._id))
+      .order("desc")
+      .take(LOGGED_DELIVERIES);
+    return deliveries.map((delivery) => ({
+      id: delivery._id,
+      event: delivery.event,
+      createdAt: delivery._creationTime,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus ?? null,
+      error: delivery.error ?? null,
+      nextAttemptAt: delivery.nextAttemptAt ?? null,
+    }));
+  },
+});
+
+// What to send for a delivery, or null once its webhook is gone
+export const getDeliveryRequest = internalQuery({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    const webhook = delivery ? await ctx.db.get(delivery.webhookId) : null;
+    if (!delivery || !webhook || delivery.status !== "pending") {
+      return null;
+    }
+    return {
+      url: webhook.url,
+      secret: webhook.secret,
+      event: delivery.event,
+      body: JSON.stringify({
+        id: delivery._id,
+        event: delivery.event,
+        createdAt: delivery._creationTime,
+        data: JSON.parse(delivery.data) as unknown,
+      }),
+    };
+  },
+});
+
+export const deliver = internalAction({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  handler: async (ctx, args) => {
+    const request = await ctx.runQuery(internal.webhooks.getDeliveryRequest, args);
+    if (!request) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Event": request.event,
+          "X-Webhook-Delivery": args.deliveryId,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": `sha256=${await sign(request.secret, timestamp, request.body)}`,
+        },
+        body: request.body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Responded with HTTP ${response.status}`;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Request failed";
+    }
+    await ctx.runMutation(internal.webhooks.recordAttempt, {
+      deliveryId: args.deliveryId,
+      responseStatus,
+      error: error?.slice(0, MAX_ERROR_LENGTH),
+    });
+  },
+});
+
+// Settles a delivery after an attempt, or schedules the next one
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    responseStatus: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status !== "pending") {
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const outcome = { attempts, responseStatus: args.responseStatus, error: args.error };
+    const delay = retryDelay(attempts);
+    if (args.error === undefined) {
+      await ctx.db.patch(delivery._id, { ...outcome, status: "succeeded", nextAttemptAt: undefined });
+    } else if (delay === null) {
+      await ctx.db.patch(delivery._id, { ...outcome, status: "failed", nextAttemptAt: undefined });
+    } else {
+      const nextAttemptAt = Date.now() + delay;
+      await ctx.db.patch(delivery._id, { ...outcome, nextAttemptAt });
+      await ctx.scheduler.runAt(nextAttemptAt, internal.webhooks.deliver, { deliveryId: delivery._id });
+    }
+  },
+});
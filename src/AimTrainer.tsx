@@ -1,104 +1,200 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useMutation, useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
+import type { Id } from '../convex/_generated/dataModel';
 import { toast } from 'sonner';
-
-interface Target {
-  id: number;
-  x: number;
-  y: number;
-  size: number;
-  createdAt: number;
-  velocityX?: number;
-  velocityY?: number;
-  shrinking?: boolean;
-}
-
-interface HitEffect {
-  id: number;
-  x: number;
-  y: number;
-  createdAt: number;
-  type: 'center' | 'ring' | 'edge';
-  score: number;
-}
-
-interface MissEffect {
-  id: number;
-  x: number;
-  y: number;
-  createdAt: number;
-  distance: number;
-  direction: string;
-}
-
-interface GameSettings {
-  targetSize: number;
-  targetSpeed: number;
-  gameTime: number;
-  soundEnabled: boolean;
-  soundVolume: number;
-}
-
-interface GameStats {
-  score: number;
-  targetsHit: number;
-  targetsMissed: number;
-  reactionTimes: number[];
-  startTime: number;
-  centerHits: number;
-  ringHits: number;
-  edgeHits: number;
-  totalShots: number;
-  overshoots: number;
-  undershoots: number;
-  averageMissDistance: number;
+import Leaderboard from './Leaderboard';
+import ProgressHistory from './ProgressHistory';
+import SkillRating from './SkillRating';
+import SensitivitySettings from './SensitivitySettings';
+import CrosshairSettings from './CrosshairSettings';
+import ThemeSettings from './ThemeSettings';
+import LatencyTest from './LatencyTest';
+import SettingsPresets, { type TrainingSettings } from './SettingsPresets';
+import CustomScenarios from './CustomScenarios';
+import ReplayViewer from './ReplayViewer';
+import DataTransfer from './DataTransfer';
+import ApiTokens from './ApiTokens';
+import Webhooks from './Webhooks';
+import DifficultyCurve from './DifficultyCurve';
+import DuelLobby from './DuelLobby';
+import DuelRoom from './DuelRoom';
+import TrainingPlans from './TrainingPlans';
+import Teams from './Teams';
+import { drawBackground, drawCrosshair, drawGame, drawWall, getScreenProjection } from './drawGame';
+import { systemClock } from './engine/clock';
+import { MAX_SUCCESS_RATE, MIN_SUCCESS_RATE } from './engine/difficulty';
+import { createEmptyStats, createGameState, endRound, getTimeLeft, step, summarizeStats } from './engine/engine';
+import { toLocalDay, type TrainingPlan } from './engine/plans';
+import { createSeed } from './engine/random';
+import { MAX_SHOWN_DELAY_MS } from './engine/rules';
+import { createFrameTimer, recordInputDelay, summarizeFrameTiming, type FrameTiming } from './engine/timing';
+import { BUILT_IN_SCENARIOS, getBuiltInScenario, isTrackingScenario } from './engine/scenarios';
+import { DEFAULT_SENSITIVITY_PROFILE, getDegreesPerCount, type SensitivityProfile } from './engine/sensitivity';
+import { DEFAULT_CROSSHAIR, type Crosshair } from './engine/crosshair';
+import { getScenarioTheme, resolveTheme } from './engine/theme';
+import { CURSOR_SAMPLE_MS, TICK_MS, createSessionLog, recordEvents, recordInputs, type SessionLog } from './engine/sessionLog';
+import type { Cursor, EngineSettings, GameEvent, GameInput, GameState, HitZone, Scenario } from './engine/types';
+import {
+  DEFAULT_FOV,
+  anglesToWallPoint,
+  rotateCamera,
+  type Camera,
+} from './engine/view';
+
+// How often live duel scores are sent to the opponent
+const DUEL_PROGRESS_MS = 500;
+// How often React re-renders the HUD while a round runs. The canvas is drawn
+// from the game loop every frame, without React.
+const HUD_UPDATE_MS = 100;
+// Longest stretch of time one frame simulates. Bigger gaps, like a hidden tab
+// where no frames run, pause the round instead of being caught up at once.
+const MAX_FRAME_MS = 250;
+
+// When an input happened, for the ones that carry an exact time
+const inputTime = (input: GameInput) => (input.type === 'shot' || input.type === 'shown' ? input.at : undefined);
+
+// Events the loop only handles after simulating past them still go into the
+// next tick, at its start
+const clampInputTime = (input: GameInput, tickTime: number): GameInput =>
+  (input.type === 'shot' || input.type === 'shown') && input.at !== undefined && input.at < tickTime
+    ? { ...input, at: tickTime }
+    : input;
+
+interface GameSettings extends TrainingSettings {
+  sensitivity: SensitivityProfile;
+  crosshair: Crosshair;
 }
 
-interface ShotAnalysis {
-  distance: number;
-  direction: 'overshoot' | 'undershoot' | 'hit';
-  angle: number;
+// A training plan being played, block by block
+interface PlanRun {
+  plan: TrainingPlan;
+  // The block being played, or the next one while resting
+  blockIndex: number;
+  // When the rest before the next block ends on the trainer's clock, null otherwise
+  restUntil: number | null;
+  results: { score: number; passed: boolean }[];
 }
 
-type HitZone = 'center' | 'ring' | 'edge';
+const toTrainingSettings = (settings: GameSettings): TrainingSettings => ({
+  targetSize: settings.targetSize,
+  targetSpeed: settings.targetSpeed,
+  gameTime: settings.gameTime,
+  holdToTrack: settings.holdToTrack,
+  firstPerson: settings.firstPerson,
+  fov: settings.fov,
+  soundEnabled: settings.soundEnabled,
+  soundVolume: settings.soundVolume,
+  adaptive: settings.adaptive,
+  successRate: settings.successRate,
+});
 
 const AimTrainer: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const [gameMode, setGameMode] = useState<'classic' | 'speed' | 'precision'>('classic');
+  const clockRef = useRef(systemClock);
+  // The round lives here and is stepped by the game loop; `game` below is a
+  // copy for the HUD, refreshed every HUD_UPDATE_MS
+  const gameRef = useRef<GameState | null>(null);
+  // Where simulated time 0 lies on the clock, moved along when the round
+  // pauses, so event timestamps can be turned into simulated times
+  const simOriginRef = useRef(0);
+  // Highest target id already reported as shown; ids only grow
+  const shownUpToRef = useRef(-1);
+  const frameTimerRef = useRef(createFrameTimer());
+  const pendingInputsRef = useRef<GameInput[]>([]);
+  const sessionLogRef = useRef<SessionLog | null>(null);
+  const cursorRef = useRef<Cursor | null>(null);
+  const lastCursorInputRef = useRef<{ time: number; cursor: Cursor } | null>(null);
+  const cameraRef = useRef<Camera>({ yaw: 0, pitch: 0 });
+  // Id of the selected scenario, built-in or custom
+  const [gameMode, setGameMode] = useState('classic');
   const [isPlaying, setIsPlaying] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [targets, setTargets] = useState<Target[]>([]);
-  const [hitEffects, setHitEffects] = useState<HitEffect[]>([]);
-  const [missEffects, setMissEffects] = useState<MissEffect[]>([]);
-  const [lastShotAnalysis, setLastShotAnalysis] = useState<ShotAnalysis | null>(null);
-  const [gameStats, setGameStats] = useState<GameStats>({
-    score: 0,
-    targetsHit: 0,
-    targetsMissed: 0,
-    reactionTimes: [],
-    startTime: 0,
-    centerHits: 0,
-    ringHits: 0,
-    edgeHits: 0,
-    totalShots: 0,
-    overshoots: 0,
-    undershoots: 0,
-    averageMissDistance: 0,
-  });
-  const [timeLeft, setTimeLeft] = useState(30);
+  const [isPointerLocked, setIsPointerLocked] = useState(false);
+  const [game, setGame] = useState<GameState | null>(null);
+  const [frameTiming, setFrameTiming] = useState<FrameTiming | null>(null);
+  const [replayId, setReplayId] = useState<Id<'sessionReplays'> | null>(null);
+  const [planRun, setPlanRun] = useState<PlanRun | null>(null);
+  // endGame reads the plan through a ref, since it runs from the game loop
+  const planRunRef = useRef<PlanRun | null>(null);
+  const [restLeft, setRestLeft] = useState(0);
+  const [duelRoomId, setDuelRoomId] = useState<Id<'duelRooms'> | null>(null);
+  const duelRoomIdRef = useRef<Id<'duelRooms'> | null>(null);
   const [settings, setSettings] = useState<GameSettings>({
     targetSize: 50,
     targetSpeed: 2000,
     gameTime: 30,
+    holdToTrack: false,
+    firstPerson: false,
+    fov: DEFAULT_FOV,
+    sensitivity: DEFAULT_SENSITIVITY_PROFILE,
+    crosshair: DEFAULT_CROSSHAIR,
     soundEnabled: true,
     soundVolume: 0.7,
+    adaptive: false,
+    successRate: 0.75,
   });
 
   const saveSession = useMutation(api.aimTraining.saveSession);
+  const recordBlockResult = useMutation(api.trainingPlans.recordBlockResult);
+  const submitDuelResult = useMutation(api.duels.submitResult);
+  const leaveDuel = useMutation(api.duels.leaveRoom);
+  const reportDuelProgress = useMutation(api.duels.reportProgress);
   const userStats = useQuery(api.aimTraining.getUserStats);
+  const customScenarios = useQuery(api.scenarios.listMyScenarios);
+  const scenario = getBuiltInScenario(gameMode)
+    ?? customScenarios?.find(custom => custom.id === gameMode)
+    ?? BUILT_IN_SCENARIOS[0];
+  // Scenarios with a fixed duration override the Game Time setting
+  const gameTime = scenario.duration ?? settings.gameTime;
+  const bucketStats = useQuery(api.userStats.getMyBucketStats, {
+    gameMode,
+    settings: { targetSize: settings.targetSize, targetSpeed: settings.targetSpeed, gameTime },
+  });
+  const savedSettings = useQuery(api.userSettings.getMySettings);
+  const savedSensitivity = useQuery(api.sensitivityProfiles.getMyProfile);
+  const savedCrosshair = useQuery(api.crosshairs.getMyCrosshair);
+  const themes = useQuery(api.themes.getMyThemes);
+  const saveUserSettings = useMutation(api.userSettings.saveMySettings);
+  // JSON of the settings last read from or written to the account, once loaded
+  const storedSettingsRef = useRef<string | null>(null);
+
+  // Start from the account's settings once they arrive; later edits win
+  useEffect(() => {
+    if (
+      storedSettingsRef.current !== null ||
+      savedSettings === undefined ||
+      savedSensitivity === undefined ||
+      savedCrosshair === undefined
+    ) return;
+    setSettings(prev => {
+      const next = {
+        ...prev,
+        ...savedSettings,
+        sensitivity: savedSensitivity ?? prev.sensitivity,
+        crosshair: savedCrosshair ?? prev.crosshair,
+      };
+      storedSettingsRef.current = JSON.stringify(toTrainingSettings(next));
+      return next;
+    });
+  }, [savedSettings, savedSensitivity, savedCrosshair]);
+
+  // Write changes back shortly after the user stops adjusting
+  useEffect(() => {
+    const training = toTrainingSettings(settings);
+    const json = JSON.stringify(training);
+    if (storedSettingsRef.current === null || storedSettingsRef.current === json) return;
+
+    const timeout = setTimeout(() => {
+      storedSettingsRef.current = json;
+      saveUserSettings({ settings: training }).catch((error) => {
+        console.error('Failed to save settings:', error);
+      });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [settings, saveUserSettings]);
 
   // Initialize audio context
   const initAudioContext = useCallback(() => {
@@ -113,7 +209,7 @@ const AimTrainer: React.FC = () => {
 
     const audioContext = audioContextRef.current;
     
-    if (hitZone === 'center') {
+    if (hitZone === 'center' || hitZone === 'head') {
       // Super satisfying center hit sound with multiple layers
       const createCenterHitSound = () => {
         // Main tone
@@ -295,250 +391,279 @@ const AimTrainer: React.FC = () => {
     return { width: canvas.width, height: canvas.height };
   }, []);
 
-  const updateCanvasSize = useCallback(() => {
-    const canvas = canvasRef.current;
-    const container = containerRef.current;
-    if (!canvas || !container) return;
+  const updatePlanRun = useCallback((run: PlanRun | null) => {
+    planRunRef.current = run;
+    setPlanRun(run);
+  }, []);
 
-    if (isFullscreen) {
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
-    } else {
-      canvas.width = 800;
-      canvas.height = 600;
+  // Records a finished block against the plan and moves on to the rest before
+  // the next one, or to the summary after the last
+  const completePlanBlock = useCallback(async (run: PlanRun, sessionId: Id<'aimSessions'>, score: number) => {
+    try {
+      const passed = await recordBlockResult({
+        planId: run.plan.id,
+        blockIndex: run.blockIndex,
+        sessionId,
+        day: toLocalDay(Date.now()),
+      });
+      const isLast = run.blockIndex === run.plan.blocks.length - 1;
+      updatePlanRun({
+        ...run,
+        blockIndex: isLast ? run.blockIndex : run.blockIndex + 1,
+        restUntil: isLast ? null : clockRef.current.now() + run.plan.restSeconds * 1000,
+        results: [...run.results, { score, passed }],
+      });
+    } catch (error) {
+      console.error('Failed to record plan progress:', error);
+      toast.error('Failed to record plan progress');
+      updatePlanRun(null);
     }
-  }, [isFullscreen]);
+  }, [recordBlockResult, updatePlanRun]);
 
-  const getHitZone = (distance: number, targetSize: number): HitZone => {
-    const radius = targetSize / 2;
-    if (distance <= radius * 0.25) return 'center';
-    if (distance <= radius * 0.6) return 'ring';
-    return 'edge';
-  };
+  const updateDuelRoom = useCallback((roomId: Id<'duelRooms'> | null) => {
+    duelRoomIdRef.current = roomId;
+    setDuelRoomId(roomId);
+  }, []);
 
-  const getScoreMultiplier = (hitZone: HitZone): number => {
-    switch (hitZone) {
-      case 'center': return 2.0;
-      case 'ring': return 1.5;
-      case 'edge': return 1.0;
+  // Enters a saved round as the duel result, or forfeits the duel without one
+  const finishDuelRound = useCallback(async (roomId: Id<'duelRooms'>, sessionId: Id<'aimSessions'> | null) => {
+    try {
+      if (sessionId) {
+        await submitDuelResult({ roomId, sessionId });
+      } else {
+        await leaveDuel({ roomId });
+      }
+    } catch (error) {
+      console.error('Failed to submit duel result:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit duel result');
     }
-  };
+  }, [submitDuelResult, leaveDuel]);
 
-  const analyzeShot = (clickX: number, clickY: number, targets: Target[]): ShotAnalysis => {
-    if (targets.length === 0) {
-      return { distance: 0, direction: 'hit', angle: 0 };
+  const endGame = useCallback(async (finalState: GameState) => {
+    setIsPlaying(false);
+    if (document.pointerLockElement) {
+      document.exitPointerLock();
+    }
+    const ended = finalState.isOver ? finalState : endRound(finalState);
+    gameRef.current = ended;
+    setGame(ended);
+    const roundTiming = summarizeFrameTiming(frameTimerRef.current);
+    setFrameTiming(roundTiming);
+
+    // A block only counts when played to the end; stopping early leaves the plan
+    const run = finalState.isOver ? planRunRef.current : null;
+    if (!run && planRunRef.current) {
+      updatePlanRun(null);
+      toast('Training plan stopped');
+    }
+    // The same goes for duels, where stopping early forfeits
+    const duelRoomId = finalState.isOver ? duelRoomIdRef.current : null;
+    if (!duelRoomId && duelRoomIdRef.current) {
+      void finishDuelRound(duelRoomIdRef.current, null);
     }
 
-    // Find closest target
-    let closestTarget = targets[0];
-    let minDistance = Math.sqrt(Math.pow(clickX - targets[0].x, 2) + Math.pow(clickY - targets[0].y, 2));
+    const log = sessionLogRef.current;
+    if (!log) return;
 
-    for (const target of targets) {
-      const distance = Math.sqrt(Math.pow(clickX - target.x, 2) + Math.pow(clickY - target.y, 2));
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestTarget = target;
+    const { stats } = ended;
+    const { accuracy, averageReactionTime, timeOnTargetPercent, averageTrackingDistance, headshotPercent } =
+      summarizeStats(ended.scenario, stats);
+    const isTracking = isTrackingScenario(ended.scenario);
+
+    try {
+      const sessionId = await saveSession({
+        gameMode: ended.scenario.id,
+        score: stats.score,
+        accuracy,
+        averageReactionTime,
+        targetsHit: stats.targetsHit,
+        targetsMissed: stats.targetsMissed,
+        duration: ended.settings.gameTime,
+        centerHits: stats.centerHits,
+        ringHits: stats.ringHits,
+        edgeHits: stats.edgeHits,
+        headHits: stats.headHits,
+        bodyHits: stats.bodyHits,
+        legHits: stats.legHits,
+        timeOnTargetPercent: isTracking ? timeOnTargetPercent : undefined,
+        averageTrackingDistance: isTracking ? averageTrackingDistance : undefined,
+        settings: {
+          targetSize: ended.settings.targetSize,
+          targetSpeed: ended.settings.targetSpeed,
+          gameTime: ended.settings.gameTime,
+          holdToTrack: ended.settings.holdToTrack,
+          fov: ended.settings.fov,
+          adaptive: ended.settings.adaptive,
+        },
+        log,
+        frameTiming: roundTiming,
+      });
+      
+      if (isTracking) {
+        toast.success(`Game saved! Score: ${stats.score}, On target: ${timeOnTargetPercent.toFixed(1)}%, Avg distance: ${averageTrackingDistance.toFixed(0)}px`);
+      } else if (ended.scenario.humanoid) {
+        toast.success(`Game saved! Score: ${stats.score}, Accuracy: ${accuracy.toFixed(1)}%, Headshots: ${headshotPercent.toFixed(1)}%`);
+      } else {
+        const centerPercent = stats.targetsHit > 0 ? (stats.centerHits / stats.targetsHit * 100).toFixed(1) : '0';
+        toast.success(`Game saved! Score: ${stats.score}, Accuracy: ${accuracy.toFixed(1)}%, Center hits: ${centerPercent}%`);
+      }
+      if (run) {
+        await completePlanBlock(run, sessionId, stats.score);
+      }
+      if (duelRoomId) {
+        await finishDuelRound(duelRoomId, sessionId);
+      }
+    } catch (error) {
+      toast.error('Failed to save game session');
+      if (run) {
+        updatePlanRun(null);
       }
+      if (duelRoomId) {
+        void finishDuelRound(duelRoomId, null);
+      }
+    }
+  }, [saveSession, completePlanBlock, updatePlanRun, finishDuelRound]);
+
+  // Run one fixed simulation tick with the input that arrived since the last one,
+  // then react to what happened
+  const tick = useCallback(() => {
+    const current = gameRef.current;
+    const log = sessionLogRef.current;
+    if (!current || current.isOver || !log) return;
+
+    // Inputs with an exact time wait for the tick they happened in
+    const due = (input: GameInput) => (inputTime(input) ?? current.time) < current.time + TICK_MS;
+    const inputs = pendingInputsRef.current.filter(due).map(input => clampInputTime(input, current.time));
+    pendingInputsRef.current = pendingInputsRef.current.filter(input => !due(input));
+
+    // Tracking scores the cursor and replays draw its path, so it is sampled in
+    // every mode, no faster than CURSOR_SAMPLE_MS
+    const cursor = cursorRef.current;
+    const lastCursor = lastCursorInputRef.current;
+    if (
+      cursor &&
+      (!lastCursor || current.time - lastCursor.time >= CURSOR_SAMPLE_MS) &&
+      (lastCursor?.cursor.x !== cursor.x || lastCursor.cursor.y !== cursor.y || lastCursor.cursor.firing !== cursor.firing)
+    ) {
+      inputs.push({ type: 'cursor', ...cursor });
+      lastCursorInputRef.current = { time: current.time, cursor };
     }
+    recordInputs(log, current.time, inputs);
 
-    const angle = Math.atan2(clickY - closestTarget.y, clickX - closestTarget.x) * 180 / Math.PI;
-    const targetRadius = closestTarget.size / 2;
+    const { state, events } = step(current, TICK_MS, inputs);
+    recordEvents(log, state, events);
+    gameRef.current = state;
 
-    if (minDistance <= targetRadius) {
-      return { distance: minDistance, direction: 'hit', angle };
+    events.forEach((event: GameEvent) => {
+      switch (event.type) {
+        case 'hit':
+          playHitSound(event.zone, event.distance, event.targetSize);
+          break;
+        case 'miss':
+          playMissSound();
+          break;
+        case 'end':
+          void endGame(state);
+          break;
+      }
+    });
+  }, [playHitSound, playMissSound, endGame]);
+
+  const queueInput = useCallback((input: GameInput) => {
+    if (gameRef.current && !gameRef.current.isOver) {
+      pendingInputsRef.current.push(input);
     }
+  }, []);
 
-    // Determine if overshoot or undershoot based on distance from center
-    const direction = minDistance > targetRadius * 1.5 ? 'overshoot' : 'undershoot';
-    
-    return { distance: minDistance, direction, angle };
-  };
+  const updateCanvasSize = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
 
-  const getDirectionText = (angle: number): string => {
-    const normalizedAngle = ((angle % 360) + 360) % 360;
-    
-    if (normalizedAngle >= 337.5 || normalizedAngle < 22.5) return 'right';
-    if (normalizedAngle >= 22.5 && normalizedAngle < 67.5) return 'bottom-right';
-    if (normalizedAngle >= 67.5 && normalizedAngle < 112.5) return 'bottom';
-    if (normalizedAngle >= 112.5 && normalizedAngle < 157.5) return 'bottom-left';
-    if (normalizedAngle >= 157.5 && normalizedAngle < 202.5) return 'left';
-    if (normalizedAngle >= 202.5 && normalizedAngle < 247.5) return 'top-left';
-    if (normalizedAngle >= 247.5 && normalizedAngle < 292.5) return 'top';
-    return 'top-right';
-  };
+    if (isFullscreen) {
+      canvas.width = window.innerWidth;
+      canvas.height = window.innerHeight;
+    } else {
+      canvas.width = 800;
+      canvas.height = 600;
+    }
 
-  const spawnTarget = useCallback(() => {
-    const bounds = getCanvasBounds();
-    const margin = settings.targetSize;
-    
-    let newTarget: Target = {
-      id: Date.now() + Math.random(),
-      x: margin + Math.random() * (bounds.width - 2 * margin),
-      y: margin + Math.random() * (bounds.height - 2 * margin),
-      size: settings.targetSize,
-      createdAt: Date.now(),
-    };
+    queueInput({ type: 'resize', width: canvas.width, height: canvas.height });
+  }, [isFullscreen, queueInput]);
 
-    switch (gameMode) {
-      case 'speed':
-        const speed = 50 + Math.random() * 100;
-        const angle = Math.random() * 2 * Math.PI;
-        newTarget.velocityX = Math.cos(angle) * speed;
-        newTarget.velocityY = Math.sin(angle) * speed;
-        newTarget.size = Math.max(20, settings.targetSize - 15);
-        break;
-      
-      case 'precision':
-        newTarget.shrinking = true;
-        newTarget.size = settings.targetSize + 20;
-        break;
-      
-      default:
-        newTarget.size = settings.targetSize + (Math.random() - 0.5) * 10;
-        break;
-    }
+  // Remember where the cursor is and whether the button is held; the game loop picks it up
+  const handleCanvasPointer = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-    setTargets(prev => [...prev, newTarget]);
+    if (gameRef.current && !gameRef.current.isOver) {
+      recordInputDelay(frameTimerRef.current, clockRef.current.now() - event.timeStamp);
+    }
 
-    setTimeout(() => {
-      setTargets(prev => {
-        const filtered = prev.filter(t => t.id !== newTarget.id);
-        if (prev.length > filtered.length) {
-          setGameStats(stats => ({
-            ...stats,
-            targetsMissed: stats.targetsMissed + 1,
-          }));
-        }
-        return filtered;
-      });
-    }, getTargetLifetime());
-  }, [settings, getCanvasBounds, gameMode]);
-
-  const getTargetLifetime = () => {
-    switch (gameMode) {
-      case 'speed': return Math.max(800, settings.targetSpeed - 500);
-      case 'precision': return settings.targetSpeed + 1000;
-      default: return settings.targetSpeed;
+    const firing = (event.buttons & 1) === 1;
+    const current = gameRef.current;
+    if (current?.settings.fov !== undefined) {
+      // Pointer lock hides the cursor and reports raw movement, which turns the camera
+      if (document.pointerLockElement !== canvas) return;
+      cameraRef.current = rotateCamera(
+        cameraRef.current,
+        event.movementX,
+        event.movementY,
+        getDegreesPerCount(settings.sensitivity),
+      );
+      const aim = anglesToWallPoint(cameraRef.current.yaw, cameraRef.current.pitch, current.bounds, current.settings.fov);
+      cursorRef.current = { x: aim.x, y: aim.y, firing };
+      return;
     }
-  };
 
-  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isPlaying) return;
+    const rect = canvas.getBoundingClientRect();
+    cursorRef.current = {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+      firing,
+    };
+  }, [settings.sensitivity]);
+
+  // Shots fire on pointerdown, timed by the event itself rather than by when
+  // the handler or the next tick happens to run
+  const handleCanvasPointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    handleCanvasPointer(event);
+    if (!isPlaying || event.button !== 0) return;
+    const at = event.timeStamp - simOriginRef.current;
 
     initAudioContext();
 
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    if (gameRef.current && isTrackingScenario(gameRef.current.scenario)) return;
+
+    // In first-person mode the shot goes wherever the crosshair points
+    const current = gameRef.current;
+    if (current?.settings.fov !== undefined) {
+      if (document.pointerLockElement !== canvas) {
+        void canvas.requestPointerLock();
+        return;
+      }
+      const aim = anglesToWallPoint(cameraRef.current.yaw, cameraRef.current.pitch, current.bounds, current.settings.fov);
+      queueInput({ type: 'shot', x: aim.x, y: aim.y, at });
+      return;
+    }
+
     const rect = canvas.getBoundingClientRect();
     const clickX = event.clientX - rect.left;
     const clickY = event.clientY - rect.top;
 
-    // Analyze the shot
-    const shotAnalysis = analyzeShot(clickX, clickY, targets);
-    setLastShotAnalysis(shotAnalysis);
-
-    let hitTarget = false;
+    queueInput({ type: 'shot', x: clickX, y: clickY, at });
+  }, [isPlaying, initAudioContext, queueInput, handleCanvasPointer]);
 
-    setTargets(prev => {
-      const newTargets = prev.filter(target => {
-        const distance = Math.sqrt(
-          Math.pow(clickX - target.x, 2) + Math.pow(clickY - target.y, 2)
-        );
-
-        if (distance <= target.size / 2) {
-          const reactionTime = Date.now() - target.createdAt;
-          const hitZone = getHitZone(distance, target.size);
-          const scoreMultiplier = getScoreMultiplier(hitZone);
-          const score = Math.floor(getScoreForMode(gameMode, reactionTime, target) * scoreMultiplier);
-          
-          hitTarget = true;
-          
-          // Create hit effect
-          setHitEffects(prev => [...prev, {
-            id: Date.now() + Math.random(),
-            x: clickX,
-            y: clickY,
-            createdAt: Date.now(),
-            type: hitZone,
-            score: score,
-          }]);
-          
-          playHitSound(hitZone, distance, target.size);
-          
-          setGameStats(stats => {
-            const newStats = {
-              ...stats,
-              score: stats.score + score,
-              targetsHit: stats.targetsHit + 1,
-              reactionTimes: [...stats.reactionTimes, reactionTime],
-              totalShots: stats.totalShots + 1,
-            };
-
-            switch (hitZone) {
-              case 'center':
-                newStats.centerHits = stats.centerHits + 1;
-                break;
-              case 'ring':
-                newStats.ringHits = stats.ringHits + 1;
-                break;
-              case 'edge':
-                newStats.edgeHits = stats.edgeHits + 1;
-                break;
-            }
-
-            return newStats;
-          });
-
-          return false;
-        }
-        return true;
-      });
-
-      return newTargets;
-    });
+  const handleSensitivityChange = useCallback((sensitivity: SensitivityProfile) => {
+    setSettings(prev => ({ ...prev, sensitivity }));
+  }, []);
 
-    if (!hitTarget) {
-      playMissSound();
-      
-      // Create miss effect
-      setMissEffects(prev => [...prev, {
-        id: Date.now() + Math.random(),
-        x: clickX,
-        y: clickY,
-        createdAt: Date.now(),
-        distance: shotAnalysis.distance,
-        direction: getDirectionText(shotAnalysis.angle),
-      }]);
-      
-      const penalty = gameMode === 'precision' ? 2 : 1;
-      setGameStats(stats => {
-        const newMissDistance = (stats.averageMissDistance * stats.targetsMissed + shotAnalysis.distance) / (stats.targetsMissed + 1);
-        return {
-          ...stats,
-          targetsMissed: stats.targetsMissed + penalty,
-          totalShots: stats.totalShots + 1,
-          overshoots: shotAnalysis.direction === 'overshoot' ? stats.overshoots + 1 : stats.overshoots,
-          undershoots: shotAnalysis.direction === 'undershoot' ? stats.undershoots + 1 : stats.undershoots,
-          averageMissDistance: newMissDistance,
-        };
-      });
-    }
-  }, [isPlaying, gameMode, initAudioContext, playHitSound, playMissSound, targets]);
-
-  const getScoreForMode = (mode: string, reactionTime: number, target: Target): number => {
-    switch (mode) {
-      case 'speed':
-        const speedBonus = target.velocityX || target.velocityY ? 50 : 0;
-        return Math.max(150 - Math.floor(reactionTime / 8), 20) + speedBonus;
-      case 'precision':
-        const sizeBonus = Math.max(0, (settings.targetSize - target.size) * 5);
-        const precisionBonus = reactionTime < 300 ? 300 : reactionTime < 600 ? 200 : 100;
-        return precisionBonus + sizeBonus;
-      default:
-        return Math.max(150 - Math.floor(reactionTime / 20), 25);
-    }
-  };
+  const handleCrosshairChange = useCallback((crosshair: Crosshair) => {
+    setSettings(prev => ({ ...prev, crosshair }));
+  }, []);
 
   const toggleFullscreen = async () => {
     const container = containerRef.current;
@@ -560,81 +685,127 @@ const AimTrainer: React.FC = () => {
     }
   };
 
-  const startGame = () => {
+  const startRound = useCallback((roundScenario: Scenario, roundSettings: EngineSettings, seed = createSeed()) => {
     initAudioContext();
+    const config = {
+      scenario: roundScenario,
+      settings: roundSettings,
+      bounds: getCanvasBounds(),
+      seed,
+    };
+    const initialState = createGameState(config);
+    sessionLogRef.current = createSessionLog(config);
+    pendingInputsRef.current = [];
+    shownUpToRef.current = -1;
+    frameTimerRef.current = createFrameTimer();
+    lastCursorInputRef.current = null;
+    cursorRef.current = null;
+    cameraRef.current = { yaw: 0, pitch: 0 };
+    gameRef.current = initialState;
+    setGame(initialState);
     setIsPlaying(true);
-    setTimeLeft(settings.gameTime);
-    setGameStats({
-      score: 0,
-      targetsHit: 0,
-      targetsMissed: 0,
-      reactionTimes: [],
-      startTime: Date.now(),
-      centerHits: 0,
-      ringHits: 0,
-      edgeHits: 0,
-      totalShots: 0,
-      overshoots: 0,
-      undershoots: 0,
-      averageMissDistance: 0,
-    });
-    setTargets([]);
-    setHitEffects([]);
-    setMissEffects([]);
-    setLastShotAnalysis(null);
-    spawnTarget();
-  };
 
-  const stopGame = async () => {
-    await endGame();
+    // Locking has to happen inside the click that starts the round. Blocks
+    // started when a rest runs out fall back to the click-to-lock hint.
+    if (roundSettings.fov !== undefined) {
+      void canvasRef.current?.requestPointerLock();
+    }
+  }, [initAudioContext, getCanvasBounds]);
+
+  const startGame = () => {
+    startRound(scenario, {
+      targetSize: settings.targetSize,
+      targetSpeed: settings.targetSpeed,
+      gameTime,
+      holdToTrack: isTrackingScenario(scenario) ? settings.holdToTrack : undefined,
+      fov: settings.firstPerson ? settings.fov : undefined,
+      adaptive: settings.adaptive && !isTrackingScenario(scenario) ? settings.successRate : undefined,
+    });
   };
 
-  const endGame = async () => {
-    setIsPlaying(false);
-    setTargets([]);
+  const findScenario = useCallback((id: string) =>
+    getBuiltInScenario(id) ?? customScenarios?.find(custom => custom.id === id), [customScenarios]);
+
+  // Plays the run's current block at exactly the plan's settings. Only the
+  // player's own input preferences carry over, and adaptive difficulty is off.
+  const startPlanBlock = useCallback((run: PlanRun) => {
+    const block = run.plan.blocks[run.blockIndex];
+    const blockScenario = findScenario(block.scenarioId);
+    if (!blockScenario) {
+      toast.error(`Block ${run.blockIndex + 1} uses a scenario that no longer exists`);
+      updatePlanRun(null);
+      return;
+    }
+    updatePlanRun({ ...run, restUntil: null });
+    setGameMode(blockScenario.id);
+    startRound(blockScenario, {
+      targetSize: block.targetSize,
+      targetSpeed: block.targetSpeed,
+      gameTime: block.duration,
+      holdToTrack: isTrackingScenario(blockScenario) ? settings.holdToTrack : undefined,
+      fov: settings.firstPerson ? settings.fov : undefined,
+    });
+  }, [findScenario, updatePlanRun, startRound, settings.holdToTrack, settings.firstPerson, settings.fov]);
 
-    const totalTargets = gameStats.targetsHit + gameStats.targetsMissed;
-    const accuracy = totalTargets > 0 ? (gameStats.targetsHit / totalTargets) * 100 : 0;
-    const avgReactionTime = gameStats.reactionTimes.length > 0 
-      ? gameStats.reactionTimes.reduce((a, b) => a + b, 0) / gameStats.reactionTimes.length 
-      : 0;
+  const startPlan = (plan: TrainingPlan) => {
+    startPlanBlock({ plan, blockIndex: 0, restUntil: null, results: [] });
+  };
 
-    try {
-      await saveSession({
-        gameMode,
-        score: gameStats.score,
-        accuracy,
-        averageReactionTime: avgReactionTime,
-        targetsHit: gameStats.targetsHit,
-        targetsMissed: gameStats.targetsMissed,
-        duration: settings.gameTime,
-        centerHits: gameStats.centerHits,
-        ringHits: gameStats.ringHits,
-        edgeHits: gameStats.edgeHits,
-        settings: {
-          targetSize: settings.targetSize,
-          targetSpeed: settings.targetSpeed,
-          gameTime: settings.gameTime,
-        },
+  // Duel rounds and team assignments are played at settings chosen for the
+  // player; as with plans only their input preferences carry over
+  const startFixedRound = useCallback((
+    fixedScenario: Scenario,
+    fixedSettings: { targetSize: number; targetSpeed: number; gameTime: number },
+    seed?: number,
+  ) => {
+    setGameMode(fixedScenario.id);
+    startRound(fixedScenario, {
+      ...fixedSettings,
+      holdToTrack: isTrackingScenario(fixedScenario) ? settings.holdToTrack : undefined,
+      fov: settings.firstPerson ? settings.fov : undefined,
+    }, seed);
+  }, [startRound, settings.holdToTrack, settings.firstPerson, settings.fov]);
+
+  // Send the live score to the opponent while a duel round is played
+  useEffect(() => {
+    if (!isPlaying || !duelRoomId) return;
+    let reported = '';
+    const interval = setInterval(() => {
+      const stats = gameRef.current?.stats;
+      if (!stats) return;
+      const progress = { score: stats.score, targetsHit: stats.targetsHit, targetsMissed: stats.targetsMissed };
+      const json = JSON.stringify(progress);
+      if (json === reported) return;
+      reported = json;
+      reportDuelProgress({ roomId: duelRoomId, ...progress }).catch((error) => {
+        console.error('Failed to report duel progress:', error);
       });
-      
-      const centerPercent = gameStats.targetsHit > 0 ? (gameStats.centerHits / gameStats.targetsHit * 100).toFixed(1) : '0';
-      toast.success(`Game saved! Score: ${gameStats.score}, Accuracy: ${accuracy.toFixed(1)}%, Center hits: ${centerPercent}%`);
-    } catch (error) {
-      toast.error('Failed to save game session');
-    }
-  };
+    }, DUEL_PROGRESS_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, duelRoomId, reportDuelProgress]);
 
-  // Clean up effects
+  // Count down the rest between blocks, then start the next one
   useEffect(() => {
-    const cleanup = setInterval(() => {
-      const now = Date.now();
-      setHitEffects(prev => prev.filter(effect => now - effect.createdAt < 1000));
-      setMissEffects(prev => prev.filter(effect => now - effect.createdAt < 1500));
-    }, 100);
+    if (!planRun || planRun.restUntil === null) return;
+    const restUntil = planRun.restUntil;
+    const update = () => {
+      const left = restUntil - clockRef.current.now();
+      if (left <= 0) {
+        startPlanBlock(planRun);
+      } else {
+        setRestLeft(Math.ceil(left / 1000));
+      }
+    };
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [planRun, startPlanBlock]);
 
-    return () => clearInterval(cleanup);
-  }, []);
+  const stopGame = async () => {
+    if (gameRef.current) {
+      await endGame(gameRef.current);
+    }
+  };
 
   // Handle fullscreen changes
   useEffect(() => {
@@ -646,6 +817,16 @@ const AimTrainer: React.FC = () => {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
+  // Track pointer lock, which the browser can release at any time (e.g. on ESC)
+  useEffect(() => {
+    const handlePointerLockChange = () => {
+      setIsPointerLocked(document.pointerLockElement === canvasRef.current);
+    };
+
+    document.addEventListener('pointerlockchange', handlePointerLockChange);
+    return () => document.removeEventListener('pointerlockchange', handlePointerLockChange);
+  }, []);
+
   // Update canvas size when fullscreen changes
   useEffect(() => {
     updateCanvasSize();
@@ -654,92 +835,21 @@ const AimTrainer: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, [isFullscreen, updateCanvasSize]);
 
-  // Game timer
-  useEffect(() => {
-    if (!isPlaying) return;
-
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          endGame();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [isPlaying]);
-
-  // Target spawning
-  useEffect(() => {
-    if (!isPlaying) return;
-
-    const spawnInterval = setInterval(() => {
-      if (targets.length < getMaxTargets()) {
-        spawnTarget();
-      }
-    }, getSpawnRate());
-
-    return () => clearInterval(spawnInterval);
-  }, [isPlaying, targets.length, spawnTarget]);
-
-  // Target movement and shrinking animation
-  useEffect(() => {
-    if (!isPlaying) return;
-
-    const animationInterval = setInterval(() => {
-      setTargets(prev => prev.map(target => {
-        const bounds = getCanvasBounds();
-        let newTarget = { ...target };
-
-        if (target.velocityX !== undefined && target.velocityY !== undefined) {
-          newTarget.x += target.velocityX * 0.016;
-          newTarget.y += target.velocityY * 0.016;
-
-          if (newTarget.x <= target.size/2 || newTarget.x >= bounds.width - target.size/2) {
-            newTarget.velocityX = -target.velocityX;
-          }
-          if (newTarget.y <= target.size/2 || newTarget.y >= bounds.height - target.size/2) {
-            newTarget.velocityY = -target.velocityY;
-          }
-
-          newTarget.x = Math.max(target.size/2, Math.min(bounds.width - target.size/2, newTarget.x));
-          newTarget.y = Math.max(target.size/2, Math.min(bounds.height - target.size/2, newTarget.y));
-        }
-
-        if (target.shrinking) {
-          const age = Date.now() - target.createdAt;
-          const maxAge = getTargetLifetime();
-          const shrinkFactor = Math.max(0.3, 1 - (age / maxAge) * 0.7);
-          newTarget.size = (settings.targetSize + 20) * shrinkFactor;
-        }
-
-        return newTarget;
-      }));
-    }, 16);
-
-    return () => clearInterval(animationInterval);
-  }, [isPlaying, settings.targetSize, getCanvasBounds]);
-
-  const getMaxTargets = () => {
-    switch (gameMode) {
-      case 'speed': return 4;
-      case 'precision': return 1;
-      default: return 2;
-    }
-  };
-
-  const getSpawnRate = () => {
-    switch (gameMode) {
-      case 'speed': return 600;
-      case 'precision': return 3000;
-      default: return 1200;
-    }
-  };
-
-  // Canvas rendering
-  useEffect(() => {
+  const gameStats = game?.stats ?? createEmptyStats();
+  const timeLeft = game ? getTimeLeft(game) : gameTime;
+  const nextBlock = planRun?.plan.blocks[planRun.blockIndex];
+  const lastResult = planRun?.results[planRun.results.length - 1];
+  const isPlanDone = planRun !== null && planRun.results.length === planRun.plan.blocks.length;
+  const lastShotAnalysis = game?.lastShot ?? null;
+  const isTracking = isTrackingScenario(game?.scenario ?? scenario);
+  const { accuracy, averageTrackingDistance, headshotPercent, flick } = summarizeStats(game?.scenario ?? scenario, gameStats);
+  const humanoid = (game?.scenario ?? scenario).humanoid;
+  // The theme of the scenario on screen, kept stable so the game loop isn't restarted
+  const shownScenarioId = (game?.scenario ?? scenario).id;
+  const themeColors = useMemo(() => resolveTheme(getScenarioTheme(themes, shownScenarioId)), [themes, shownScenarioId]);
+
+  // Draws the current state of the round, or the idle crosshair before one
+  const drawFrame = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
@@ -747,179 +857,130 @@ const AimTrainer: React.FC = () => {
     if (!ctx) return;
 
     // Clear canvas
-    ctx.fillStyle = '#1f2937';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawBackground(ctx, themeColors, canvas.width, canvas.height);
 
-    // Draw crosshair
+    // The idle crosshair shows how the player's own one looks
     if (!isPlaying) {
-      ctx.strokeStyle = '#6b7280';
-      ctx.lineWidth = 2;
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      ctx.beginPath();
-      ctx.moveTo(centerX - 20, centerY);
-      ctx.lineTo(centerX + 20, centerY);
-      ctx.moveTo(centerX, centerY - 20);
-      ctx.lineTo(centerX, centerY + 20);
-      ctx.stroke();
+      drawCrosshair(ctx, settings.crosshair, canvas.width / 2, canvas.height / 2);
     }
 
-    // Draw targets with hit zones
-    targets.forEach(target => {
-      const age = Date.now() - target.createdAt;
-      const maxAge = getTargetLifetime();
-      let opacity = Math.max(0.3, 1 - (age / maxAge));
-
-      switch (gameMode) {
-        case 'speed':
-          const pulse = Math.sin(age * 0.01) * 0.2 + 0.8;
-          opacity *= pulse;
-          ctx.fillStyle = `rgba(239, 68, 68, ${opacity})`;
-          break;
-        case 'precision':
-          const intensity = Math.max(0.5, 2 - (target.size / (settings.targetSize + 20)));
-          ctx.fillStyle = `rgba(59, 130, 246, ${opacity * intensity})`;
-          break;
-        default:
-          ctx.fillStyle = `rgba(239, 68, 68, ${opacity})`;
-          break;
-      }
-
-      const radius = target.size / 2;
-      
-      // Outer ring (edge zone)
-      ctx.beginPath();
-      ctx.arc(target.x, target.y, radius, 0, 2 * Math.PI);
-      ctx.fill();
-
-      // Middle ring (ring zone)
-      ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.3})`;
-      ctx.beginPath();
-      ctx.arc(target.x, target.y, radius * 0.6, 0, 2 * Math.PI);
-      ctx.fill();
-
-      // Center zone
-      ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.8})`;
-      ctx.beginPath();
-      ctx.arc(target.x, target.y, radius * 0.25, 0, 2 * Math.PI);
-      ctx.fill();
-
-      // Target rings for visual clarity
-      ctx.strokeStyle = `rgba(255, 255, 255, ${opacity * 0.6})`;
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.arc(target.x, target.y, radius * 0.6, 0, 2 * Math.PI);
-      ctx.stroke();
-      
-      ctx.beginPath();
-      ctx.arc(target.x, target.y, radius * 0.25, 0, 2 * Math.PI);
-      ctx.stroke();
-
-      // Movement trail for speed mode
-      if (target.velocityX !== undefined && target.velocityY !== undefined) {
-        ctx.strokeStyle = `rgba(239, 68, 68, ${opacity * 0.3})`;
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        ctx.moveTo(target.x, target.y);
-        ctx.lineTo(target.x - target.velocityX * 0.1, target.y - target.velocityY * 0.1);
-        ctx.stroke();
-      }
-    });
-
-    // Draw hit effects
-    hitEffects.forEach(effect => {
-      const age = Date.now() - effect.createdAt;
-      const progress = age / 1000; // 1 second duration
-      const opacity = Math.max(0, 1 - progress);
-      const scale = 1 + progress * 2; // Expand over time
-
-      // Color based on hit zone
-      let color = '';
-      switch (effect.type) {
-        case 'center':
-          color = `rgba(255, 215, 0, ${opacity})`; // Gold
-          break;
-        case 'ring':
-          color = `rgba(0, 255, 0, ${opacity})`; // Green
-          break;
-        case 'edge':
-          color = `rgba(255, 165, 0, ${opacity})`; // Orange
-          break;
-      }
+    const current = gameRef.current;
+    if (!current) return;
 
-      // Draw expanding circle
-      ctx.strokeStyle = color;
-      ctx.lineWidth = 3;
-      ctx.beginPath();
-      ctx.arc(effect.x, effect.y, 20 * scale, 0, 2 * Math.PI);
-      ctx.stroke();
-
-      // Draw score text
-      if (progress < 0.5) {
-        ctx.fillStyle = color;
-        ctx.font = `${16 + scale * 4}px Arial`;
-        ctx.textAlign = 'center';
-        ctx.fillText(`+${effect.score}`, effect.x, effect.y - 30 * scale);
-      }
-    });
-
-    // Draw miss effects
-    missEffects.forEach(effect => {
-      const age = Date.now() - effect.createdAt;
-      const progress = age / 1500; // 1.5 second duration
-      const opacity = Math.max(0, 1 - progress);
-
-      // Red X for misses
-      ctx.strokeStyle = `rgba(255, 0, 0, ${opacity})`;
-      ctx.lineWidth = 3;
-      const size = 15;
-      ctx.beginPath();
-      ctx.moveTo(effect.x - size, effect.y - size);
-      ctx.lineTo(effect.x + size, effect.y + size);
-      ctx.moveTo(effect.x + size, effect.y - size);
-      ctx.lineTo(effect.x - size, effect.y + size);
-      ctx.stroke();
-
-      // Miss distance text
-      if (progress < 0.7) {
-        ctx.fillStyle = `rgba(255, 100, 100, ${opacity})`;
-        ctx.font = '12px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText(`${effect.distance.toFixed(0)}px ${effect.direction}`, effect.x, effect.y + 25);
+    const fov = current.settings.fov;
+    const toScreen = getScreenProjection(current, cameraRef.current, { width: canvas.width, height: canvas.height });
+    if (fov !== undefined) {
+      drawWall(ctx, toScreen, current.bounds, themeColors);
+    }
+    drawGame(ctx, current, toScreen, themeColors);
+
+    // The crosshair replaces the system cursor during a round. First-person
+    // aiming happens at a fixed crosshair in the middle of the screen.
+    if (isPlaying) {
+      if (fov !== undefined) {
+        drawCrosshair(ctx, settings.crosshair, canvas.width / 2, canvas.height / 2);
+      } else if (cursorRef.current) {
+        drawCrosshair(ctx, settings.crosshair, cursorRef.current.x, cursorRef.current.y);
       }
-    });
+    }
 
     // Fullscreen UI overlay
     if (isFullscreen && isPlaying) {
+      const { stats, lastShot } = current;
+      const { accuracy, averageTrackingDistance } = summarizeStats(current.scenario, stats);
       ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
       ctx.fillRect(10, 10, 350, 140);
       ctx.fillStyle = 'white';
       ctx.font = '18px Arial';
-      ctx.fillText(`Score: ${gameStats.score}`, 20, 35);
-      ctx.fillText(`Time: ${timeLeft}s`, 20, 55);
-      ctx.fillText(`Accuracy: ${((gameStats.targetsHit / Math.max(1, gameStats.targetsHit + gameStats.targetsMissed)) * 100).toFixed(1)}%`, 20, 75);
-      ctx.fillText(`Center: ${gameStats.centerHits} | Ring: ${gameStats.ringHits} | Edge: ${gameStats.edgeHits}`, 20, 95);
-      
-      if (lastShotAnalysis) {
+      ctx.fillText(`Score: ${stats.score}`, 20, 35);
+      ctx.fillText(`Time: ${getTimeLeft(current)}s`, 20, 55);
+      if (isTrackingScenario(current.scenario)) {
+        ctx.fillText(`On target: ${accuracy.toFixed(1)}%`, 20, 75);
+        ctx.fillText(`Avg distance: ${averageTrackingDistance.toFixed(0)}px`, 20, 95);
+      } else {
+        ctx.fillText(`Accuracy: ${accuracy.toFixed(1)}%`, 20, 75);
+        ctx.fillText(
+          current.scenario.humanoid
+            ? `Head: ${stats.headHits} | Body: ${stats.bodyHits} | Legs: ${stats.legHits}`
+            : `Center: ${stats.centerHits} | Ring: ${stats.ringHits} | Edge: ${stats.edgeHits}`,
+          20,
+          95,
+        );
+      }
+      if (current.settings.adaptive !== undefined) {
+        ctx.fillText(`Difficulty: ${current.difficulty.toFixed(2)}x`, 20, 135);
+      }
+
+      if (lastShot) {
         ctx.font = '14px Arial';
-        ctx.fillText(`Last shot: ${lastShotAnalysis.direction} (${lastShotAnalysis.distance.toFixed(0)}px)`, 20, 115);
+        const angular = lastShot.angularDistance !== undefined ? ` / ${lastShot.angularDistance.toFixed(2)}°` : '';
+        ctx.fillText(`Last shot: ${lastShot.direction} (${lastShot.distance.toFixed(0)}px${angular})`, 20, 115);
       }
     }
-  }, [targets, isPlaying, settings.targetSpeed, gameMode, gameStats, timeLeft, isFullscreen, hitEffects, missEffects, lastShotAnalysis]);
-
-  const totalTargets = gameStats.targetsHit + gameStats.targetsMissed;
-  const accuracy = totalTargets > 0 ? (gameStats.targetsHit / totalTargets) * 100 : 0;
-
-  const getModeDescription = (mode: string) => {
-    switch (mode) {
-      case 'speed':
-        return 'Fast-moving targets, quick reactions required';
-      case 'precision':
-        return 'Shrinking targets, accuracy over speed';
-      default:
-        return 'Balanced gameplay for general training';
+  }, [isPlaying, isFullscreen, settings.crosshair, themeColors]);
+
+  // Game loop: one animation frame callback steps the engine in fixed ticks
+  // for the time that passed, draws the frame and now and then hands the HUD
+  // a copy of the state. Movement, spawning, expiry and the round timer all
+  // live in the engine, on the trainer's clock.
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let lastFrame = clockRef.current.now();
+    let lastHudUpdate = lastFrame;
+    let accumulator = 0;
+    let isFirstFrame = true;
+    simOriginRef.current = lastFrame - (gameRef.current?.time ?? 0);
+    const loop = () => {
+      const now = clockRef.current.now();
+      // The first frame only marks where frame timing starts
+      if (!isFirstFrame) {
+        frameTimerRef.current.frameTimes.push(now - lastFrame);
+      }
+      isFirstFrame = false;
+      accumulator += Math.min(now - lastFrame, MAX_FRAME_MS);
+      lastFrame = now;
+      while (accumulator >= TICK_MS && gameRef.current && !gameRef.current.isOver) {
+        tick();
+        accumulator -= TICK_MS;
+      }
+
+      // Once the round is over, endGame has taken over the state
+      const current = gameRef.current;
+      if (!current || current.isOver) return;
+      const frameTime = current.time + accumulator;
+      simOriginRef.current = now - frameTime;
+      drawFrame();
+
+      // Reaction times count from the first frame a target is drawn in, or
+      // from its spawn when that frame came too late to be accepted
+      for (const target of current.targets) {
+        if (target.id > shownUpToRef.current) {
+          if (frameTime - target.createdAt <= MAX_SHOWN_DELAY_MS) {
+            queueInput({ type: 'shown', targetId: target.id, at: frameTime });
+          }
+          shownUpToRef.current = target.id;
+        }
+      }
+
+      if (now - lastHudUpdate >= HUD_UPDATE_MS) {
+        lastHudUpdate = now;
+        setGame(current);
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, tick, drawFrame, queueInput]);
+
+  // Outside a round there is no loop, so redraw when something shown changes
+  useEffect(() => {
+    if (!isPlaying) {
+      drawFrame();
     }
-  };
+  }, [isPlaying, drawFrame, game]);
 
   return (
     <div className="space-y-6">
@@ -932,23 +993,29 @@ const AimTrainer: React.FC = () => {
       {/* Game Mode Selection */}
       <div className="space-y-4">
         <div className="flex justify-center space-x-4">
-          {(['classic', 'speed', 'precision'] as const).map(mode => (
+          {BUILT_IN_SCENARIOS.map(builtIn => (
             <button
-              key={mode}
-              onClick={() => setGameMode(mode)}
+              key={builtIn.id}
+              onClick={() => setGameMode(builtIn.id)}
               disabled={isPlaying}
               className={`px-6 py-3 rounded-lg font-semibold transition-colors ${
-                gameMode === mode
+                gameMode === builtIn.id
                   ? 'bg-red-600 text-white'
                   : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
               } disabled:opacity-50`}
             >
-              {mode.charAt(0).toUpperCase() + mode.slice(1)}
+              {builtIn.name}
             </button>
           ))}
         </div>
+        <CustomScenarios
+          scenarios={customScenarios}
+          current={scenario}
+          onSelect={setGameMode}
+          disabled={isPlaying}
+        />
         <div className="text-center">
-          <p className="text-sm text-gray-400">{getModeDescription(gameMode)}</p>
+          <p className="text-sm text-gray-400">{scenario.description}</p>
         </div>
       </div>
 
@@ -956,6 +1023,10 @@ const AimTrainer: React.FC = () => {
       {!isPlaying && (
         <div className="bg-gray-800 rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">Settings</h3>
+          <SettingsPresets
+            settings={toTrainingSettings(settings)}
+            onLoad={(preset) => setSettings(prev => ({ ...prev, ...preset }))}
+          />
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
             <div>
               <label className="block text-sm font-medium mb-2">Target Size</label>
@@ -989,13 +1060,96 @@ const AimTrainer: React.FC = () => {
                 min="15"
                 max="120"
                 step="15"
-                value={settings.gameTime}
+                value={gameTime}
                 onChange={(e) => setSettings(prev => ({ ...prev, gameTime: parseInt(e.target.value) }))}
+                disabled={scenario.duration !== null}
+                className="w-full"
+              />
+              <span className="text-sm text-gray-400">
+                {gameTime}s{scenario.duration !== null && ' (set by scenario)'}
+              </span>
+            </div>
+          </div>
+
+          {/* First-person Settings */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="firstPerson"
+                checked={settings.firstPerson}
+                onChange={(e) => setSettings(prev => ({ ...prev, firstPerson: e.target.checked }))}
+                className="w-4 h-4"
+              />
+              <label htmlFor="firstPerson" className="text-sm font-medium">First-person (pointer lock)</label>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Field of View</label>
+              <input
+                type="range"
+                min="60"
+                max="120"
+                value={settings.fov}
+                onChange={(e) => setSettings(prev => ({ ...prev, fov: parseInt(e.target.value) }))}
+                disabled={!settings.firstPerson}
                 className="w-full"
               />
-              <span className="text-sm text-gray-400">{settings.gameTime}s</span>
+              <span className="text-sm text-gray-400">{settings.fov}°</span>
             </div>
           </div>
+
+          <SensitivitySettings profile={settings.sensitivity} onChange={handleSensitivityChange} />
+
+          <CrosshairSettings crosshair={settings.crosshair} onChange={handleCrosshairChange} />
+
+          <ThemeSettings key={scenario.id} scenarioId={scenario.id} scenarioName={scenario.name} />
+
+          <LatencyTest />
+
+          {/* Adaptive Difficulty */}
+          {!isTrackingScenario(scenario) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="adaptive"
+                  checked={settings.adaptive}
+                  onChange={(e) => setSettings(prev => ({ ...prev, adaptive: e.target.checked }))}
+                  className="w-4 h-4"
+                />
+                <label htmlFor="adaptive" className="text-sm font-medium">
+                  Adaptive difficulty <span className="text-gray-400">(not ranked)</span>
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Target Success Rate</label>
+                <input
+                  type="range"
+                  min={MIN_SUCCESS_RATE}
+                  max={MAX_SUCCESS_RATE}
+                  step="0.05"
+                  value={settings.successRate}
+                  onChange={(e) => setSettings(prev => ({ ...prev, successRate: parseFloat(e.target.value) }))}
+                  disabled={!settings.adaptive}
+                  className="w-full"
+                />
+                <span className="text-sm text-gray-400">{Math.round(settings.successRate * 100)}% of targets hit</span>
+              </div>
+            </div>
+          )}
+
+          {isTrackingScenario(scenario) && (
+            <div className="flex items-center space-x-3 mb-4">
+              <input
+                type="checkbox"
+                id="holdToTrack"
+                checked={settings.holdToTrack}
+                onChange={(e) => setSettings(prev => ({ ...prev, holdToTrack: e.target.checked }))}
+                className="w-4 h-4"
+              />
+              <label htmlFor="holdToTrack" className="text-sm font-medium">Hold mouse button to track</label>
+            </div>
+          )}
           
           {/* Audio Settings */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1032,6 +1186,30 @@ const AimTrainer: React.FC = () => {
         </div>
       )}
 
+      {/* Training Plans */}
+      {!isPlaying && !planRun && !duelRoomId && (
+        <TrainingPlans customScenarios={customScenarios} onStart={startPlan} />
+      )}
+
+      {/* Duels */}
+      {!isPlaying && !planRun && !duelRoomId && (
+        <DuelLobby
+          scenario={scenario}
+          settings={{ targetSize: settings.targetSize, targetSpeed: settings.targetSpeed, gameTime }}
+          onEnter={updateDuelRoom}
+        />
+      )}
+
+      {/* Teams */}
+      {!isPlaying && !planRun && !duelRoomId && (
+        <Teams
+          scenarios={[...BUILT_IN_SCENARIOS, ...(customScenarios ?? [])]}
+          onPlayScenario={startFixedRound}
+          onStartPlan={startPlan}
+          onWatchReplay={setReplayId}
+        />
+      )}
+
       {/* Game Stats */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-gray-800 rounded-lg p-4 text-center">
@@ -1040,11 +1218,20 @@ const AimTrainer: React.FC = () => {
         </div>
         <div className="bg-gray-800 rounded-lg p-4 text-center">
           <div className="text-2xl font-bold text-green-500">{accuracy.toFixed(1)}%</div>
-          <div className="text-sm text-gray-400">Accuracy</div>
+          <div className="text-sm text-gray-400">{isTracking ? 'On Target' : 'Accuracy'}</div>
         </div>
         <div className="bg-gray-800 rounded-lg p-4 text-center">
-          <div className="text-2xl font-bold text-blue-500">{gameStats.targetsHit}</div>
-          <div className="text-sm text-gray-400">Hits</div>
+          {isTracking ? (
+            <>
+              <div className="text-2xl font-bold text-blue-500">{averageTrackingDistance.toFixed(0)}px</div>
+              <div className="text-sm text-gray-400">Avg Distance</div>
+            </>
+          ) : (
+            <>
+              <div className="text-2xl font-bold text-blue-500">{gameStats.targetsHit}</div>
+              <div className="text-sm text-gray-400">Hits</div>
+            </>
+          )}
         </div>
         <div className="bg-gray-800 rounded-lg p-4 text-center">
           <div className="text-2xl font-bold text-yellow-500">{timeLeft}s</div>
@@ -1053,23 +1240,44 @@ const AimTrainer: React.FC = () => {
       </div>
 
       {/* Live Shot Analysis */}
-      {isPlaying && (
+      {isPlaying && !isTracking && (
         <div className="space-y-4">
           {/* Hit Zone Stats */}
-          <div className="grid grid-cols-3 gap-4">
-            <div className="bg-gray-800 rounded-lg p-3 text-center">
-              <div className="text-lg font-bold text-yellow-400">{gameStats.centerHits}</div>
-              <div className="text-xs text-gray-400">Center (2x)</div>
-            </div>
-            <div className="bg-gray-800 rounded-lg p-3 text-center">
-              <div className="text-lg font-bold text-blue-400">{gameStats.ringHits}</div>
-              <div className="text-xs text-gray-400">Ring (1.5x)</div>
+          {humanoid ? (
+            <div className="grid grid-cols-4 gap-4">
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-yellow-400">{gameStats.headHits}</div>
+                <div className="text-xs text-gray-400">Head ({humanoid.zones.head.multiplier}x)</div>
+              </div>
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-blue-400">{gameStats.bodyHits}</div>
+                <div className="text-xs text-gray-400">Body ({humanoid.zones.body.multiplier}x)</div>
+              </div>
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-gray-400">{gameStats.legHits}</div>
+                <div className="text-xs text-gray-400">Legs ({humanoid.zones.legs.multiplier}x)</div>
+              </div>
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-red-400">{headshotPercent.toFixed(0)}%</div>
+                <div className="text-xs text-gray-400">Headshots, {gameStats.reactionTimes.length} down</div>
+              </div>
             </div>
-            <div className="bg-gray-800 rounded-lg p-3 text-center">
-              <div className="text-lg font-bold text-gray-400">{gameStats.edgeHits}</div>
-              <div className="text-xs text-gray-400">Edge (1x)</div>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-yellow-400">{gameStats.centerHits}</div>
+                <div className="text-xs text-gray-400">Center (2x)</div>
+              </div>
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-blue-400">{gameStats.ringHits}</div>
+                <div className="text-xs text-gray-400">Ring (1.5x)</div>
+              </div>
+              <div className="bg-gray-800 rounded-lg p-3 text-center">
+                <div className="text-lg font-bold text-gray-400">{gameStats.edgeHits}</div>
+                <div className="text-xs text-gray-400">Edge (1x)</div>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Shot Analysis */}
           <div className="bg-gray-800 rounded-lg p-4">
@@ -1105,30 +1313,107 @@ const AimTrainer: React.FC = () => {
                      lastShotAnalysis.direction === 'overshoot' ? 'OVERSHOOT' : 'UNDERSHOOT'}
                   </span>
                   {lastShotAnalysis.direction !== 'hit' && (
-                    <span className="text-gray-400"> ({lastShotAnalysis.distance.toFixed(0)}px off)</span>
+                    <span className="text-gray-400">
+                      {' '}({lastShotAnalysis.distance.toFixed(0)}px
+                      {lastShotAnalysis.angularDistance !== undefined && ` / ${lastShotAnalysis.angularDistance.toFixed(2)}°`} off)
+                    </span>
                   )}
                 </div>
+                {lastShotAnalysis.flick && (
+                  <div className="text-xs text-gray-400 mt-1">
+                    Moved after {lastShotAnalysis.flick.timeToMove.toFixed(0)}ms •
+                    {' '}peak {lastShotAnalysis.flick.peakVelocity.toFixed(0)}px/s •
+                    {' '}{(lastShotAnalysis.flick.pathEfficiency * 100).toFixed(0)}% efficient •
+                    {' '}{lastShotAnalysis.flick.corrections} correction{lastShotAnalysis.flick.corrections === 1 ? '' : 's'}
+                    {lastShotAnalysis.flick.overshot && <span className="text-orange-400"> • crossed the target</span>}
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
       )}
 
+      {/* Flick Analysis, kept up after the round so it can be read */}
+      {!isTracking && gameStats.flicks > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h4 className="text-sm font-semibold mb-3 text-center">Flick Analysis</h4>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+            <div className="text-center">
+              <div className="text-lg font-bold text-purple-400">{flick.averageTimeToMove.toFixed(0)}ms</div>
+              <div className="text-xs text-gray-400">Time to Move</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-yellow-400">{flick.averagePeakVelocity.toFixed(0)}px/s</div>
+              <div className="text-xs text-gray-400">Peak Velocity</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-green-400">{(flick.averagePathEfficiency * 100).toFixed(0)}%</div>
+              <div className="text-xs text-gray-400">Path Efficiency</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-cyan-400">{flick.averageCorrections.toFixed(1)}</div>
+              <div className="text-xs text-gray-400">Corrections</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-orange-400">{(flick.overshootRate * 100).toFixed(0)}%</div>
+              <div className="text-xs text-gray-400">Crossed Target</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Frame timing of the last round, which every reaction time includes */}
+      {!isPlaying && frameTiming && frameTiming.frames > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h4 className="text-sm font-semibold mb-3 text-center">Frame Timing</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="text-center">
+              <div className="text-lg font-bold text-white">{frameTiming.averageFrameTime.toFixed(1)}ms</div>
+              <div className="text-xs text-gray-400">Avg Frame Time</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-yellow-400">{frameTiming.worstFrameTime.toFixed(1)}ms</div>
+              <div className="text-xs text-gray-400">Worst Frame</div>
+            </div>
+            <div className="text-center">
+              <div className={`text-lg font-bold ${frameTiming.droppedFrames > 0 ? 'text-orange-400' : 'text-green-400'}`}>
+                {frameTiming.droppedFrames}
+              </div>
+              <div className="text-xs text-gray-400">Dropped Frames</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-cyan-400">{frameTiming.averageInputDelay.toFixed(1)}ms</div>
+              <div className="text-xs text-gray-400">Input Delay</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {game && game.difficultyCurve.length > 0 && (
+        <DifficultyCurve curve={game.difficultyCurve} duration={game.settings.gameTime * 1000} />
+      )}
+
       {/* Game Canvas */}
       <div className="flex justify-center">
         <div 
           ref={containerRef}
           className={`relative ${isFullscreen ? 'fixed inset-0 z-50 bg-gray-900' : ''}`}
         >
+          {/* The drawn crosshair stands in for the cursor, except while first-person
+              mode waits for the click that locks the pointer */}
           <canvas
             ref={canvasRef}
             width={800}
             height={600}
-            onClick={handleCanvasClick}
-            className={`border-2 border-gray-700 rounded-lg cursor-crosshair bg-gray-800 ${
+            onPointerDown={handleCanvasPointerDown}
+            onMouseMove={handleCanvasPointer}
+            onMouseUp={handleCanvasPointer}
+            onMouseLeave={handleCanvasPointer}
+            className={`border-2 border-gray-700 rounded-lg bg-gray-800 ${
               isFullscreen ? 'w-full h-full' : ''
             }`}
-            style={{ cursor: isPlaying ? 'crosshair' : 'default' }}
+            style={{ cursor: isPlaying && (isPointerLocked || !settings.firstPerson) ? 'none' : 'default' }}
           />
           
           {/* Control Buttons */}
@@ -1150,8 +1435,81 @@ const AimTrainer: React.FC = () => {
             </button>
           </div>
 
+          {/* Training Plan Overlay: rest between blocks, then the summary */}
+          {!isPlaying && planRun && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-60">
+              <div className="text-center text-white space-y-3">
+                <p className="text-sm text-gray-400">{planRun.plan.name}</p>
+                {isPlanDone ? (
+                  <>
+                    <h3 className="text-2xl font-bold">Plan complete</h3>
+                    <p className="text-gray-300">
+                      {planRun.results.filter(result => result.passed).length} of {planRun.plan.blocks.length} blocks passed
+                    </p>
+                    <div className="flex justify-center gap-2 text-sm">
+                      {planRun.results.map((result, i) => (
+                        <span key={i} className={result.passed ? 'text-green-400' : 'text-orange-400'}>
+                          {result.score}
+                        </span>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => updatePlanRun(null)}
+                      className="px-6 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-semibold"
+                    >
+                      Close
+                    </button>
+                  </>
+                ) : planRun.restUntil !== null && nextBlock ? (
+                  <>
+                    {lastResult && (
+                      <p className={lastResult.passed ? 'text-green-400' : 'text-orange-400'}>
+                        Block {planRun.blockIndex}: {lastResult.score} ({lastResult.passed ? 'target reached' : 'below target'})
+                      </p>
+                    )}
+                    <div className="text-5xl font-bold">{restLeft}s</div>
+                    <p className="text-gray-300">
+                      Next: block {planRun.blockIndex + 1} of {planRun.plan.blocks.length},{' '}
+                      {findScenario(nextBlock.scenarioId)?.name ?? 'Missing scenario'}
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      {nextBlock.targetSize}px • {nextBlock.targetSpeed}ms • {nextBlock.duration}s • target {nextBlock.targetScore}
+                    </p>
+                    <div className="flex justify-center gap-3">
+                      <button
+                        onClick={() => startPlanBlock(planRun)}
+                        className="px-6 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-semibold"
+                      >
+                        Start now
+                      </button>
+                      <button
+                        onClick={() => updatePlanRun(null)}
+                        className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+                      >
+                        Quit plan
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-gray-300">Saving block result...</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Duel Overlay: lobby, countdown and result, or live scores while playing */}
+          {duelRoomId && (
+            <DuelRoom
+              key={duelRoomId}
+              roomId={duelRoomId}
+              isPlaying={isPlaying}
+              onStart={startFixedRound}
+              onClose={() => updateDuelRoom(null)}
+            />
+          )}
+
           {/* Start Game Overlay */}
-          {!isPlaying && (
+          {!isPlaying && !planRun && !duelRoomId && (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center">
                 <button
@@ -1170,6 +1528,15 @@ const AimTrainer: React.FC = () => {
             </div>
           )}
 
+          {/* Pointer Lock Hint */}
+          {isPlaying && game?.settings.fov !== undefined && !isPointerLocked && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div className="text-white text-sm bg-black bg-opacity-70 px-4 py-3 rounded">
+                Click the canvas to lock the mouse and aim
+              </div>
+            </div>
+          )}
+
           {/* Exit Fullscreen Hint */}
           {isFullscreen && isPlaying && (
             <div className="absolute top-4 left-4 text-white text-sm bg-black bg-opacity-50 px-3 py-2 rounded">
@@ -1179,29 +1546,105 @@ const AimTrainer: React.FC = () => {
         </div>
       </div>
 
-      {/* User Stats */}
-      {userStats && (
-        <div className="bg-gray-800 rounded-lg p-6">
-          <h3 className="text-lg font-semibold mb-4">Your Statistics</h3>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="text-center">
-              <div className="text-xl font-bold text-blue-500">{userStats.totalSessions}</div>
-              <div className="text-sm text-gray-400">Total Sessions</div>
-            </div>
-            <div className="text-center">
-              <div className="text-xl font-bold text-yellow-500">{userStats.bestScore}</div>
-              <div className="text-sm text-gray-400">Best Score</div>
-            </div>
-            <div className="text-center">
-              <div className="text-xl font-bold text-green-500">{userStats.averageAccuracy.toFixed(1)}%</div>
-              <div className="text-sm text-gray-400">Avg Accuracy</div>
-            </div>
-            <div className="text-center">
-              <div className="text-xl font-bold text-purple-500">{userStats.averageReactionTime.toFixed(0)}ms</div>
-              <div className="text-sm text-gray-400">Avg Reaction</div>
+      {/* User Stats and Leaderboard */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {userStats && (
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h3 className="text-lg font-semibold mb-4">Your Statistics</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <div className="text-xl font-bold text-blue-500">{userStats.totalSessions}</div>
+                <div className="text-sm text-gray-400">Total Sessions</div>
+              </div>
+              <div className="text-center">
+                <div className="text-xl font-bold text-yellow-500">{userStats.bestScore}</div>
+                <div className="text-sm text-gray-400">Best Score</div>
+              </div>
+              <div className="text-center">
+                <div className="text-xl font-bold text-green-500">{userStats.averageAccuracy.toFixed(1)}%</div>
+                <div className="text-sm text-gray-400">Avg Accuracy</div>
+              </div>
+              <div className="text-center">
+                <div className="text-xl font-bold text-purple-500">{userStats.averageReactionTime.toFixed(0)}ms</div>
+                <div className="text-sm text-gray-400">Avg Reaction</div>
+              </div>
             </div>
+            <SkillRating />
+            {bucketStats && (
+              <div className="mt-4 pt-4 border-t border-gray-700 text-sm text-gray-400 text-center">
+                {scenario.name} at {settings.targetSize}px • {settings.targetSpeed}ms • {gameTime}s:{' '}
+                <span className="text-white">{bucketStats.sessions}</span> sessions • best{' '}
+                <span className="text-yellow-500">{bucketStats.bestScore}</span> • score{' '}
+                <span className="text-white">
+                  {bucketStats.averageScore.toFixed(0)} ± {bucketStats.scoreStdDev.toFixed(0)}
+                </span> • accuracy{' '}
+                <span className="text-white">
+                  {bucketStats.averageAccuracy.toFixed(1)}% ± {bucketStats.accuracyStdDev.toFixed(1)}
+                </span>
+              </div>
+            )}
+            {userStats.trackingSessions > 0 && (
+              <div className="grid grid-cols-2 gap-4 mt-4 pt-4 border-t border-gray-700">
+                <div className="text-center">
+                  <div className="text-xl font-bold text-green-500">{userStats.averageTimeOnTarget.toFixed(1)}%</div>
+                  <div className="text-sm text-gray-400">Tracking On Target</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-xl font-bold text-cyan-500">{userStats.averageTrackingDistance.toFixed(0)}px</div>
+                  <div className="text-sm text-gray-400">Tracking Avg Distance</div>
+                </div>
+              </div>
+            )}
+            {userStats.recentSessions.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-700">
+                <h4 className="text-sm font-semibold mb-2">Recent Sessions</h4>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {userStats.recentSessions.map(session => (
+                      <tr key={session._id} className="text-gray-200">
+                        <td className="py-1">
+                          {getBuiltInScenario(session.gameMode)?.name
+                            ?? customScenarios?.find(custom => custom.id === session.gameMode)?.name
+                            ?? 'Custom'}
+                          {session.settings.adaptive !== undefined && (
+                            <span className="text-xs text-gray-400 ml-1">(adaptive)</span>
+                          )}
+                        </td>
+                        <td className="py-1 text-right font-semibold">{session.score}</td>
+                        <td className="py-1 text-right">{session.accuracy.toFixed(1)}%</td>
+                        <td className="py-1 text-right text-gray-400">
+                          {new Date(session.importedFrom?.playedAt ?? session._creationTime).toLocaleDateString()}
+                        </td>
+                        <td className="py-1 text-right">
+                          {session.replayId && (
+                            <button
+                              onClick={() => setReplayId(session.replayId ?? null)}
+                              className="text-xs text-red-400 hover:text-red-300"
+                            >
+                              Replay
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
-        </div>
+        )}
+
+        <Leaderboard key={gameMode} gameMode={gameMode} modeName={scenario.name} settings={{ ...settings, gameTime }} />
+      </div>
+
+      <ProgressHistory key={gameMode} gameMode={gameMode} modeName={scenario.name} settings={{ ...settings, gameTime }} />
+
+      {!isPlaying && <DataTransfer />}
+      {!isPlaying && <ApiTokens />}
+      {!isPlaying && <Webhooks />}
+
+      {replayId && (
+        <ReplayViewer key={replayId} replayId={replayId} onClose={() => setReplayId(null)} />
       )}
     </div>
   );
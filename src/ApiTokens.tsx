@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useAction, useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import { SITE_URL } from './lib/utils';
+
+const ENDPOINTS = [
+  { path: '/api/v1/users/me/stats', description: 'Lifetime stats, overall and per mode' },
+  { path: '/api/v1/users/me/sessions?limit=20', description: 'Recent sessions, up to 100' },
+  { path: '/api/v1/sessions/:id', description: 'One session' },
+  { path: '/api/v1/leaderboards/:mode?window=week', description: 'A leaderboard: window all, week or day' },
+];
+
+const ApiTokens: React.FC = () => {
+  const tokens = useQuery(api.apiTokens.listMyTokens);
+  const createToken = useAction(api.apiTokens.createToken);
+  const revokeToken = useMutation(api.apiTokens.revokeToken);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  // Shown once, right after creating it
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      setNewToken(await createToken({ name }));
+      setName('');
+    } catch (error) {
+      console.error('Failed to create API token:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create API token');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: Id<'apiTokens'>, tokenName: string) => {
+    try {
+      await revokeToken({ tokenId });
+      toast.success(`Revoked "${tokenName}"`);
+    } catch (error) {
+      console.error('Failed to revoke API token:', error);
+      toast.error('Failed to revoke API token');
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast.success('Token copied');
+    } catch (error) {
+      console.error('Failed to copy token:', error);
+      toast.error('Failed to copy token');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold">API Tokens</h3>
+      <p className="text-sm text-gray-400">
+        Read your stats from scripts and other tools. Send a token as <code>Authorization: Bearer &lt;token&gt;</code> to{' '}
+        <code>{SITE_URL}</code>. Each token allows 60 requests a minute.
+      </p>
+
+      <ul className="text-xs text-gray-400 space-y-1">
+        {ENDPOINTS.map(({ path, description }) => (
+          <li key={path}>
+            <code className="text-gray-200">GET {path}</code> — {description}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={name}
+          maxLength={40}
+          placeholder="Token name, e.g. Discord bot"
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 px-3 py-2 rounded bg-gray-700 text-white text-sm"
+        />
+        <button
+          onClick={() => void handleCreate()}
+          disabled={!name.trim() || isCreating}
+          className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-semibold disabled:opacity-50"
+        >
+          Create Token
+        </button>
+      </div>
+
+      {newToken && (
+        <div className="bg-gray-900 rounded p-3 space-y-2">
+          <p className="text-sm text-orange-400">Copy this token now. It is only shown once.</p>
+          <div className="flex space-x-2 items-center">
+            <code className="flex-1 text-sm break-all">{newToken}</code>
+            <button
+              onClick={() => void handleCopy(newToken)}
+              className="px-3 py-1 rounded text-sm bg-gray-700 hover:bg-gray-600"
+            >
+              Copy
+            </button>
+            <button onClick={() => setNewToken(null)} className="text-sm text-gray-400 hover:text-white">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens && tokens.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-1">Name</th>
+              <th className="py-1">Token</th>
+              <th className="py-1">Created</th>
+              <th className="py-1">Last used</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map(token => (
+              <tr key={token.id} className="border-t border-gray-700">
+                <td className="py-1">{token.name}</td>
+                <td className="py-1 font-mono text-gray-400">{token.prefix}…</td>
+                <td className="py-1">{new Date(token.createdAt).toLocaleDateString()}</td>
+                <td className="py-1">{token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'Never'}</td>
+                <td className="py-1 text-right">
+                  <button
+                    onClick={() => void handleRevoke(token.id, token.name)}
+                    className="text-gray-400 hover:text-red-400"
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokens;
@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import { drawCrosshair } from './drawGame';
+import {
+  CROSSHAIR_LIMITS,
+  CROSSHAIR_STYLES,
+  DEFAULT_CROSSHAIR,
+  decodeCrosshair,
+  encodeCrosshair,
+  validateCrosshair,
+  type Crosshair,
+} from './engine/crosshair';
+
+interface CrosshairSettingsProps {
+  crosshair: Crosshair;
+  onChange: (crosshair: Crosshair) => void;
+}
+
+const STYLE_LABELS: Record<Crosshair['style'], string> = {
+  cross: 'Cross',
+  dot: 'Dot',
+  circle: 'Circle',
+  t: 'T',
+};
+
+const SIZE_LABELS: Record<keyof typeof CROSSHAIR_LIMITS, string> = {
+  outline: 'Outline',
+  thickness: 'Thickness',
+  gap: 'Gap',
+  length: 'Length',
+};
+
+const PREVIEW_SIZE = 120;
+
+const CrosshairSettings: React.FC<CrosshairSettingsProps> = ({ crosshair, onChange }) => {
+  const saveCrosshair = useMutation(api.crosshairs.saveCrosshair);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [code, setCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Shown on the game's background and on a light patch, where targets are
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(0, 0, PREVIEW_SIZE * 2, PREVIEW_SIZE);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(PREVIEW_SIZE, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    drawCrosshair(ctx, crosshair, PREVIEW_SIZE / 2, PREVIEW_SIZE / 2);
+    drawCrosshair(ctx, crosshair, PREVIEW_SIZE * 1.5, PREVIEW_SIZE / 2);
+  }, [crosshair]);
+
+  const handleImport = () => {
+    const imported = decodeCrosshair(code);
+    if (!imported) {
+      toast.error('That is not a valid crosshair code');
+      return;
+    }
+    onChange(imported);
+    setCode('');
+    toast.success('Crosshair imported');
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(encodeCrosshair(crosshair));
+      toast.success('Crosshair code copied');
+    } catch (error) {
+      console.error('Failed to copy crosshair code:', error);
+      toast.error('Failed to copy crosshair code');
+    }
+  };
+
+  const handleSave = async () => {
+    const problem = validateCrosshair(crosshair);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveCrosshair(crosshair);
+      toast.success('Crosshair saved');
+    } catch (error) {
+      console.error('Failed to save crosshair:', error);
+      toast.error('Failed to save crosshair');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <h4 className="font-semibold mb-2">Crosshair</h4>
+      <div className="flex flex-col md:flex-row gap-4">
+        <canvas
+          ref={previewRef}
+          width={PREVIEW_SIZE * 2}
+          height={PREVIEW_SIZE}
+          className="rounded border border-gray-700 self-start"
+        />
+
+        <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-2">Style</label>
+            <select
+              value={crosshair.style}
+              onChange={(e) => onChange({ ...crosshair, style: e.target.value as Crosshair['style'] })}
+              className="w-full px-2 py-1 rounded bg-gray-700 text-white"
+            >
+              {CROSSHAIR_STYLES.map(style => (
+                <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Color</label>
+            <input
+              type="color"
+              value={crosshair.color}
+              onChange={(e) => onChange({ ...crosshair, color: e.target.value.toLowerCase() })}
+              className="w-full h-8 rounded bg-gray-700"
+            />
+          </div>
+          <div className="flex items-center space-x-2 mt-6">
+            <input
+              type="checkbox"
+              id="crosshairCenterDot"
+              checked={crosshair.centerDot}
+              disabled={crosshair.style === 'dot'}
+              onChange={(e) => onChange({ ...crosshair, centerDot: e.target.checked })}
+              className="w-4 h-4"
+            />
+            <label htmlFor="crosshairCenterDot" className="text-sm font-medium">Center Dot</label>
+          </div>
+          <div />
+          {(Object.keys(SIZE_LABELS) as (keyof typeof CROSSHAIR_LIMITS)[]).map(key => (
+            <div key={key}>
+              <label className="block text-sm font-medium mb-2">{SIZE_LABELS[key]}</label>
+              <input
+                type="range"
+                min={CROSSHAIR_LIMITS[key].min}
+                max={CROSSHAIR_LIMITS[key].max}
+                value={crosshair[key]}
+                disabled={crosshair.style === 'dot' && (key === 'gap' || key === 'length')}
+                onChange={(e) => onChange({ ...crosshair, [key]: parseInt(e.target.value) })}
+                className="w-full"
+              />
+              <span className="text-sm text-gray-400">{crosshair[key]}px</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center mt-3">
+        <code className="text-sm text-gray-300 mr-2">{encodeCrosshair(crosshair)}</code>
+        <button
+          onClick={() => void handleCopy()}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+        >
+          Copy Code
+        </button>
+        <input
+          type="text"
+          placeholder="Paste a crosshair code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="flex-1 min-w-[12rem] px-2 py-1 rounded bg-gray-700 text-white text-sm"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!code.trim()}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50"
+        >
+          Import
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_CROSSHAIR)}
+          className="px-3 py-1 text-sm text-gray-400 hover:text-white"
+        >
+          Reset
+        </button>
+      </div>
+
+      <button
+        onClick={() => void handleSave()}
+        disabled={isSaving}
+        className="mt-3 px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Save Crosshair'}
+      </button>
+    </div>
+  );
+};
+
+export default CrosshairSettings;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import ScenarioEditor, { type ScenarioDraft } from './ScenarioEditor';
+import { toScenarioDefinition } from './engine/scenarios';
+import type { Scenario } from './engine/types';
+
+interface CustomScenariosProps {
+  scenarios: (Scenario & { shareCode: string })[] | undefined;
+  // The scenario currently selected, built-in or custom
+  current: Scenario;
+  onSelect: (scenarioId: string) => void;
+  disabled: boolean;
+}
+
+const CustomScenarios: React.FC<CustomScenariosProps> = ({ scenarios, current, onSelect, disabled }) => {
+  const importScenario = useMutation(api.scenarios.importScenario);
+  const deleteScenario = useMutation(api.scenarios.deleteScenario);
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null);
+  const [shareCode, setShareCode] = useState('');
+
+  const selectedCustom = scenarios?.find(scenario => scenario.id === current.id);
+
+  const startNew = () => setDraft({
+    name: '',
+    description: '',
+    definition: toScenarioDefinition(current),
+  });
+
+  const startEdit = (scenario: Scenario) => setDraft({
+    scenarioId: scenario.id as Id<'scenarios'>,
+    name: scenario.name,
+    description: scenario.description,
+    definition: toScenarioDefinition(scenario),
+  });
+
+  const handleImport = async () => {
+    try {
+      const scenarioId = await importScenario({ shareCode });
+      setShareCode('');
+      onSelect(scenarioId);
+      toast.success('Scenario imported');
+    } catch (error) {
+      console.error('Failed to import scenario:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import scenario');
+    }
+  };
+
+  const handleDelete = async (scenario: Scenario) => {
+    try {
+      await deleteScenario({ scenarioId: scenario.id as Id<'scenarios'> });
+      onSelect('classic');
+    } catch (error) {
+      console.error('Failed to delete scenario:', error);
+      toast.error('Failed to delete scenario');
+    }
+  };
+
+  const copyShareCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Share code copied');
+    } catch {
+      toast.error('Could not copy the share code');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap justify-center items-center gap-2">
+        <span className="text-sm text-gray-400">Custom:</span>
+        {scenarios?.map(scenario => (
+          <button
+            key={scenario.id}
+            onClick={() => onSelect(scenario.id)}
+            disabled={disabled}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              current.id === scenario.id
+                ? 'bg-red-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            } disabled:opacity-50`}
+          >
+            {scenario.name}
+          </button>
+        ))}
+        <button
+          onClick={startNew}
+          disabled={disabled}
+          className="px-4 py-2 rounded-lg text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+        >
+          + New from {current.name}
+        </button>
+        <input
+          type="text"
+          placeholder="Share code"
+          value={shareCode}
+          onChange={(e) => setShareCode(e.target.value)}
+          disabled={disabled}
+          className="w-28 px-2 py-2 rounded-lg bg-gray-700 text-white text-sm uppercase"
+        />
+        <button
+          onClick={() => void handleImport()}
+          disabled={disabled || !shareCode.trim()}
+          className="px-4 py-2 rounded-lg text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+        >
+          Import
+        </button>
+      </div>
+
+      {selectedCustom && !disabled && (
+        <div className="flex justify-center items-center gap-3 text-sm text-gray-400">
+          <span>
+            Share code: <span className="font-mono text-white">{selectedCustom.shareCode}</span>
+          </span>
+          <button onClick={() => void copyShareCode(selectedCustom.shareCode)} className="hover:text-white">Copy</button>
+          <button onClick={() => startEdit(selectedCustom)} className="hover:text-white">Edit</button>
+          <button onClick={() => void handleDelete(selectedCustom)} className="hover:text-red-400">Delete</button>
+        </div>
+      )}
+
+      {draft && (
+        <ScenarioEditor
+          key={draft.scenarioId ?? 'new'}
+          draft={draft}
+          onSaved={(scenarioId) => {
+            setDraft(null);
+            onSelect(scenarioId);
+          }}
+          onClose={() => setDraft(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomScenarios;
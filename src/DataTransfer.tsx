@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { useAuthToken } from '@convex-dev/auth/react';
+import { toast } from 'sonner';
+import { SITE_URL } from './lib/utils';
+
+interface ImportSummary {
+  imported: number;
+  duplicates: number;
+  rejected: { id: string; reason: string }[];
+}
+
+const EXPORTS = [
+  { label: 'Export JSON', query: 'format=json', description: 'Everything, including input logs. Can be imported again.' },
+  { label: 'Export CSV', query: 'format=csv&data=sessions', description: 'One row per session' },
+  { label: 'Export Shots CSV', query: 'format=csv&data=shots', description: 'One row per shot, for sessions with a replay' },
+];
+
+const DataTransfer: React.FC = () => {
+  const token = useAuthToken();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const handleExport = async (query: string) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`${SITE_URL}/export?${query}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      // Save under the file name the server suggests
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = /filename="(.+)"/.exec(disposition)?.[1] ?? 'aim-sessions';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export sessions:', error);
+      toast.error('Failed to export sessions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setBusy(true);
+    setSummary(null);
+    try {
+      const response = await fetch(`${SITE_URL}/import`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const result = await response.json() as ImportSummary;
+      setSummary(result);
+      toast.success(`Imported ${result.imported} session${result.imported === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to import sessions:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to import sessions');
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold">Your Data</h3>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {EXPORTS.map(({ label, query, description }) => (
+          <div key={query}>
+            <button
+              onClick={() => void handleExport(query)}
+              disabled={busy || !token}
+              className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-semibold disabled:opacity-50"
+            >
+              {label}
+            </button>
+            <p className="text-xs text-gray-400 mt-1">{description}</p>
+          </div>
+        ))}
+        <div>
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={busy || !token}
+            className="w-full px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-semibold disabled:opacity-50"
+          >
+            Import JSON
+          </button>
+          <p className="text-xs text-gray-400 mt-1">Restore a JSON export. Sessions are verified and duplicates skipped.</p>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {summary && (
+        <div className="text-sm">
+          <p className="text-gray-300">
+            {summary.imported} imported • {summary.duplicates} already here • {summary.rejected.length} rejected
+          </p>
+          {summary.rejected.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-orange-400 max-h-40 overflow-y-auto">
+              {summary.rejected.map(({ id, reason }) => (
+                <li key={id}>{id}: {reason}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataTransfer;
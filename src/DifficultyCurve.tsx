@@ -0,0 +1,50 @@
+import React from 'react';
+import { MAX_DIFFICULTY, MIN_DIFFICULTY } from './engine/difficulty';
+
+interface DifficultyCurveProps {
+  // [time, difficulty] at the start of the round and at every change
+  curve: number[][];
+  // Round length in ms, the width of the chart
+  duration: number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 80;
+
+const DifficultyCurve: React.FC<DifficultyCurveProps> = ({ curve, duration }) => {
+  const x = (time: number) => (time / duration) * CHART_WIDTH;
+  // Log scale, so halving and doubling the difficulty look alike
+  const range = Math.log(MAX_DIFFICULTY) - Math.log(MIN_DIFFICULTY);
+  const y = (difficulty: number) => CHART_HEIGHT - ((Math.log(difficulty) - Math.log(MIN_DIFFICULTY)) / range) * CHART_HEIGHT;
+
+  // Difficulty holds between changes, so draw it as steps
+  const points = curve.flatMap(([time, difficulty], i) => {
+    const until = i + 1 < curve.length ? curve[i + 1][0] : duration;
+    return [`${x(time)},${y(difficulty)}`, `${x(until)},${y(difficulty)}`];
+  });
+  const current = curve[curve.length - 1][1];
+  const peak = Math.max(...curve.map(([, difficulty]) => difficulty));
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <div className="flex justify-between items-baseline mb-2">
+        <h4 className="text-sm font-semibold">Difficulty Curve</h4>
+        <span className="text-xs text-gray-400">
+          Now <span className="text-white">{current.toFixed(2)}x</span> • Peak{' '}
+          <span className="text-white">{peak.toFixed(2)}x</span>
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-20" preserveAspectRatio="none">
+        <line x1={0} x2={CHART_WIDTH} y1={y(1)} y2={y(1)} stroke="#4b5563" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        <polyline points={points.join(' ')} fill="none" stroke="#ef4444" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Easier</span>
+        <span>Dashed line: your settings</span>
+        <span>Harder</span>
+      </div>
+    </div>
+  );
+};
+
+export default DifficultyCurve;
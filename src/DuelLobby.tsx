@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import { getBuiltInScenario } from './engine/scenarios';
+import type { Scenario } from './engine/types';
+
+interface DuelLobbyProps {
+  // The selected scenario and settings, which a new duel is played with
+  scenario: Scenario;
+  settings: { targetSize: number; targetSpeed: number; gameTime: number };
+  onEnter: (roomId: Id<'duelRooms'>) => void;
+}
+
+const OUTCOME_COLORS = { win: 'text-green-400', loss: 'text-red-400', draw: 'text-gray-300' };
+
+const DuelLobby: React.FC<DuelLobbyProps> = ({ scenario, settings, onEnter }) => {
+  const createRoom = useMutation(api.duels.createRoom);
+  const joinRoom = useMutation(api.duels.joinRoom);
+  const record = useQuery(api.duels.getMyDuelRecord);
+  const [code, setCode] = useState('');
+
+  const handleCreate = async () => {
+    try {
+      onEnter(await createRoom({ gameMode: scenario.id, settings }));
+    } catch (error) {
+      console.error('Failed to create duel:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create duel');
+    }
+  };
+
+  const handleJoin = async () => {
+    try {
+      onEnter(await joinRoom({ code }));
+      setCode('');
+    } catch (error) {
+      console.error('Failed to join duel:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to join duel');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">1v1 Duel</h3>
+        {record && (
+          <span className="text-sm text-gray-400">
+            {record.wins}W • {record.losses}L • {record.draws}D
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => void handleCreate()}
+          className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-semibold"
+        >
+          Create Duel
+        </button>
+        <span className="text-sm text-gray-400">
+          {scenario.name} • {settings.targetSize}px • {settings.targetSpeed}ms • {settings.gameTime}s
+        </span>
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Room code"
+            className="w-32 px-3 py-2 rounded bg-gray-700 text-white text-sm uppercase"
+          />
+          <button
+            onClick={() => void handleJoin()}
+            disabled={!code.trim()}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm disabled:opacity-50"
+          >
+            Join
+          </button>
+        </div>
+      </div>
+
+      {record && record.recent.length > 0 && (
+        <div className="space-y-1 text-sm">
+          {record.recent.map(result => (
+            <div key={result.playedAt} className="flex justify-between text-gray-300">
+              <span>
+                <span className={`font-semibold ${OUTCOME_COLORS[result.outcome]}`}>{result.outcome.toUpperCase()}</span>
+                {' '}vs {result.opponentName}
+                <span className="text-gray-500"> • {getBuiltInScenario(result.gameMode)?.name ?? 'Custom'}</span>
+              </span>
+              <span>{result.score} - {result.opponentScore}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuelLobby;
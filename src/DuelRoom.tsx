@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import type { Scenario } from './engine/types';
+
+interface DuelRoomProps {
+  roomId: Id<'duelRooms'>;
+  isPlaying: boolean;
+  // Called once, when the countdown runs out
+  onStart: (scenario: Scenario, settings: { targetSize: number; targetSpeed: number; gameTime: number }, seed: number) => void;
+  onClose: () => void;
+}
+
+// Drawn over the game canvas: the lobby and countdown before the round, live
+// scores during it and the result after
+const DuelRoom: React.FC<DuelRoomProps> = ({ roomId, isPlaying, onStart, onClose }) => {
+  const room = useQuery(api.duels.getRoom, { roomId });
+  const leaveRoom = useMutation(api.duels.leaveRoom);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!room || room.status !== 'playing' || room.startsAt === null || startedRef.current) return;
+    const { startsAt } = room;
+    const update = () => {
+      const left = startsAt - Date.now();
+      if (left > 0) {
+        setCountdown(Math.ceil(left / 1000));
+      } else if (!startedRef.current) {
+        startedRef.current = true;
+        setCountdown(null);
+        onStart(room.scenario, room.settings, room.seed);
+      }
+    };
+    update();
+    const interval = setInterval(update, 100);
+    return () => clearInterval(interval);
+  }, [room, onStart]);
+
+  const handleLeave = async () => {
+    try {
+      await leaveRoom({ roomId });
+    } catch (error) {
+      console.error('Failed to leave duel:', error);
+      toast.error('Failed to leave duel');
+    }
+    onClose();
+  };
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Room code copied');
+    } catch {
+      toast.error('Could not copy the room code');
+    }
+  };
+
+  if (room === undefined) return null;
+
+  const me = room?.players.find(player => player.isMe);
+  const opponent = room?.players.find(player => !player.isMe);
+
+  if (isPlaying) {
+    return (
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-4 text-white text-sm bg-black bg-opacity-60 px-4 py-2 rounded pointer-events-none">
+        <span><span className="text-gray-400">You</span> <span className="font-bold">{me?.score ?? 0}</span></span>
+        <span className="text-gray-500">vs</span>
+        <span>
+          <span className="font-bold">{opponent?.score ?? 0}</span> <span className="text-gray-400">{opponent?.name ?? 'Opponent'}</span>
+          {opponent?.finished && <span className="text-green-400"> ✓</span>}
+          {opponent?.forfeited && <span className="text-red-400"> left</span>}
+        </span>
+      </div>
+    );
+  }
+
+  const leaveButton = (
+    <button onClick={() => void handleLeave()} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg">
+      Leave duel
+    </button>
+  );
+  const closeButton = (
+    <button onClick={onClose} className="px-6 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-semibold">
+      Close
+    </button>
+  );
+
+  let content: React.ReactNode;
+  if (room === null) {
+    content = (
+      <>
+        <p className="text-gray-300">This duel is no longer available</p>
+        {closeButton}
+      </>
+    );
+  } else if (room.status === 'waiting') {
+    content = (
+      <>
+        <p className="text-gray-300">Share this code with your opponent</p>
+        <button
+          onClick={() => void copyCode(room.code)}
+          className="text-4xl font-mono font-bold tracking-widest hover:text-red-400"
+          title="Copy room code"
+        >
+          {room.code}
+        </button>
+        <p className="text-sm text-gray-400">
+          {room.scenario.name} • {room.settings.targetSize}px • {room.settings.targetSpeed}ms • {room.settings.gameTime}s
+        </p>
+        <p className="text-gray-400">Waiting for an opponent...</p>
+        {leaveButton}
+      </>
+    );
+  } else if (room.status === 'playing') {
+    content = (
+      <>
+        <p className="text-gray-300">
+          {me?.name} vs {opponent?.name} • {room.scenario.name}
+        </p>
+        {countdown !== null ? (
+          <div className="text-6xl font-bold">{countdown}</div>
+        ) : (
+          <p className="text-gray-300">
+            Waiting for {opponent?.name} to finish • their score: {opponent?.score ?? 0}
+          </p>
+        )}
+        {leaveButton}
+      </>
+    );
+  } else if (room.status === 'finished') {
+    const outcome = room.winnerId === null ? 'Draw' : room.winnerId === me?.userId ? 'You win!' : `${opponent?.name} wins`;
+    content = (
+      <>
+        <h3 className="text-3xl font-bold">{outcome}</h3>
+        {room.players.map(player => (
+          <p key={player.userId} className="text-gray-300">
+            {player.name}: <span className="font-bold text-white">{player.score}</span>
+            {player.forfeited && <span className="text-red-400"> (forfeited)</span>}
+          </p>
+        ))}
+        {closeButton}
+      </>
+    );
+  } else {
+    content = (
+      <>
+        <p className="text-gray-300">This duel was abandoned</p>
+        {closeButton}
+      </>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="text-center text-white space-y-3">{content}</div>
+    </div>
+  );
+};
+
+export default DuelRoom;
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { systemClock } from './engine/clock';
+import { estimateLatency, type LatencyEstimate } from './engine/timing';
+
+// How long the test runs once started
+const TEST_MS = 5000;
+const WIDTH = 400;
+const HEIGHT = 160;
+
+// Samples collected while the test runs. Every input waits for the frame that
+// draws it, which closes its event-to-frame sample.
+interface Samples {
+  frameTimes: number[];
+  inputDelays: number[];
+  eventToFrame: number[];
+  waiting: number[];
+}
+
+// Estimates how long input takes to show on screen here: the delay before
+// the browser handles an event, the wait for the next frame, and one refresh
+// for that frame to be displayed
+const LatencyTest: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const samplesRef = useRef<Samples | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<LatencyEstimate | null>(null);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const samples: Samples = { frameTimes: [], inputDelays: [], eventToFrame: [], waiting: [] };
+    samplesRef.current = samples;
+    const startedAt = systemClock.now();
+    let lastFrame = startedAt;
+    let frame = 0;
+    const loop = () => {
+      const now = systemClock.now();
+      samples.frameTimes.push(now - lastFrame);
+      lastFrame = now;
+      samples.eventToFrame.push(...samples.waiting.map(timeStamp => now - timeStamp));
+      samples.waiting = [];
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) {
+        const progress = Math.min(1, (now - startedAt) / TEST_MS);
+        ctx.fillStyle = '#1f2937';
+        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+        ctx.fillStyle = '#dc2626';
+        ctx.fillRect(0, HEIGHT - 4, WIDTH * progress, 4);
+        const pointer = pointerRef.current;
+        if (pointer) {
+          ctx.fillStyle = 'white';
+          ctx.fillRect(pointer.x - 6, pointer.y - 6, 12, 12);
+        }
+      }
+
+      if (now - startedAt >= TEST_MS) {
+        // The first frame time only covers the wait for the first frame
+        setResult(estimateLatency(samples.frameTimes.slice(1), samples.inputDelays, samples.eventToFrame));
+        setIsRunning(false);
+        return;
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      samplesRef.current = null;
+    };
+  }, [isRunning]);
+
+  const handlePointer = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const samples = samplesRef.current;
+    if (!samples) return;
+    samples.inputDelays.push(systemClock.now() - event.timeStamp);
+    samples.waiting.push(event.timeStamp);
+    const rect = event.currentTarget.getBoundingClientRect();
+    pointerRef.current = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }, []);
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold">Latency Self-Test</h4>
+        <button
+          onClick={() => {
+            setResult(null);
+            setIsRunning(true);
+          }}
+          disabled={isRunning}
+          className="px-3 py-1 rounded text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {isRunning ? 'Testing...' : 'Run Test'}
+        </button>
+      </div>
+      {isRunning && (
+        <>
+          <p className="text-xs text-gray-400 mb-2">Keep moving the mouse over the box and clicking for five seconds.</p>
+          <canvas
+            ref={canvasRef}
+            width={WIDTH}
+            height={HEIGHT}
+            onPointerMove={handlePointer}
+            onPointerDown={handlePointer}
+            className="rounded border border-gray-700 cursor-none"
+          />
+        </>
+      )}
+      {result && (
+        result.eventToFrame === 0 ? (
+          <p className="text-sm text-orange-400">No input arrived during the test. Move the mouse over the box while it runs.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+            <div>
+              <div className="font-bold text-white">{result.refreshRate.toFixed(0)} Hz</div>
+              <div className="text-xs text-gray-400">Refresh rate</div>
+            </div>
+            <div>
+              <div className="font-bold text-white">{result.inputDelay.toFixed(1)}ms</div>
+              <div className="text-xs text-gray-400">Input handling</div>
+            </div>
+            <div>
+              <div className="font-bold text-white">{result.eventToFrame.toFixed(1)}ms</div>
+              <div className="text-xs text-gray-400">Input to next frame</div>
+            </div>
+            <div>
+              <div className="font-bold text-white">{result.displayDelay.toFixed(1)}ms</div>
+              <div className="text-xs text-gray-400">Display (1 refresh)</div>
+            </div>
+            <div>
+              <div className="font-bold text-red-400">~{result.total.toFixed(0)}ms</div>
+              <div className="text-xs text-gray-400">Input to screen, {result.droppedFrames} dropped frames</div>
+            </div>
+          </div>
+        )
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Reaction times are measured from the first frame that draws a target to the moment of the click, so this delay
+        is part of every reaction time. Monitor and mouse delays beyond what the browser reports are not included.
+      </p>
+    </div>
+  );
+};
+
+export default LatencyTest;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import RankBadge from './RankBadge';
+
+type LeaderboardWindow = 'all' | 'week' | 'day';
+
+interface LeaderboardProps {
+  gameMode: string;
+  modeName: string;
+  settings: {
+    targetSize: number;
+    targetSpeed: number;
+    gameTime: number;
+  };
+}
+
+const PAGE_SIZE = 10;
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  all: 'All Time',
+  week: 'This Week',
+  day: 'Today',
+};
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ gameMode, modeName, settings }) => {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [matchSettings, setMatchSettings] = useState(true);
+  const [offset, setOffset] = useState(0);
+
+  const board = {
+    gameMode,
+    settings: matchSettings
+      ? { targetSize: settings.targetSize, targetSpeed: settings.targetSpeed, gameTime: settings.gameTime }
+      : undefined,
+    window: timeWindow,
+  };
+  const leaderboard = useQuery(api.leaderboards.getLeaderboard, { ...board, offset, limit: PAGE_SIZE });
+  const myPosition = useQuery(api.leaderboards.getMyLeaderboardPosition, board);
+
+  const changeWindow = (next: LeaderboardWindow) => {
+    setTimeWindow(next);
+    setOffset(0);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">
+          Leaderboard <span className="text-sm text-gray-400">({modeName})</span>
+        </h3>
+        <div className="flex space-x-1">
+          {(['all', 'week', 'day'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => changeWindow(option)}
+              className={`px-2 py-1 rounded text-xs font-semibold transition-colors ${
+                timeWindow === option ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {WINDOW_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs text-gray-400 mb-3">
+        <input
+          type="checkbox"
+          checked={matchSettings}
+          onChange={(e) => {
+            setMatchSettings(e.target.checked);
+            setOffset(0);
+          }}
+          className="w-3 h-3"
+        />
+        <span>
+          Only my settings ({settings.targetSize}px • {settings.targetSpeed}ms • {settings.gameTime}s)
+        </span>
+      </label>
+
+      {leaderboard === undefined ? (
+        <div className="text-center text-sm text-gray-400 py-4">Loading...</div>
+      ) : leaderboard.entries.length === 0 ? (
+        <div className="text-center text-sm text-gray-400 py-4">No ranked sessions yet</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-400 text-left">
+              <th className="py-1">#</th>
+              <th className="py-1">Player</th>
+              <th className="py-1 text-right">Score</th>
+              <th className="py-1 text-right">Accuracy</th>
+              <th className="py-1 text-right">Reaction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {leaderboard.entries.map(entry => (
+              <tr
+                key={entry.sessionId}
+                className={entry.userId === myPosition?.entry?.userId ? 'text-yellow-400' : 'text-gray-200'}
+              >
+                <td className="py-1">{entry.rank}</td>
+                <td className="py-1 truncate">
+                  {entry.playerName}
+                  {entry.tier && <span className="ml-2"><RankBadge tier={entry.tier} /></span>}
+                </td>
+                <td className="py-1 text-right font-semibold">{entry.score}</td>
+                <td className="py-1 text-right">{entry.accuracy.toFixed(1)}%</td>
+                <td className="py-1 text-right">{entry.averageReactionTime.toFixed(0)}ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex justify-between items-center mt-3">
+        <button
+          onClick={() => setOffset(prev => Math.max(0, prev - PAGE_SIZE))}
+          disabled={offset === 0}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <div className="text-xs text-gray-400">
+          {myPosition?.anonymous
+            ? 'Sign up with an email to appear on leaderboards'
+            : myPosition?.entry
+              ? `Your position: #${myPosition.entry.rank} (${myPosition.entry.score})`
+              : 'You are not ranked yet'}
+        </div>
+        <button
+          onClick={() => setOffset(prev => prev + PAGE_SIZE)}
+          disabled={!leaderboard?.hasMore}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import { MAX_PLAN_BLOCKS, validatePlan, type PlanBlock, type PlanDefinition } from './engine/plans';
+import type { Scenario } from './engine/types';
+
+export interface PlanDraft {
+  planId?: Id<'trainingPlans'>;
+  name: string;
+  description: string;
+  definition: PlanDefinition;
+}
+
+interface PlanEditorProps {
+  draft: PlanDraft;
+  // Built-in and custom scenarios the blocks can use
+  scenarios: Scenario[];
+  onSaved: (planId: Id<'trainingPlans'>) => void;
+  onClose: () => void;
+}
+
+// The block added to a plan that has none yet
+const DEFAULT_BLOCK: PlanBlock = { scenarioId: 'classic', targetSize: 50, targetSpeed: 2000, duration: 60, targetScore: 3000 };
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step = 1 }) => (
+  <label className="block">
+    <span className="block text-xs text-gray-400 mb-1">{label}</span>
+    <input
+      type="number"
+      step={step}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+    />
+  </label>
+);
+
+const PlanEditor: React.FC<PlanEditorProps> = ({ draft, scenarios, onSaved, onClose }) => {
+  const savePlan = useMutation(api.trainingPlans.savePlan);
+  const [name, setName] = useState(draft.name);
+  const [description, setDescription] = useState(draft.description);
+  const [definition, setDefinition] = useState<PlanDefinition>(draft.definition);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const problem = !name.trim() ? 'Give the plan a name' : validatePlan(definition);
+  const { blocks } = definition;
+
+  const setBlocks = (next: PlanBlock[]) => setDefinition(prev => ({ ...prev, blocks: next }));
+  const updateBlock = (index: number, changes: Partial<PlanBlock>) =>
+    setBlocks(blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  const moveBlock = (index: number, by: number) => {
+    const next = [...blocks];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    setBlocks(next);
+  };
+
+  // Picking a scenario with a fixed duration sets the block to it
+  const changeScenario = (index: number, scenarioId: string) => {
+    const scenario = scenarios.find(candidate => candidate.id === scenarioId);
+    updateBlock(index, { scenarioId, ...(scenario?.duration != null && { duration: scenario.duration }) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const planId = await savePlan({ planId: draft.planId, name, description, definition });
+      toast.success(`Saved plan "${name.trim()}"`);
+      onSaved(planId);
+    } catch (error) {
+      console.error('Failed to save plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold">{draft.planId ? 'Edit Plan' : 'New Plan'}</h4>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">Close</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Name</span>
+          <input
+            type="text"
+            value={name}
+            maxLength={40}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+          />
+        </label>
+        <label className="block md:col-span-2">
+          <span className="block text-xs text-gray-400 mb-1">Description</span>
+          <input
+            type="text"
+            value={description}
+            maxLength={200}
+            onChange={(e) => setDescription(e.target.value)}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+          />
+        </label>
+        <NumberField
+          label="Rest between blocks (s)"
+          value={definition.restSeconds}
+          onChange={(restSeconds) => setDefinition(prev => ({ ...prev, restSeconds }))}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {blocks.map((block, i) => (
+          <div key={i} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end bg-gray-800 rounded p-2">
+            <label className="block md:col-span-2">
+              <span className="block text-xs text-gray-400 mb-1">Block {i + 1}</span>
+              <select
+                value={block.scenarioId}
+                onChange={(e) => changeScenario(i, e.target.value)}
+                className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+              >
+                {!scenarios.some(scenario => scenario.id === block.scenarioId) && (
+                  <option value={block.scenarioId}>Missing scenario</option>
+                )}
+                {scenarios.map(scenario => (
+                  <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+                ))}
+              </select>
+            </label>
+            <NumberField label="Size (px)" value={block.targetSize} onChange={(targetSize) => updateBlock(i, { targetSize })} />
+            <NumberField label="Speed (ms)" value={block.targetSpeed} step={100} onChange={(targetSpeed) => updateBlock(i, { targetSpeed })} />
+            <NumberField label="Duration (s)" value={block.duration} onChange={(duration) => updateBlock(i, { duration })} />
+            <NumberField label="Target score" value={block.targetScore} step={100} onChange={(targetScore) => updateBlock(i, { targetScore })} />
+            <div className="flex space-x-2 text-sm text-gray-400 pb-1">
+              <button onClick={() => moveBlock(i, -1)} disabled={i === 0} className="hover:text-white disabled:opacity-30">↑</button>
+              <button onClick={() => moveBlock(i, 1)} disabled={i === blocks.length - 1} className="hover:text-white disabled:opacity-30">↓</button>
+              <button onClick={() => setBlocks(blocks.filter((_, j) => j !== i))} className="hover:text-red-400">Remove</button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => setBlocks([...blocks, { ...(blocks[blocks.length - 1] ?? DEFAULT_BLOCK) }])}
+          disabled={blocks.length >= MAX_PLAN_BLOCKS}
+          className="px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+        >
+          + Add Block
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-orange-400">{problem}</span>
+        <button
+          onClick={() => void handleSave()}
+          disabled={!!problem || isSaving}
+          className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold disabled:opacity-50"
+        >
+          Save Plan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanEditor;
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { usePaginatedQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+
+interface ProgressHistoryProps {
+  gameMode: string;
+  modeName: string;
+  settings: {
+    targetSize: number;
+    targetSpeed: number;
+    gameTime: number;
+  };
+}
+
+// One metric on one day, as the server aggregates it. The best is missing when
+// every session that day was flagged.
+interface MetricPoint {
+  average: number;
+  sessions: number;
+  best?: number;
+}
+
+interface HistoryDay {
+  day: number;
+  sessions: number;
+  score?: MetricPoint;
+  accuracy?: MetricPoint;
+  reactionTime?: MetricPoint;
+  centerHitPercent?: MetricPoint;
+  headshotPercent?: MetricPoint;
+  timeOnTarget?: MetricPoint;
+}
+
+interface Metric {
+  label: string;
+  unit: string;
+  color: string;
+  lowerIsBetter?: boolean;
+  key: Exclude<keyof HistoryDay, 'day' | 'sessions'>;
+}
+
+const PAGE_SIZE = 100;
+// Days averaged into each point of the rolling average line
+const ROLLING_WINDOW = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_PRESETS = [
+  { label: '7 Days', days: 7 },
+  { label: '30 Days', days: 30 },
+  { label: '90 Days', days: 90 },
+];
+
+const METRICS: Metric[] = [
+  { label: 'Score', unit: '', color: '#ef4444', key: 'score' },
+  { label: 'Accuracy', unit: '%', color: '#22c55e', key: 'accuracy' },
+  { label: 'Reaction Time', unit: 'ms', color: '#a855f7', lowerIsBetter: true, key: 'reactionTime' },
+  { label: 'Center Hits', unit: '%', color: '#eab308', key: 'centerHitPercent' },
+  { label: 'Headshots', unit: '%', color: '#f97316', key: 'headshotPercent' },
+  { label: 'Time on Target', unit: '%', color: '#06b6d4', key: 'timeOnTarget' },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+// yyyy-mm-dd in local time, the format of date inputs
+const toDateInput = (time: number) => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatValue = (value: number, unit: string) => `${value.toFixed(unit === '%' ? 1 : 0)}${unit}`;
+
+interface ChartProps {
+  metric: Metric;
+  days: HistoryDay[];
+}
+
+const MetricChart: React.FC<ChartProps> = ({ metric, days }) => {
+  const series = days.flatMap(day => {
+    const point = day[metric.key];
+    return point ? [{ day: day.day, ...point }] : [];
+  });
+  if (series.length === 0) return null;
+
+  // Weighted by sessions, so a busy day counts for more than a single round
+  const rolling = series.map((_, i) => {
+    const window = series.slice(Math.max(0, i - ROLLING_WINDOW + 1), i + 1);
+    const sessions = window.reduce((sum, entry) => sum + entry.sessions, 0);
+    return window.reduce((sum, entry) => sum + entry.average * entry.sessions, 0) / sessions;
+  });
+
+  // A personal best is a day whose best session beat every earlier one
+  const personalBests = new Set<number>();
+  let best: number | undefined;
+  series.forEach((entry, i) => {
+    if (entry.best === undefined) return;
+    if (best === undefined || (metric.lowerIsBetter ? entry.best < best : entry.best > best)) {
+      best = entry.best;
+      personalBests.add(i);
+    }
+  });
+
+  const values = series.map(entry => entry.average);
+  const bests = series.flatMap(entry => entry.best === undefined ? [] : [entry.best]);
+  const minValue = Math.min(...values, ...bests);
+  const maxValue = Math.max(...values, ...bests);
+  const firstTime = series[0].day;
+  const lastTime = series[series.length - 1].day;
+  const x = (time: number) => lastTime === firstTime
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + ((time - firstTime) / (lastTime - firstTime)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (value: number) => maxValue === minValue
+    ? CHART_HEIGHT / 2
+    : CHART_HEIGHT - CHART_PADDING - ((value - minValue) / (maxValue - minValue)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const line = (ys: number[]) => ys.map((value, i) => `${x(series[i].day)},${y(value)}`).join(' ');
+
+  const latest = rolling[rolling.length - 1];
+  const change = latest - rolling[Math.min(ROLLING_WINDOW, rolling.length) - 1];
+  const improved = metric.lowerIsBetter ? change < 0 : change > 0;
+
+  return (
+    <div className="bg-gray-700/50 rounded-lg p-3">
+      <div className="flex justify-between items-baseline mb-2 text-sm">
+        <span className="font-semibold">{metric.label}</span>
+        <span className="text-xs text-gray-400">
+          Best <span className="text-yellow-400">{best !== undefined ? formatValue(best, metric.unit) : '-'}</span>
+          {' '}• Avg of last {Math.min(ROLLING_WINDOW, series.length)} days{' '}
+          <span className="text-white">{formatValue(latest, metric.unit)}</span>
+          {series.length > ROLLING_WINDOW && change !== 0 && (
+            <span className={improved ? 'text-green-400' : 'text-red-400'}>
+              {' '}({change > 0 ? '+' : ''}{formatValue(change, metric.unit)})
+            </span>
+          )}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32">
+        <polyline points={line(values)} fill="none" stroke={metric.color} strokeOpacity={0.35} strokeWidth={1.5} />
+        <polyline points={line(rolling)} fill="none" stroke={metric.color} strokeWidth={2.5} />
+        {series.map((entry, i) => personalBests.has(i) && entry.best !== undefined && (
+          <circle key={i} cx={x(entry.day)} cy={y(entry.best)} r={4} fill="#facc15">
+            <title>
+              Personal best {formatValue(entry.best, metric.unit)} on {new Date(entry.day).toLocaleDateString()}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{new Date(firstTime).toLocaleDateString()}</span>
+        <span>{new Date(lastTime).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
+
+const ProgressHistory: React.FC<ProgressHistoryProps> = ({ gameMode, modeName, settings }) => {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [matchSettings, setMatchSettings] = useState(false);
+
+  const { results: days, status, loadMore } = usePaginatedQuery(
+    api.history.listHistory,
+    {
+      gameMode,
+      settings: matchSettings
+        ? { targetSize: settings.targetSize, targetSpeed: settings.targetSpeed, gameTime: settings.gameTime }
+        : undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00`).getTime() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+    },
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  // Trends are over the whole range, so keep fetching until every day is in.
+  // There is at most one point per day played, however many sessions it had.
+  useEffect(() => {
+    if (status === 'CanLoadMore') loadMore(PAGE_SIZE);
+  }, [status, loadMore]);
+
+  const sessionCount = days.reduce((sum, day) => sum + day.sessions, 0);
+
+  const applyPreset = (days: number | null) => {
+    setFromDate(days === null ? '' : toDateInput(Date.now() - days * DAY_MS));
+    setToDate('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-lg font-semibold">
+          Progress <span className="text-sm text-gray-400">({modeName})</span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          {RANGE_PRESETS.map(preset => (
+            <button
+              key={preset.days}
+              onClick={() => applyPreset(preset.days)}
+              className="px-2 py-1 rounded font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            onClick={() => applyPreset(null)}
+            className="px-2 py-1 rounded font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600"
+          >
+            All Time
+          </button>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-2 py-1 rounded bg-gray-700 text-white"
+          />
+          <span className="text-gray-400">to</span>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-2 py-1 rounded bg-gray-700 text-white"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs text-gray-400 mb-3">
+        <input
+          type="checkbox"
+          checked={matchSettings}
+          onChange={(e) => setMatchSettings(e.target.checked)}
+          className="w-3 h-3"
+        />
+        <span>
+          Only my settings ({settings.targetSize}px • {settings.targetSpeed}ms • {settings.gameTime}s)
+        </span>
+      </label>
+
+      {status === 'LoadingFirstPage' ? (
+        <div className="text-center text-sm text-gray-400 py-4">Loading...</div>
+      ) : days.length === 0 ? (
+        <div className="text-center text-sm text-gray-400 py-4">No sessions in this range</div>
+      ) : (
+        <>
+          <div className="text-xs text-gray-400 mb-3">
+            {sessionCount} session{sessionCount === 1 ? '' : 's'} over {days.length} day{days.length === 1 ? '' : 's'}
+            {status === 'LoadingMore' && ' (loading more...)'}
+            {' '}• Thin lines are daily averages, thick lines {ROLLING_WINDOW}-day rolling averages, dots mark
+            personal bests
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {METRICS.map(metric => (
+              <MetricChart key={metric.label} metric={metric} days={days} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProgressHistory;
@@ -0,0 +1,28 @@
+import React from 'react';
+import type { RankTier } from '../convex/skillRatings';
+
+interface RankBadgeProps {
+  tier: RankTier;
+  provisional?: boolean;
+}
+
+const TIER_STYLES: Record<RankTier, string> = {
+  Bronze: 'bg-amber-800 text-amber-100',
+  Silver: 'bg-gray-400 text-gray-900',
+  Gold: 'bg-yellow-500 text-yellow-950',
+  Platinum: 'bg-teal-400 text-teal-950',
+  Diamond: 'bg-sky-400 text-sky-950',
+  Master: 'bg-purple-500 text-white',
+  Grandmaster: 'bg-red-600 text-white',
+};
+
+const RankBadge: React.FC<RankBadgeProps> = ({ tier, provisional }) => (
+  <span
+    className={`inline-block px-2 py-0.5 rounded text-xs font-bold ${TIER_STYLES[tier]} ${provisional ? 'opacity-60' : ''}`}
+    title={provisional ? 'Provisional: play more rated sessions to settle your rank' : undefined}
+  >
+    {tier}{provisional && '?'}
+  </span>
+);
+
+export default RankBadge;
@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import type { Id } from '../convex/_generated/dataModel';
+import { drawGame, drawWall } from './drawGame';
+import { TICK_MS, createReplayTimeline } from './engine/sessionLog';
+
+interface ReplayViewerProps {
+  replayId: Id<'sessionReplays'>;
+  onClose: () => void;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+// How much of the cursor's path stays visible behind it
+const TRAIL_MS = 1000;
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replayId, onClose }) => {
+  const replay = useQuery(api.replays.getReplay, { replayId });
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timeRef = useRef(0);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const timeline = useMemo(
+    () => replay?.scenario ? createReplayTimeline({ scenario: replay.scenario, settings: replay.settings }, replay.log) : null,
+    [replay],
+  );
+
+  const seek = (next: number) => {
+    timeRef.current = next;
+    setTime(next);
+  };
+
+  // Advance the clock by real time scaled by the playback speed
+  useEffect(() => {
+    if (!isPlaying || !timeline) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      seek(Math.min(timeline.duration, timeRef.current + (now - last) * speed));
+      last = now;
+      if (timeRef.current >= timeline.duration) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, timeline]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !timeline || !replay) return;
+
+    const game = timeline.stateAt(time);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // The whole play field is shown flat, even for first-person sessions, so
+    // the cursor path can be followed
+    const scale = Math.min(canvas.width / game.bounds.width, canvas.height / game.bounds.height);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    const toScreen = (x: number, y: number) => ({ x, y, scale: 1 });
+    if (game.settings.fov !== undefined) {
+      drawWall(ctx, toScreen, game.bounds);
+    }
+    drawGame(ctx, game, toScreen);
+
+    // Cursor path over the last moment, fading out behind the cursor
+    const trail = replay.log.cursors.filter(([t]) => t <= time && t > time - TRAIL_MS);
+    ctx.lineWidth = 2 / scale;
+    for (let i = 1; i < trail.length; i++) {
+      const opacity = 1 - (time - trail[i][0]) / TRAIL_MS;
+      ctx.strokeStyle = `rgba(250, 204, 21, ${opacity})`;
+      ctx.beginPath();
+      ctx.moveTo(trail[i - 1][1], trail[i - 1][2]);
+      ctx.lineTo(trail[i][1], trail[i][2]);
+      ctx.stroke();
+    }
+    const cursor = trail[trail.length - 1];
+    if (cursor) {
+      ctx.fillStyle = cursor[3] === 1 ? 'rgba(250, 204, 21, 1)' : 'rgba(255, 255, 255, 0.9)';
+      ctx.beginPath();
+      ctx.arc(cursor[1], cursor[2], 4 / scale, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+
+    // Clicks in the same window, so a flick can be traced to where it fired
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    for (const [t, x, y] of replay.log.shots) {
+      if (t > time || t <= time - TRAIL_MS) continue;
+      ctx.beginPath();
+      ctx.arc(x, y, 6 / scale, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+  }, [time, timeline, replay]);
+
+  const togglePlaying = () => {
+    if (!timeline) return;
+    if (!isPlaying && time >= timeline.duration) seek(0);
+    setIsPlaying(prev => !prev);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">
+          Replay
+          {replay && (
+            <span className="text-sm text-gray-400 ml-2">
+              {replay.scenario?.name ?? 'Deleted scenario'} • Score {replay.score} • {replay.accuracy.toFixed(1)}% •{' '}
+              {new Date(replay.playedAt).toLocaleString()}
+            </span>
+          )}
+        </h3>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">Close</button>
+      </div>
+
+      {replay === undefined ? (
+        <div className="text-center text-sm text-gray-400 py-8">Loading...</div>
+      ) : replay === null ? (
+        <div className="text-center text-sm text-gray-400 py-8">This replay is not available</div>
+      ) : !timeline ? (
+        <div className="text-center text-sm text-gray-400 py-8">
+          The scenario this session was played in has been deleted, so it can't be replayed
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-center">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="border-2 border-gray-600 rounded-lg max-w-full"
+            />
+          </div>
+          <div className="flex items-center space-x-4 mt-4">
+            <button
+              onClick={togglePlaying}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold w-20"
+            >
+              {isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <input
+              type="range"
+              min="0"
+              max={timeline.duration}
+              step={TICK_MS}
+              value={time}
+              onChange={(e) => seek(parseFloat(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-sm text-gray-400 w-32 text-right">
+              {formatTime(time)} / {formatTime(timeline.duration)}
+            </span>
+            <div className="flex space-x-1">
+              {SPEEDS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setSpeed(option)}
+                  className={`px-2 py-1 rounded text-xs font-semibold ${
+                    speed === option ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {option}x
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import { BUILT_IN_SCENARIOS, toScenarioDefinition, validateScenario } from './engine/scenarios';
+import type { BodyZone, ScenarioDefinition, ScoringRule } from './engine/types';
+
+export interface ScenarioDraft {
+  scenarioId?: Id<'scenarios'>;
+  name: string;
+  description: string;
+  definition: ScenarioDefinition;
+}
+
+interface ScenarioEditorProps {
+  draft: ScenarioDraft;
+  onSaved: (scenarioId: Id<'scenarios'>) => void;
+  onClose: () => void;
+}
+
+// Defaults for the optional parts of a definition, taken from the built-in scenarios
+const getBuiltIn = (id: string) => BUILT_IN_SCENARIOS.find(scenario => scenario.id === id)!;
+const DEFAULT_LIFETIME = { offset: 0, min: 0 };
+const DEFAULT_VELOCITY = getBuiltIn('speed').velocity!;
+const DEFAULT_STEERING = getBuiltIn('tracking').steering!;
+const DEFAULT_SHRINK = getBuiltIn('precision').shrink!;
+const DEFAULT_HUMANOID = getBuiltIn('humanoid').humanoid!;
+const BODY_ZONES: { zone: BodyZone; label: string }[] = [
+  { zone: 'head', label: 'Head' },
+  { zone: 'body', label: 'Body' },
+  { zone: 'legs', label: 'Legs' },
+];
+const DEFAULT_SCORING: Record<ScoringRule['type'], ScoringRule> = {
+  linear: getBuiltIn('classic').scoring,
+  tiered: getBuiltIn('precision').scoring,
+  tracking: getBuiltIn('tracking').scoring,
+};
+
+const formatTiers = (scoring: ScoringRule) =>
+  scoring.type === 'tiered' ? scoring.tiers.map(tier => `${tier.within}:${tier.points}`).join(', ') : '';
+
+const parseTiers = (text: string) =>
+  text
+    .split(',')
+    .filter(part => part.trim())
+    .map(part => {
+      const [within, points] = part.split(':').map(value => parseFloat(value));
+      return { within, points };
+    });
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  disabled?: boolean;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step = 1, disabled }) => (
+  <label className="block">
+    <span className="block text-xs text-gray-400 mb-1">{label}</span>
+    <input
+      type="number"
+      step={step}
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      disabled={disabled}
+      className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm disabled:opacity-50"
+    />
+  </label>
+);
+
+interface ToggleProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ label, checked, onChange }) => (
+  <label className="flex items-center space-x-2 text-sm font-medium mb-2">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="w-4 h-4" />
+    <span>{label}</span>
+  </label>
+);
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ draft, onSaved, onClose }) => {
+  const saveScenario = useMutation(api.scenarios.saveScenario);
+  const [name, setName] = useState(draft.name);
+  const [description, setDescription] = useState(draft.description);
+  const [definition, setDefinition] = useState<ScenarioDefinition>(draft.definition);
+  const [tiersText, setTiersText] = useState(formatTiers(draft.definition.scoring));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<ScenarioDefinition>) => setDefinition(prev => ({ ...prev, ...changes }));
+  const problem = !name.trim() ? 'Give the scenario a name' : validateScenario(definition);
+  const { lifetime, size, velocity, steering, shrink, humanoid, scoring } = definition;
+
+  const changeScoringType = (type: ScoringRule['type']) => {
+    update({ scoring: DEFAULT_SCORING[type] });
+    setTiersText(formatTiers(DEFAULT_SCORING[type]));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const scenarioId = await saveScenario({
+        scenarioId: draft.scenarioId,
+        name,
+        description,
+        definition: toScenarioDefinition(definition),
+      });
+      toast.success(`Saved scenario "${name.trim()}"`);
+      onSaved(scenarioId);
+    } catch (error) {
+      console.error('Failed to save scenario:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save scenario');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">{draft.scenarioId ? 'Edit Scenario' : 'New Scenario'}</h3>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">Close</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Name</span>
+          <input
+            type="text"
+            value={name}
+            maxLength={40}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+          />
+        </label>
+        <label className="block md:col-span-2">
+          <span className="block text-xs text-gray-400 mb-1">Description</span>
+          <input
+            type="text"
+            value={description}
+            maxLength={200}
+            onChange={(e) => setDescription(e.target.value)}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <NumberField label="Max targets" value={definition.maxTargets} onChange={(maxTargets) => update({ maxTargets })} />
+        <NumberField label="Spawn every (ms)" value={definition.spawnRate} step={100} onChange={(spawnRate) => update({ spawnRate })} />
+        <NumberField label="Miss penalty" value={definition.missPenalty} onChange={(missPenalty) => update({ missPenalty })} />
+        <div>
+          <Toggle
+            label="Fixed duration"
+            checked={definition.duration !== null}
+            onChange={(checked) => update({ duration: checked ? 30 : null })}
+          />
+          {definition.duration !== null && (
+            <NumberField label="Seconds" value={definition.duration} step={5} onChange={(duration) => update({ duration })} />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <div className="text-sm font-medium mb-2">Size (relative to the Target Size setting)</div>
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Offset (px)" value={size.offset} onChange={(offset) => update({ size: { ...size, offset } })} />
+            <NumberField label="Random ± (px)" value={size.jitter} onChange={(jitter) => update({ size: { ...size, jitter } })} />
+            <NumberField label="Minimum (px)" value={size.min} onChange={(min) => update({ size: { ...size, min } })} />
+          </div>
+        </div>
+
+        <div>
+          <Toggle
+            label="Targets expire (relative to the Target Speed setting)"
+            checked={lifetime !== null}
+            onChange={(checked) => update({ lifetime: checked ? DEFAULT_LIFETIME : null, shrink: checked ? shrink : null })}
+          />
+          {lifetime && (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Offset (ms)" value={lifetime.offset} step={100} onChange={(offset) => update({ lifetime: { ...lifetime, offset } })} />
+              <NumberField label="Minimum (ms)" value={lifetime.min} step={100} onChange={(min) => update({ lifetime: { ...lifetime, min } })} />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Toggle
+            label="Moving targets"
+            checked={velocity !== null}
+            onChange={(checked) => update({ velocity: checked ? DEFAULT_VELOCITY : null, steering: checked ? steering : null })}
+          />
+          {velocity && (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Min speed (px/s)" value={velocity.min} step={10} onChange={(min) => update({ velocity: { ...velocity, min } })} />
+              <NumberField label="Max speed (px/s)" value={velocity.max} step={10} onChange={(max) => update({ velocity: { ...velocity, max } })} />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Toggle
+            label="Targets change direction"
+            checked={steering !== null}
+            onChange={(checked) => update({
+              steering: checked ? DEFAULT_STEERING : null,
+              velocity: checked ? velocity ?? DEFAULT_VELOCITY : velocity,
+            })}
+          />
+          {steering && (
+            <div className="grid grid-cols-3 gap-2">
+              <NumberField label="Turn after min (ms)" value={steering.turn.min} step={100} onChange={(min) => update({ steering: { ...steering, turn: { ...steering.turn, min } } })} />
+              <NumberField label="Turn after max (ms)" value={steering.turn.max} step={100} onChange={(max) => update({ steering: { ...steering, turn: { ...steering.turn, max } } })} />
+              <NumberField label="Easing (ms)" value={steering.easeMs} step={50} onChange={(easeMs) => update({ steering: { ...steering, easeMs } })} />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Toggle
+            label="Targets shrink over their lifetime"
+            checked={shrink !== null}
+            onChange={(checked) => update({
+              shrink: checked ? DEFAULT_SHRINK : null,
+              lifetime: checked ? lifetime ?? DEFAULT_LIFETIME : lifetime,
+            })}
+          />
+          {shrink && (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="End scale" value={shrink.endScale} step={0.05} onChange={(endScale) => update({ shrink: { ...shrink, endScale } })} />
+              <NumberField label="Curve power" value={shrink.power} step={0.1} onChange={(power) => update({ shrink: { ...shrink, power } })} />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Toggle
+            label="Humanoid targets with head, body and legs"
+            checked={humanoid !== undefined}
+            onChange={(checked) => update({ humanoid: checked ? DEFAULT_HUMANOID : undefined })}
+          />
+          {humanoid && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="col-span-2">
+                <NumberField label="Health" value={humanoid.health} onChange={(health) => update({ humanoid: { ...humanoid, health } })} />
+              </div>
+              {BODY_ZONES.map(({ zone, label }) => (
+                <React.Fragment key={zone}>
+                  <NumberField
+                    label={`${label} damage`}
+                    value={humanoid.zones[zone].damage}
+                    onChange={(damage) => update({
+                      humanoid: { ...humanoid, zones: { ...humanoid.zones, [zone]: { ...humanoid.zones[zone], damage } } },
+                    })}
+                  />
+                  <NumberField
+                    label={`${label} multiplier`}
+                    value={humanoid.zones[zone].multiplier}
+                    step={0.25}
+                    onChange={(multiplier) => update({
+                      humanoid: { ...humanoid, zones: { ...humanoid.zones, [zone]: { ...humanoid.zones[zone], multiplier } } },
+                    })}
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            Scoring{' '}
+            <select
+              value={scoring.type}
+              onChange={(e) => changeScoringType(e.target.value as ScoringRule['type'])}
+              className="ml-2 px-2 py-1 rounded bg-gray-700 text-white text-sm"
+            >
+              <option value="linear">Faster is better</option>
+              <option value="tiered">Reaction time tiers</option>
+              <option value="tracking">Tracking (time on target)</option>
+            </select>
+          </label>
+          {scoring.type === 'linear' && (
+            <div className="grid grid-cols-3 gap-2">
+              <NumberField label="Base points" value={scoring.base} onChange={(base) => update({ scoring: { ...scoring, base } })} />
+              <NumberField label="-1 point per (ms)" value={scoring.decayMs} onChange={(decayMs) => update({ scoring: { ...scoring, decayMs } })} />
+              <NumberField label="Minimum points" value={scoring.minimum} onChange={(minimum) => update({ scoring: { ...scoring, minimum } })} />
+            </div>
+          )}
+          {scoring.type === 'tiered' && (
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block col-span-2">
+                <span className="block text-xs text-gray-400 mb-1">Tiers (under ms:points, ...)</span>
+                <input
+                  type="text"
+                  value={tiersText}
+                  onChange={(e) => {
+                    setTiersText(e.target.value);
+                    update({ scoring: { ...scoring, tiers: parseTiers(e.target.value) } });
+                  }}
+                  className="w-full px-2 py-1 rounded bg-gray-700 text-white text-sm"
+                />
+              </label>
+              <NumberField label="Otherwise" value={scoring.otherwise} onChange={(otherwise) => update({ scoring: { ...scoring, otherwise } })} />
+            </div>
+          )}
+          {scoring.type === 'tracking' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Points per second" value={scoring.perSecond} onChange={(perSecond) => update({ scoring: { ...scoring, perSecond } })} />
+              <NumberField label="Center bonus per second" value={scoring.centerBonus} onChange={(centerBonus) => update({ scoring: { ...scoring, centerBonus } })} />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <NumberField label="Moving target bonus" value={scoring.movingBonus} onChange={(movingBonus) => update({ scoring: { ...scoring, movingBonus } })} />
+              <NumberField label="Bonus per px smaller" value={scoring.sizeBonus} onChange={(sizeBonus) => update({ scoring: { ...scoring, sizeBonus } })} />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-red-400">{problem}</span>
+        <button
+          onClick={() => void handleSave()}
+          disabled={problem !== null || isSaving}
+          className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Scenario'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
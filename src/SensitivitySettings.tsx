@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import {
+  BUILT_IN_GAMES,
+  CM_PER_INCH,
+  MAX_DPI,
+  MIN_DPI,
+  createCustomGameId,
+  getCmPer360,
+  getGames,
+  getProfileGame,
+  sensitivityForCmPer360,
+  validateSensitivityProfile,
+  type SensitivityProfile,
+} from './engine/sensitivity';
+
+interface SensitivitySettingsProps {
+  profile: SensitivityProfile;
+  onChange: (profile: SensitivityProfile) => void;
+}
+
+const SensitivitySettings: React.FC<SensitivitySettingsProps> = ({ profile, onChange }) => {
+  const saveProfile = useMutation(api.sensitivityProfiles.saveProfile);
+  const [customName, setCustomName] = useState('');
+  const [customYaw, setCustomYaw] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cmPer360 = getCmPer360(profile);
+  const isCustomGame = !BUILT_IN_GAMES.some(game => game.id === profile.game);
+
+  const addCustomGame = () => {
+    const yaw = parseFloat(customYaw);
+    const game = { id: createCustomGameId(customName), name: customName.trim(), yaw };
+    const next = { ...profile, game: game.id, customGames: [...profile.customGames, game] };
+    const problem = validateSensitivityProfile(next);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    onChange(next);
+    setCustomName('');
+    setCustomYaw('');
+  };
+
+  const removeCustomGame = (id: string) => {
+    onChange({
+      ...profile,
+      game: profile.game === id ? BUILT_IN_GAMES[0].id : profile.game,
+      customGames: profile.customGames.filter(game => game.id !== id),
+    });
+  };
+
+  const handleSave = async () => {
+    const problem = validateSensitivityProfile(profile);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveProfile(profile);
+      toast.success('Sensitivity profile saved');
+    } catch (error) {
+      console.error('Failed to save sensitivity profile:', error);
+      toast.error('Failed to save sensitivity profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Mouse DPI</label>
+          <input
+            type="number"
+            min={MIN_DPI}
+            max={MAX_DPI}
+            step="50"
+            value={profile.dpi}
+            onChange={(e) => onChange({ ...profile, dpi: parseInt(e.target.value) || profile.dpi })}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Source Game</label>
+          <select
+            value={getProfileGame(profile).id}
+            onChange={(e) => onChange({ ...profile, game: e.target.value })}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white"
+          >
+            {getGames(profile).map(game => (
+              <option key={game.id} value={game.id}>{game.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">In-game Sensitivity</label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={profile.sensitivity}
+            onChange={(e) => onChange({ ...profile, sensitivity: parseFloat(e.target.value) || profile.sensitivity })}
+            className="w-full px-2 py-1 rounded bg-gray-700 text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Turn Distance</label>
+          <div className="text-2xl font-bold text-red-400">{cmPer360.toFixed(1)} cm/360</div>
+          <div className="text-xs text-gray-400">{(cmPer360 / CM_PER_INCH).toFixed(1)} in/360</div>
+        </div>
+      </div>
+
+      <details className="mt-3">
+        <summary className="text-sm text-gray-400 cursor-pointer">Converter and custom games</summary>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400 text-left">
+                <th className="py-1">Game</th>
+                <th className="py-1 text-right">Yaw</th>
+                <th className="py-1 text-right">Sensitivity at {profile.dpi} DPI</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {getGames(profile).map(game => (
+                <tr key={game.id} className={game.id === profile.game ? 'text-yellow-400' : 'text-gray-200'}>
+                  <td className="py-1">{game.name}</td>
+                  <td className="py-1 text-right">{game.yaw}</td>
+                  <td className="py-1 text-right font-semibold">
+                    {sensitivityForCmPer360(cmPer360, profile.dpi, game.yaw).toFixed(3)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {profile.customGames.some(custom => custom.id === game.id) && (
+                      <button
+                        onClick={() => removeCustomGame(game.id)}
+                        className="text-xs text-gray-400 hover:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <div className="text-sm font-medium mb-2">Add a game by its yaw (degrees per count)</div>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                placeholder="Game name"
+                value={customName}
+                onChange={(e) => setCustomName(e.target.value)}
+                className="flex-1 px-2 py-1 rounded bg-gray-700 text-white"
+              />
+              <input
+                type="number"
+                placeholder="0.022"
+                step="0.0001"
+                value={customYaw}
+                onChange={(e) => setCustomYaw(e.target.value)}
+                className="w-24 px-2 py-1 rounded bg-gray-700 text-white"
+              />
+              <button
+                onClick={addCustomGame}
+                disabled={!customName.trim() || !customYaw}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+            {isCustomGame && (
+              <div className="text-xs text-gray-400 mt-2">Training with a custom yaw of {getProfileGame(profile).yaw}</div>
+            )}
+          </div>
+        </div>
+      </details>
+
+      <button
+        onClick={() => void handleSave()}
+        disabled={isSaving}
+        className="mt-3 px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Save Sensitivity Profile'}
+      </button>
+    </div>
+  );
+};
+
+export default SensitivitySettings;
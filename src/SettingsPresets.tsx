@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+
+// The part of the Settings panel that is stored per account and in presets
+export interface TrainingSettings {
+  targetSize: number;
+  targetSpeed: number;
+  gameTime: number;
+  holdToTrack: boolean;
+  firstPerson: boolean;
+  fov: number;
+  soundEnabled: boolean;
+  soundVolume: number;
+  adaptive: boolean;
+  // Share of targets adaptive difficulty aims to have the player hit
+  successRate: number;
+}
+
+interface SettingsPresetsProps {
+  settings: TrainingSettings;
+  // Presets saved before a setting existed don't have it
+  onLoad: (settings: Partial<TrainingSettings>) => void;
+}
+
+const SettingsPresets: React.FC<SettingsPresetsProps> = ({ settings, onLoad }) => {
+  const presets = useQuery(api.userSettings.listPresets);
+  const savePreset = useMutation(api.userSettings.savePreset);
+  const deletePreset = useMutation(api.userSettings.deletePreset);
+  const [name, setName] = useState('');
+
+  const handleSave = async () => {
+    try {
+      await savePreset({ name, settings });
+      toast.success(`Saved preset "${name.trim()}"`);
+      setName('');
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      toast.error('Failed to save preset');
+    }
+  };
+
+  const handleDelete = async (presetId: Id<'settingsPresets'>) => {
+    try {
+      await deletePreset({ presetId });
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      toast.error('Failed to delete preset');
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium mb-2">Presets</label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {presets?.length === 0 && (
+          <span className="text-sm text-gray-400">No presets yet</span>
+        )}
+        {presets?.map(preset => (
+          <div key={preset._id} className="flex items-center bg-gray-700 rounded">
+            <button
+              onClick={() => onLoad(preset.settings)}
+              className="px-3 py-1 text-sm hover:bg-gray-600 rounded-l"
+              title={`${preset.settings.targetSize}px • ${preset.settings.targetSpeed}ms • ${preset.settings.gameTime}s`}
+            >
+              {preset.name}
+            </button>
+            <button
+              onClick={() => void handleDelete(preset._id)}
+              className="px-2 py-1 text-sm text-gray-400 hover:text-red-400"
+              aria-label={`Delete ${preset.name}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          placeholder="Preset name, e.g. Warmup"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={40}
+          className="flex-1 px-2 py-1 rounded bg-gray-700 text-white text-sm"
+        />
+        <button
+          onClick={() => void handleSave()}
+          disabled={!name.trim()}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50"
+        >
+          Save Current
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPresets;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import RankBadge from './RankBadge';
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 60;
+
+const SkillRating: React.FC = () => {
+  const rating = useQuery(api.skillRatings.getMyRating);
+
+  if (rating === undefined) return null;
+  if (rating === null) {
+    return (
+      <div className="mt-4 pt-4 border-t border-gray-700 text-sm text-gray-400 text-center">
+        Your skill rating appears once you play a scenario and settings combination with enough results to compare against
+      </div>
+    );
+  }
+
+  const ratings = rating.history.map(entry => entry.rating);
+  const min = Math.min(...ratings);
+  const max = Math.max(...ratings);
+  const line = ratings
+    .map((value, i) => {
+      const x = ratings.length > 1 ? (i / (ratings.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2;
+      const y = max === min ? CHART_HEIGHT / 2 : CHART_HEIGHT - 4 - ((value - min) / (max - min)) * (CHART_HEIGHT - 8);
+      return `${x},${y}`;
+    })
+    .join(' ');
+  const last = rating.history[rating.history.length - 1];
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-3">
+          <RankBadge tier={rating.tier} provisional={rating.provisional} />
+          <span className="text-xl font-bold">{rating.rating.toFixed(0)}</span>
+          <span className="text-sm text-gray-400">± {(rating.deviation * 2).toFixed(0)}</span>
+        </div>
+        <div className="text-xs text-gray-400 text-right">
+          {rating.ratedSessions} rated session{rating.ratedSessions === 1 ? '' : 's'}
+          {last && (
+            <div>Last session beat {(last.percentile * 100).toFixed(0)}% of players</div>
+          )}
+        </div>
+      </div>
+      {ratings.length > 1 && (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-16 mt-2" preserveAspectRatio="none">
+          <polyline points={line} fill="none" stroke="#ef4444" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default SkillRating;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import { BUILT_IN_PLANS } from './engine/plans';
+import type { Scenario } from './engine/types';
+
+interface TeamAssignmentsProps {
+  teamId: Id<'teams'>;
+  members: { userId: Id<'users'>; name: string }[];
+  scenarios: Scenario[];
+}
+
+const inputClass = 'w-full px-2 py-1 rounded bg-gray-700 text-white text-sm';
+
+// Staff view: assign scenarios and plans, and see what is assigned
+const TeamAssignments: React.FC<TeamAssignmentsProps> = ({ teamId, members, scenarios }) => {
+  const assignments = useQuery(api.teams.listTeamAssignments, { teamId });
+  const customPlans = useQuery(api.trainingPlans.listMyPlans);
+  const assignWork = useMutation(api.teams.assignWork);
+  const removeAssignment = useMutation(api.teams.removeAssignment);
+  const [kind, setKind] = useState<'scenario' | 'plan'>('scenario');
+  const [scenarioId, setScenarioId] = useState('classic');
+  const [targetSize, setTargetSize] = useState(50);
+  const [targetSpeed, setTargetSpeed] = useState(2000);
+  const [gameTime, setGameTime] = useState(30);
+  const [planId, setPlanId] = useState(BUILT_IN_PLANS[0].id);
+  const [assigneeId, setAssigneeId] = useState('');
+  const [note, setNote] = useState('');
+
+  const plans = [...BUILT_IN_PLANS, ...(customPlans ?? [])];
+  const fixedDuration = scenarios.find(scenario => scenario.id === scenarioId)?.duration ?? null;
+
+  const handleAssign = async () => {
+    try {
+      await assignWork({
+        teamId,
+        assigneeId: assigneeId ? assigneeId as Id<'users'> : undefined,
+        work: kind === 'scenario'
+          ? { kind, scenarioId, settings: { targetSize, targetSpeed, gameTime: fixedDuration ?? gameTime } }
+          : { kind, planId },
+        note,
+      });
+      setNote('');
+      toast.success('Assigned');
+    } catch (error) {
+      console.error('Failed to assign work:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign work');
+    }
+  };
+
+  const handleRemove = async (assignmentId: Id<'teamAssignments'>) => {
+    try {
+      await removeAssignment({ assignmentId });
+    } catch (error) {
+      console.error('Failed to remove assignment:', error);
+      toast.error('Failed to remove assignment');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold">Assignments</h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Type</span>
+          <select value={kind} onChange={(e) => setKind(e.target.value as 'scenario' | 'plan')} className={inputClass}>
+            <option value="scenario">Scenario</option>
+            <option value="plan">Plan</option>
+          </select>
+        </label>
+        {kind === 'scenario' ? (
+          <>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Scenario</span>
+              <select value={scenarioId} onChange={(e) => setScenarioId(e.target.value)} className={inputClass}>
+                {scenarios.map(scenario => (
+                  <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Size (px)</span>
+              <input type="number" value={targetSize} onChange={(e) => setTargetSize(parseInt(e.target.value))} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Speed (ms)</span>
+              <input type="number" step={100} value={targetSpeed} onChange={(e) => setTargetSpeed(parseInt(e.target.value))} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Duration (s)</span>
+              <input
+                type="number"
+                value={fixedDuration ?? gameTime}
+                disabled={fixedDuration !== null}
+                onChange={(e) => setGameTime(parseInt(e.target.value))}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </label>
+          </>
+        ) : (
+          <label className="block md:col-span-4">
+            <span className="block text-xs text-gray-400 mb-1">Plan</span>
+            <select value={planId} onChange={(e) => setPlanId(e.target.value)} className={inputClass}>
+              {plans.map(plan => (
+                <option key={plan.id} value={plan.id}>{plan.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">For</span>
+          <select value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)} className={inputClass}>
+            <option value="">Whole team</option>
+            {members.map(member => (
+              <option key={member.userId} value={member.userId}>{member.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block col-span-2 md:col-span-5">
+          <span className="block text-xs text-gray-400 mb-1">Note</span>
+          <input type="text" value={note} maxLength={200} onChange={(e) => setNote(e.target.value)} className={inputClass} />
+        </label>
+        <button
+          onClick={() => void handleAssign()}
+          className="px-4 py-1.5 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold"
+        >
+          Assign
+        </button>
+      </div>
+
+      {assignments && assignments.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody>
+            {assignments.map(assignment => (
+              <tr key={assignment.id} className="text-gray-200">
+                <td className="py-1">
+                  {assignment.plan?.name ?? assignment.scenario?.name ?? 'Deleted'}
+                  {assignment.settings && (
+                    <span className="text-xs text-gray-400 ml-1">
+                      {assignment.settings.targetSize}px • {assignment.settings.targetSpeed}ms • {assignment.settings.gameTime}s
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-gray-400">{assignment.assigneeName ?? 'Whole team'}</td>
+                <td className="py-1 text-gray-400">{assignment.note}</td>
+                <td className="py-1 text-right">
+                  <button onClick={() => void handleRemove(assignment.id)} className="text-xs text-gray-400 hover:text-red-400">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TeamAssignments;
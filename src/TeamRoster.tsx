@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import type { Id } from '../convex/_generated/dataModel';
+import RankBadge from './RankBadge';
+import type { Scenario } from './engine/types';
+
+interface TeamRosterProps {
+  teamId: Id<'teams'>;
+  scenarios: Scenario[];
+  onWatchReplay: (replayId: Id<'sessionReplays'>) => void;
+}
+
+// Staff view: every member's numbers in one scenario, and any member's recent
+// sessions with their replays
+const TeamRoster: React.FC<TeamRosterProps> = ({ teamId, scenarios, onWatchReplay }) => {
+  const [gameMode, setGameMode] = useState('classic');
+  const [memberId, setMemberId] = useState<Id<'users'> | null>(null);
+  const roster = useQuery(api.teams.getRoster, { teamId, gameMode });
+  const sessions = useQuery(api.teams.getMemberSessions, memberId ? { teamId, userId: memberId } : 'skip');
+
+  const scenarioName = (id: string) => scenarios.find(scenario => scenario.id === id)?.name ?? 'Custom';
+  const member = roster?.find(row => row.userId === memberId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold">Roster</h4>
+        <select
+          value={gameMode}
+          onChange={(e) => setGameMode(e.target.value)}
+          className="px-2 py-1 rounded bg-gray-700 text-white text-sm"
+        >
+          {scenarios.map(scenario => (
+            <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 text-left">
+            <th className="py-1">Player</th>
+            <th className="py-1">Rank</th>
+            <th className="py-1 text-right">Sessions</th>
+            <th className="py-1 text-right">Best</th>
+            <th className="py-1 text-right">Avg score</th>
+            <th className="py-1 text-right">Avg accuracy</th>
+            <th className="py-1 text-right">Last played</th>
+          </tr>
+        </thead>
+        <tbody>
+          {roster?.map(row => (
+            <tr
+              key={row.userId}
+              onClick={() => setMemberId(row.userId === memberId ? null : row.userId)}
+              className={`cursor-pointer hover:bg-gray-700 ${row.userId === memberId ? 'bg-gray-700' : ''}`}
+            >
+              <td className="py-1">
+                {row.name}
+                {row.role !== 'member' && <span className="text-xs text-gray-400 ml-1">({row.role})</span>}
+              </td>
+              <td className="py-1">{row.tier ? <RankBadge tier={row.tier} /> : <span className="text-gray-500">-</span>}</td>
+              <td className="py-1 text-right">{row.sessions}</td>
+              <td className="py-1 text-right font-semibold">{row.sessions > 0 ? row.bestScore : '-'}</td>
+              <td className="py-1 text-right">{row.sessions > 0 ? row.averageScore.toFixed(0) : '-'}</td>
+              <td className="py-1 text-right">{row.sessions > 0 ? `${row.averageAccuracy.toFixed(1)}%` : '-'}</td>
+              <td className="py-1 text-right text-gray-400">
+                {row.lastPlayedAt > 0 ? new Date(row.lastPlayedAt).toLocaleDateString() : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {member && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Recent Sessions: {member.name}</h4>
+          {sessions && sessions.length === 0 && <p className="text-sm text-gray-400">No sessions yet</p>}
+          <table className="w-full text-sm">
+            <tbody>
+              {sessions?.map(session => (
+                <tr key={session.id} className="text-gray-200">
+                  <td className="py-1">
+                    {scenarioName(session.gameMode)}
+                    <span className="text-xs text-gray-400 ml-1">
+                      {session.settings.targetSize}px • {session.settings.targetSpeed}ms • {session.settings.gameTime}s
+                    </span>
+                    {session.flagged && <span className="text-xs text-orange-400 ml-1">(flagged)</span>}
+                  </td>
+                  <td className="py-1 text-right font-semibold">{session.score}</td>
+                  <td className="py-1 text-right">{session.accuracy.toFixed(1)}%</td>
+                  <td className="py-1 text-right text-gray-400">{new Date(session.playedAt).toLocaleDateString()}</td>
+                  <td className="py-1 text-right">
+                    {session.replayId && (
+                      <button
+                        onClick={() => session.replayId && onWatchReplay(session.replayId)}
+                        className="text-xs text-red-400 hover:text-red-300"
+                      >
+                        Replay
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamRoster;
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import TeamAssignments from './TeamAssignments';
+import Webhooks from './Webhooks';
+import TeamRoster from './TeamRoster';
+import type { TrainingPlan } from './engine/plans';
+import type { Scenario } from './engine/types';
+
+interface TeamsProps {
+  // Built-in and custom scenarios
+  scenarios: Scenario[];
+  onPlayScenario: (scenario: Scenario, settings: { targetSize: number; targetSpeed: number; gameTime: number }) => void;
+  onStartPlan: (plan: TrainingPlan) => void;
+  onWatchReplay: (replayId: Id<'sessionReplays'>) => void;
+}
+
+const inputClass = 'px-3 py-2 rounded bg-gray-700 text-white text-sm';
+
+const Teams: React.FC<TeamsProps> = ({ scenarios, onPlayScenario, onStartPlan, onWatchReplay }) => {
+  const teams = useQuery(api.teams.listMyTeams);
+  const myAssignments = useQuery(api.teams.listMyAssignments);
+  const createTeam = useMutation(api.teams.createTeam);
+  const joinTeam = useMutation(api.teams.joinTeam);
+  const [selectedId, setSelectedId] = useState<Id<'teams'> | null>(null);
+  const [newName, setNewName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+
+  const teamId = selectedId ?? teams?.[0]?.id ?? null;
+
+  const handleCreate = async () => {
+    try {
+      setSelectedId(await createTeam({ name: newName }));
+      setNewName('');
+    } catch (error) {
+      console.error('Failed to create team:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create team');
+    }
+  };
+
+  const handleJoin = async () => {
+    try {
+      setSelectedId(await joinTeam({ code: inviteCode }));
+      setInviteCode('');
+      toast.success('Joined team');
+    } catch (error) {
+      console.error('Failed to join team:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to join team');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold">Teams</h3>
+
+      {myAssignments && myAssignments.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Assigned to You</h4>
+          <div className="space-y-1 text-sm">
+            {myAssignments.map(assignment => (
+              <div key={assignment.id} className="flex justify-between items-center text-gray-200">
+                <span>
+                  {assignment.plan?.name ?? assignment.scenario?.name ?? 'Deleted'}
+                  {assignment.settings && (
+                    <span className="text-xs text-gray-400 ml-1">
+                      {assignment.settings.targetSize}px • {assignment.settings.targetSpeed}ms • {assignment.settings.gameTime}s
+                    </span>
+                  )}
+                  <span className="text-gray-400"> from {assignment.assignedByName}</span>
+                  {assignment.note && <span className="text-gray-400">: {assignment.note}</span>}
+                </span>
+                {(assignment.plan || assignment.scenario) && (
+                  <button
+                    onClick={() => {
+                      if (assignment.plan) onStartPlan(assignment.plan);
+                      else if (assignment.scenario && assignment.settings) onPlayScenario(assignment.scenario, assignment.settings);
+                    }}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-xs font-semibold"
+                  >
+                    Play
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {teams?.map(team => (
+          <button
+            key={team.id}
+            onClick={() => setSelectedId(team.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              team.id === teamId ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {team.name}
+          </button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="text"
+            value={newName}
+            maxLength={40}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New team name"
+            className={`${inputClass} w-40`}
+          />
+          <button
+            onClick={() => void handleCreate()}
+            disabled={!newName.trim()}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm disabled:opacity-50"
+          >
+            Create
+          </button>
+          <input
+            type="text"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="Invite code"
+            className={`${inputClass} w-32 uppercase`}
+          />
+          <button
+            onClick={() => void handleJoin()}
+            disabled={!inviteCode.trim()}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm disabled:opacity-50"
+          >
+            Join
+          </button>
+        </div>
+      </div>
+
+      {teamId && (
+        <TeamDashboard
+          key={teamId}
+          teamId={teamId}
+          scenarios={scenarios}
+          onWatchReplay={onWatchReplay}
+          onGone={() => setSelectedId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface TeamDashboardProps {
+  teamId: Id<'teams'>;
+  scenarios: Scenario[];
+  onWatchReplay: (replayId: Id<'sessionReplays'>) => void;
+  // Called after the user deletes or leaves the team
+  onGone: () => void;
+}
+
+const TeamDashboard: React.FC<TeamDashboardProps> = ({ teamId, scenarios, onWatchReplay, onGone }) => {
+  const team = useQuery(api.teams.getTeam, { teamId });
+  const isOwner = team?.myRole === 'owner';
+  const invites = useQuery(api.teams.listInvites, isOwner ? { teamId } : 'skip');
+  const createInvite = useMutation(api.teams.createInvite);
+  const revokeInvite = useMutation(api.teams.revokeInvite);
+  const setMemberRole = useMutation(api.teams.setMemberRole);
+  const removeMember = useMutation(api.teams.removeMember);
+  const leaveTeam = useMutation(api.teams.leaveTeam);
+  const deleteTeam = useMutation(api.teams.deleteTeam);
+  const [inviteRole, setInviteRole] = useState<'coach' | 'member'>('member');
+
+  // Wraps a team mutation with the usual error toast
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Invite code copied');
+    } catch {
+      toast.error('Could not copy the invite code');
+    }
+  };
+
+  if (!team) return null;
+  const isStaff = team.myRole !== 'member';
+
+  return (
+    <div className="space-y-6 pt-4 border-t border-gray-700">
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="font-semibold">Members</h4>
+          {isOwner ? (
+            <button
+              onClick={() => void run(async () => {
+                await deleteTeam({ teamId });
+                onGone();
+              }, 'Failed to delete team')}
+              className="text-sm text-gray-400 hover:text-red-400"
+            >
+              Delete team
+            </button>
+          ) : (
+            <button
+              onClick={() => void run(async () => {
+                await leaveTeam({ teamId });
+                onGone();
+              }, 'Failed to leave team')}
+              className="text-sm text-gray-400 hover:text-red-400"
+            >
+              Leave team
+            </button>
+          )}
+        </div>
+        <div className="space-y-1 text-sm">
+          {team.members.map(member => (
+            <div key={member.userId} className="flex justify-between items-center text-gray-200">
+              <span>{member.name}</span>
+              {isOwner && member.role !== 'owner' ? (
+                <span className="flex items-center gap-3">
+                  <select
+                    value={member.role}
+                    onChange={(e) => void run(
+                      () => setMemberRole({ teamId, userId: member.userId, role: e.target.value as 'coach' | 'member' }),
+                      'Failed to change role',
+                    )}
+                    className="px-2 py-1 rounded bg-gray-700 text-white text-xs"
+                  >
+                    <option value="member">Member</option>
+                    <option value="coach">Coach</option>
+                  </select>
+                  <button
+                    onClick={() => void run(() => removeMember({ teamId, userId: member.userId }), 'Failed to remove member')}
+                    className="text-xs text-gray-400 hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </span>
+              ) : (
+                <span className="text-xs text-gray-400 capitalize">{member.role}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isOwner && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <h4 className="font-semibold mr-auto">Invites</h4>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as 'coach' | 'member')}
+              className="px-2 py-1 rounded bg-gray-700 text-white text-sm"
+            >
+              <option value="member">Member</option>
+              <option value="coach">Coach</option>
+            </select>
+            <button
+              onClick={() => void run(() => createInvite({ teamId, role: inviteRole }), 'Failed to create invite')}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+            >
+              + Invite Code
+            </button>
+          </div>
+          <div className="space-y-1 text-sm">
+            {invites?.map(invite => (
+              <div key={invite.id} className="flex justify-between items-center text-gray-200">
+                <span>
+                  <button onClick={() => void copyCode(invite.code)} className="font-mono hover:text-red-400" title="Copy invite code">
+                    {invite.code}
+                  </button>
+                  <span className="text-xs text-gray-400 ml-2 capitalize">{invite.role}</span>
+                  <span className="text-xs text-gray-500 ml-2">
+                    expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </span>
+                </span>
+                <button
+                  onClick={() => void run(() => revokeInvite({ inviteId: invite.id }), 'Failed to revoke invite')}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isStaff && (
+        <>
+          <TeamRoster teamId={teamId} scenarios={scenarios} onWatchReplay={onWatchReplay} />
+          <TeamAssignments teamId={teamId} members={team.members} scenarios={scenarios} />
+          <Webhooks teamId={teamId} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Teams;
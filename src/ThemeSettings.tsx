@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import { drawBackground, drawTarget } from './drawGame';
+import {
+  HIT_PALETTES,
+  TARGET_STYLES,
+  THEME_PRESETS,
+  getScenarioTheme,
+  resolveTheme,
+  validateTheme,
+  type Theme,
+} from './engine/theme';
+
+interface ThemeSettingsProps {
+  scenarioId: string;
+  scenarioName: string;
+}
+
+const STYLE_LABELS: Record<Theme['targetStyle'], string> = {
+  bullseye: 'Bullseye',
+  solid: 'Solid',
+  ring: 'Hollow Ring',
+  humanoid: 'Humanoid',
+};
+
+const PALETTE_LABELS: Record<Theme['hitPalette'], string> = {
+  classic: 'Classic',
+  neon: 'Neon',
+  mono: 'Monochrome',
+};
+
+const PREVIEW_WIDTH = 360;
+const PREVIEW_HEIGHT = 120;
+
+const ThemeSettings: React.FC<ThemeSettingsProps> = ({ scenarioId, scenarioName }) => {
+  const themes = useQuery(api.themes.getMyThemes);
+  const saveTheme = useMutation(api.themes.saveTheme);
+  const deleteTheme = useMutation(api.themes.deleteTheme);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  // Unsaved edits; the saved theme shows until there are some
+  const [draft, setDraft] = useState<Theme | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasOwnTheme = themes?.some(entry => entry.scenarioId === scenarioId) ?? false;
+  const theme = draft ?? getScenarioTheme(themes, scenarioId);
+
+  // A target of each kind, then the hit effect colors and a miss
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext('2d');
+    if (!ctx) return;
+    const colors = resolveTheme(theme);
+    drawBackground(ctx, colors, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    drawTarget(ctx, colors, 50, 60, 28, colors.targets.standard, 1);
+    drawTarget(ctx, colors, 120, 60, 20, colors.targets.shrinking, 0.8);
+    drawTarget(ctx, colors, 190, 60, 24, colors.targets.onTarget, 0.9);
+
+    ctx.lineWidth = colors.effectLineWidth;
+    [colors.hit.center, colors.hit.ring, colors.hit.edge].forEach((color, index) => {
+      ctx.strokeStyle = `rgb(${color})`;
+      ctx.beginPath();
+      ctx.arc(250 + index * 28, 60, 10, 0, 2 * Math.PI);
+      ctx.stroke();
+    });
+    ctx.strokeStyle = `rgb(${colors.miss})`;
+    ctx.beginPath();
+    ctx.moveTo(330, 50);
+    ctx.lineTo(350, 70);
+    ctx.moveTo(350, 50);
+    ctx.lineTo(330, 70);
+    ctx.stroke();
+  }, [theme]);
+
+  const update = (changes: Partial<Theme>) => setDraft({ ...theme, ...changes });
+
+  // Saves for this scenario, or as the default for all others
+  const handleSave = async (forScenario: boolean) => {
+    const problem = validateTheme(theme);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveTheme({ scenarioId: forScenario ? scenarioId : undefined, theme });
+      setDraft(null);
+      toast.success(forScenario ? `Theme saved for ${scenarioName}` : 'Default theme saved');
+    } catch (error) {
+      console.error('Failed to save theme:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save theme');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUseDefault = async () => {
+    try {
+      await deleteTheme({ scenarioId });
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to reset theme:', error);
+      toast.error('Failed to reset theme');
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold">Theme</h4>
+        <span className="text-xs text-gray-400">
+          {hasOwnTheme ? `Own theme for ${scenarioName}` : 'Using the default theme'}
+          {draft && ' • unsaved changes'}
+        </span>
+      </div>
+      <div className="flex flex-col md:flex-row gap-4">
+        <canvas
+          ref={previewRef}
+          width={PREVIEW_WIDTH}
+          height={PREVIEW_HEIGHT}
+          className="rounded border border-gray-700 self-start"
+        />
+
+        <div className="flex-1 grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+          <div>
+            <label className="block font-medium mb-2">Start From</label>
+            <select
+              value=""
+              onChange={(e) => {
+                const preset = THEME_PRESETS.find(candidate => candidate.id === e.target.value);
+                if (preset) setDraft(preset.theme);
+              }}
+              className="w-full px-2 py-1 rounded bg-gray-700 text-white"
+            >
+              <option value="">Preset...</option>
+              {THEME_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block font-medium mb-2">Target Style</label>
+            <select
+              value={theme.targetStyle}
+              onChange={(e) => update({ targetStyle: e.target.value as Theme['targetStyle'] })}
+              className="w-full px-2 py-1 rounded bg-gray-700 text-white"
+            >
+              {TARGET_STYLES.map(style => (
+                <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block font-medium mb-2">Hit Effects</label>
+            <select
+              value={theme.hitPalette}
+              onChange={(e) => update({ hitPalette: e.target.value as Theme['hitPalette'] })}
+              disabled={theme.colorblindSafe}
+              className="w-full px-2 py-1 rounded bg-gray-700 text-white disabled:opacity-50"
+            >
+              {HIT_PALETTES.map(palette => (
+                <option key={palette} value={palette}>{PALETTE_LABELS[palette]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block font-medium mb-2">Background</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={theme.background}
+                onChange={(e) => update({ background: e.target.value.toLowerCase() })}
+                className="w-10 h-8 rounded bg-gray-700"
+              />
+              <label className="flex items-center gap-1 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={theme.backgroundGradient !== undefined}
+                  onChange={(e) => update({ backgroundGradient: e.target.checked ? '#000000' : undefined })}
+                />
+                Gradient
+              </label>
+              {theme.backgroundGradient !== undefined && (
+                <input
+                  type="color"
+                  value={theme.backgroundGradient}
+                  onChange={(e) => update({ backgroundGradient: e.target.value.toLowerCase() })}
+                  className="w-10 h-8 rounded bg-gray-700"
+                />
+              )}
+            </div>
+          </div>
+          <div>
+            <label className="block font-medium mb-2">Target Color</label>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={theme.targetColor === undefined}
+                  onChange={(e) => update({ targetColor: e.target.checked ? undefined : '#ef4444' })}
+                />
+                By mode
+              </label>
+              {theme.targetColor !== undefined && (
+                <input
+                  type="color"
+                  value={theme.targetColor}
+                  onChange={(e) => update({ targetColor: e.target.value.toLowerCase() })}
+                  className="w-10 h-8 rounded bg-gray-700"
+                />
+              )}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={theme.colorblindSafe}
+                onChange={(e) => update({ colorblindSafe: e.target.checked })}
+              />
+              Colorblind-safe colors
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={theme.highContrast}
+                onChange={(e) => update({ highContrast: e.target.checked })}
+              />
+              High contrast (streaming)
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => void handleSave(true)}
+          disabled={isSaving}
+          className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-sm font-semibold disabled:opacity-50"
+        >
+          Save for {scenarioName}
+        </button>
+        <button
+          onClick={() => void handleSave(false)}
+          disabled={isSaving}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50"
+        >
+          Save as Default
+        </button>
+        {hasOwnTheme && (
+          <button
+            onClick={() => void handleUseDefault()}
+            className="px-3 py-2 text-sm text-gray-400 hover:text-white"
+          >
+            Use Default Theme
+          </button>
+        )}
+        {draft && (
+          <button
+            onClick={() => setDraft(null)}
+            className="px-3 py-2 text-sm text-gray-400 hover:text-white"
+          >
+            Discard Changes
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThemeSettings;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import PlanEditor, { type PlanDraft } from './PlanEditor';
+import { BUILT_IN_PLANS, toLocalDay, type TrainingPlan } from './engine/plans';
+import { BUILT_IN_SCENARIOS } from './engine/scenarios';
+import type { Scenario } from './engine/types';
+
+interface TrainingPlansProps {
+  customScenarios: Scenario[] | undefined;
+  onStart: (plan: TrainingPlan) => void;
+}
+
+// Days of progress shown, ending today
+const PROGRESS_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m${seconds % 60 ? ` ${seconds % 60}s` : ''}` : `${seconds}s`;
+
+const getPlanLength = (plan: TrainingPlan) =>
+  plan.blocks.reduce((sum, block) => sum + block.duration, 0) + plan.restSeconds * (plan.blocks.length - 1);
+
+const TrainingPlans: React.FC<TrainingPlansProps> = ({ customScenarios, onStart }) => {
+  const customPlans = useQuery(api.trainingPlans.listMyPlans);
+  const deletePlan = useMutation(api.trainingPlans.deletePlan);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_PLANS[0].id);
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+
+  const scenarios = useMemo(() => [...BUILT_IN_SCENARIOS, ...(customScenarios ?? [])], [customScenarios]);
+  const plans = [...BUILT_IN_PLANS, ...(customPlans ?? [])];
+  const plan = plans.find(candidate => candidate.id === selectedId) ?? BUILT_IN_PLANS[0];
+  const isCustom = !BUILT_IN_PLANS.some(builtIn => builtIn.id === plan.id);
+
+  // Computed once, so the query isn't resubscribed on every render
+  const days = useMemo(
+    () => Array.from({ length: PROGRESS_DAYS }, (_, i) => toLocalDay(Date.now() - (PROGRESS_DAYS - 1 - i) * DAY_MS)),
+    [],
+  );
+  const progress = useQuery(api.trainingPlans.getPlanProgress, { planId: plan.id, days });
+
+  const scenarioName = (scenarioId: string) =>
+    scenarios.find(scenario => scenario.id === scenarioId)?.name ?? 'Missing scenario';
+
+  const startDraft = (source: TrainingPlan, planId?: Id<'trainingPlans'>) => setDraft({
+    planId,
+    name: planId ? source.name : '',
+    description: planId ? source.description : '',
+    definition: { restSeconds: source.restSeconds, blocks: source.blocks },
+  });
+
+  const handleDelete = async () => {
+    try {
+      await deletePlan({ planId: plan.id as Id<'trainingPlans'> });
+      setSelectedId(BUILT_IN_PLANS[0].id);
+    } catch (error) {
+      console.error('Failed to delete plan:', error);
+      toast.error('Failed to delete plan');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold">Training Plans</h3>
+
+      <div className="flex flex-wrap gap-2">
+        {plans.map(candidate => (
+          <button
+            key={candidate.id}
+            onClick={() => setSelectedId(candidate.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              candidate.id === plan.id ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {candidate.name}
+          </button>
+        ))}
+        <button
+          onClick={() => startDraft(plan)}
+          className="px-4 py-2 rounded-lg text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          + New from {plan.name}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <p className="text-sm text-gray-400">
+          {plan.description && `${plan.description} • `}
+          {plan.blocks.length} blocks • about {formatDuration(getPlanLength(plan))}
+        </p>
+        <div className="flex items-center gap-3 text-sm">
+          {isCustom && (
+            <>
+              <button onClick={() => startDraft(plan, plan.id as Id<'trainingPlans'>)} className="text-gray-400 hover:text-white">
+                Edit
+              </button>
+              <button onClick={() => void handleDelete()} className="text-gray-400 hover:text-red-400">Delete</button>
+            </>
+          )}
+          <button
+            onClick={() => onStart(plan)}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-semibold"
+          >
+            Start Plan
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 text-left">
+            <th className="py-1">#</th>
+            <th className="py-1">Scenario</th>
+            <th className="py-1">Settings</th>
+            <th className="py-1 text-right">Target</th>
+            <th className="py-1 text-right">Best</th>
+            {days.map(day => (
+              <th key={day} className="py-1 text-center w-10">
+                {new Date(`${day}T00:00`).toLocaleDateString(undefined, { weekday: 'short' })}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {plan.blocks.map((block, i) => (
+            <tr key={i} className="text-gray-200">
+              <td className="py-1">{i + 1}</td>
+              <td className="py-1">{scenarioName(block.scenarioId)}</td>
+              <td className="py-1 text-gray-400">
+                {block.targetSize}px • {block.targetSpeed}ms • {formatDuration(block.duration)}
+              </td>
+              <td className="py-1 text-right">{block.targetScore}</td>
+              <td className="py-1 text-right font-semibold">{progress?.bestScores[i] ?? '-'}</td>
+              {days.map((day, d) => {
+                const score = progress?.days[d].blocks[i] ?? null;
+                const passed = progress?.days[d].passed[i] ?? false;
+                return (
+                  <td
+                    key={day}
+                    className={`py-1 text-center ${passed ? 'text-green-400' : 'text-orange-400'}`}
+                    title={score !== null ? `Best ${score}` : undefined}
+                  >
+                    {score === null ? <span className="text-gray-600">·</span> : passed ? '✓' : '✗'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {draft && (
+        <PlanEditor
+          key={draft.planId ?? 'new'}
+          draft={draft}
+          scenarios={scenarios}
+          onSaved={(planId) => {
+            setDraft(null);
+            setSelectedId(planId);
+          }}
+          onClose={() => setDraft(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TrainingPlans;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { useAction, useMutation, useQuery } from 'convex/react';
+import { api } from '../convex/_generated/api';
+import { toast } from 'sonner';
+import type { Id } from '../convex/_generated/dataModel';
+import type { WebhookEvent } from '../convex/webhooks';
+
+interface WebhooksProps {
+  // A team's webhooks, fired for every member, instead of the user's own
+  teamId?: Id<'teams'>;
+}
+
+const EVENTS: { event: WebhookEvent; label: string }[] = [
+  { event: 'session.saved', label: 'Session saved' },
+  { event: 'personal_best', label: 'New personal best' },
+  { event: 'plan.completed', label: 'Plan completed' },
+];
+
+const STATUS_COLORS = {
+  pending: 'text-yellow-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const DeliveryLog: React.FC<{ webhookId: Id<'webhooks'> }> = ({ webhookId }) => {
+  const deliveries = useQuery(api.webhooks.listDeliveries, { webhookId });
+
+  if (!deliveries) return null;
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-gray-400">No deliveries yet</p>;
+  }
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-400">
+          <th className="py-1">Time</th>
+          <th className="py-1">Event</th>
+          <th className="py-1">Status</th>
+          <th className="py-1">Attempts</th>
+          <th className="py-1">Response</th>
+        </tr>
+      </thead>
+      <tbody>
+        {deliveries.map(delivery => (
+          <tr key={delivery.id} className="border-t border-gray-700">
+            <td className="py-1">{new Date(delivery.createdAt).toLocaleString()}</td>
+            <td className="py-1 font-mono">{delivery.event}</td>
+            <td className={`py-1 capitalize ${STATUS_COLORS[delivery.status]}`}>
+              {delivery.status}
+              {delivery.nextAttemptAt && (
+                <span className="text-gray-400 normal-case">
+                  {' '}• retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                </span>
+              )}
+            </td>
+            <td className="py-1">{delivery.attempts}</td>
+            <td className="py-1 text-gray-400">{delivery.error ?? delivery.responseStatus ?? '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const Webhooks: React.FC<WebhooksProps> = ({ teamId }) => {
+  const webhooks = useQuery(api.webhooks.listWebhooks, { teamId });
+  const createWebhook = useAction(api.webhooks.createWebhook);
+  const updateWebhook = useMutation(api.webhooks.updateWebhook);
+  const deleteWebhook = useMutation(api.webhooks.deleteWebhook);
+  const sendTestEvent = useMutation(api.webhooks.sendTestEvent);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['session.saved', 'personal_best']);
+  const [isCreating, setIsCreating] = useState(false);
+  const [shownSecret, setShownSecret] = useState<Id<'webhooks'> | null>(null);
+  const [openLog, setOpenLog] = useState<Id<'webhooks'> | null>(null);
+
+  // Wraps a webhook mutation with the usual error toast
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const toggle = (list: WebhookEvent[], event: WebhookEvent) =>
+    list.includes(event) ? list.filter(other => other !== event) : [...list, event];
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    await run(async () => {
+      await createWebhook({ teamId, url, events });
+      setUrl('');
+      toast.success('Webhook added');
+    }, 'Failed to add webhook');
+    setIsCreating(false);
+  };
+
+  return (
+    <div className={teamId ? 'space-y-3' : 'bg-gray-800 rounded-lg p-6 space-y-4'}>
+      {teamId ? <h4 className="font-semibold">Webhooks</h4> : <h3 className="text-lg font-semibold">Webhooks</h3>}
+      <p className="text-sm text-gray-400">
+        {teamId ? 'Events of every member' : 'Your training events'} are POSTed as JSON. Check the{' '}
+        <code>X-Webhook-Signature</code> header: <code>sha256=</code> and the HMAC-SHA256 of{' '}
+        <code>{'<X-Webhook-Timestamp>.<body>'}</code> keyed with the webhook&#39;s secret. Failed deliveries are retried
+        with backoff.
+      </p>
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="url"
+          value={url}
+          placeholder="https://example.com/hooks/aim"
+          onChange={(e) => setUrl(e.target.value)}
+          className="flex-1 min-w-[16rem] px-3 py-2 rounded bg-gray-700 text-white text-sm"
+        />
+        {EVENTS.map(({ event, label }) => (
+          <label key={event} className="flex items-center gap-1 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={events.includes(event)}
+              onChange={() => setEvents(prev => toggle(prev, event))}
+            />
+            {label}
+          </label>
+        ))}
+        <button
+          onClick={() => void handleCreate()}
+          disabled={!url.trim() || events.length === 0 || isCreating}
+          className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-semibold disabled:opacity-50"
+        >
+          Add Webhook
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {webhooks?.map(webhook => (
+          <div key={webhook.id} className="bg-gray-900 rounded p-3 space-y-2 text-sm">
+            <div className="flex flex-wrap gap-3 items-center">
+              <span className="font-mono break-all mr-auto">{webhook.url}</span>
+              <label className="flex items-center gap-1 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={webhook.active}
+                  onChange={(e) => void run(
+                    () => updateWebhook({ webhookId: webhook.id, url: webhook.url, events: webhook.events, active: e.target.checked }),
+                    'Failed to update webhook',
+                  )}
+                />
+                Active
+              </label>
+              <button
+                onClick={() => void run(async () => {
+                  await sendTestEvent({ webhookId: webhook.id });
+                  setOpenLog(webhook.id);
+                }, 'Failed to send test event')}
+                className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600"
+              >
+                Send Test Event
+              </button>
+              <button
+                onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)}
+                className="text-gray-400 hover:text-white"
+              >
+                {openLog === webhook.id ? 'Hide log' : 'Delivery log'}
+              </button>
+              <button
+                onClick={() => void run(() => deleteWebhook({ webhookId: webhook.id }), 'Failed to delete webhook')}
+                className="text-gray-400 hover:text-red-400"
+              >
+                Delete
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-3 items-center text-xs text-gray-300">
+              {EVENTS.map(({ event, label }) => (
+                <label key={event} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={webhook.events.includes(event)}
+                    disabled={webhook.events.length === 1 && webhook.events.includes(event)}
+                    onChange={() => void run(
+                      () => updateWebhook({
+                        webhookId: webhook.id,
+                        url: webhook.url,
+                        events: toggle(webhook.events, event),
+                        active: webhook.active,
+                      }),
+                      'Failed to update webhook',
+                    )}
+                  />
+                  {label}
+                </label>
+              ))}
+              <span className="ml-auto">
+                Secret:{' '}
+                {shownSecret === webhook.id ? (
+                  <code className="break-all">{webhook.secret}</code>
+                ) : (
+                  <button onClick={() => setShownSecret(webhook.id)} className="text-gray-400 hover:text-white">
+                    Show
+                  </button>
+                )}
+              </span>
+            </div>
+
+            {openLog === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Webhooks;
@@ -0,0 +1,325 @@
+import type { Crosshair } from './engine/crosshair';
+import { HUMANOID_SHAPES } from './engine/rules';
+import { isTrackingScenario } from './engine/scenarios';
+import { DEFAULT_THEME, resolveTheme, type ThemeColors } from './engine/theme';
+import type { Bounds, GameState, HitZone, RingZone } from './engine/types';
+import { projectWallPoint, type Camera } from './engine/view';
+
+// Canvas drawing shared by the live game and the replay viewer
+
+const DEFAULT_COLORS = resolveTheme(DEFAULT_THEME);
+
+// Body part hits take the colors of the rings they rank with
+const EFFECT_COLORS: Record<HitZone, RingZone> = {
+  center: 'center',
+  ring: 'ring',
+  edge: 'edge',
+  head: 'center',
+  body: 'ring',
+  legs: 'edge',
+};
+
+export type ScreenProjection = (x: number, y: number) => { x: number; y: number; scale: number } | null;
+
+// Where a point of the play field ends up on screen; unchanged outside first-person mode
+export const getScreenProjection = (game: GameState, camera: Camera, screen: Bounds): ScreenProjection => {
+  const fov = game.settings.fov;
+  return (x, y) =>
+    fov !== undefined
+      ? projectWallPoint(x, y, camera, game.bounds, screen, fov)
+      : { x, y, scale: 1 };
+};
+
+// Fills the whole canvas, with the theme's gradient if it has one
+export const drawBackground = (ctx: CanvasRenderingContext2D, colors: ThemeColors, width: number, height: number) => {
+  if (colors.backgroundGradient) {
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, colors.background);
+    gradient.addColorStop(1, colors.backgroundGradient);
+    ctx.fillStyle = gradient;
+  } else {
+    ctx.fillStyle = colors.background;
+  }
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Outline and grid of the first-person wall, so that turning the camera is visible
+export const drawWall = (
+  ctx: CanvasRenderingContext2D,
+  toScreen: ScreenProjection,
+  bounds: Bounds,
+  colors: ThemeColors = DEFAULT_COLORS,
+) => {
+  const line = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = toScreen(x1, y1);
+    const to = toScreen(x2, y2);
+    if (!from || !to) return;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  ctx.strokeStyle = `rgba(${colors.wall}, 0.25)`;
+  ctx.lineWidth = 1;
+  for (let x = 50; x < bounds.width; x += 50) line(x, 0, x, bounds.height);
+  for (let y = 50; y < bounds.height; y += 50) line(0, y, bounds.width, y);
+
+  ctx.strokeStyle = `rgba(${colors.wall}, 0.8)`;
+  ctx.lineWidth = 2;
+  line(0, 0, bounds.width, 0);
+  line(bounds.width, 0, bounds.width, bounds.height);
+  line(bounds.width, bounds.height, 0, bounds.height);
+  line(0, bounds.height, 0, 0);
+};
+
+// The outline of a humanoid target's head, upper body and legs
+const traceHumanoid = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+  const { head, body, legs } = HUMANOID_SHAPES;
+  const box = (shape: typeof body) => ctx.rect(
+    x + shape.left * radius,
+    y + shape.top * radius,
+    (shape.right - shape.left) * radius,
+    (shape.bottom - shape.top) * radius,
+  );
+  ctx.beginPath();
+  ctx.arc(x + head.x * radius, y + head.y * radius, head.radius * radius, 0, 2 * Math.PI);
+  box(body);
+  box(legs);
+};
+
+// One target in the theme's style. Round targets keep their ring zones in
+// every style and only the bullseye draws them; humanoid targets are always
+// drawn as humanoids.
+export const drawTarget = (
+  ctx: CanvasRenderingContext2D,
+  colors: ThemeColors,
+  x: number,
+  y: number,
+  radius: number,
+  color: string,
+  opacity: number,
+  style = colors.targetStyle,
+) => {
+  const circle = (r: number) => {
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, 2 * Math.PI);
+  };
+
+  if (colors.targetOutline) {
+    ctx.strokeStyle = `rgba(${colors.targetOutline}, ${opacity})`;
+    ctx.lineWidth = 3;
+    if (style === 'humanoid') {
+      traceHumanoid(ctx, x, y, radius);
+    } else {
+      circle(radius + 1.5);
+    }
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = `rgba(${color}, ${opacity})`;
+  switch (style) {
+    case 'solid':
+      circle(radius);
+      ctx.fill();
+      break;
+    case 'ring':
+      ctx.strokeStyle = ctx.fillStyle;
+      ctx.lineWidth = Math.max(3, radius * 0.2);
+      circle(radius - ctx.lineWidth / 2);
+      ctx.stroke();
+      circle(Math.max(2, radius * 0.1));
+      ctx.fill();
+      break;
+    case 'humanoid':
+      traceHumanoid(ctx, x, y, radius);
+      ctx.fill();
+      break;
+    case 'bullseye':
+      // Outer ring (edge zone)
+      circle(radius);
+      ctx.fill();
+
+      // Middle ring (ring zone)
+      ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.3})`;
+      circle(radius * 0.6);
+      ctx.fill();
+
+      // Center zone
+      ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.8})`;
+      circle(radius * 0.25);
+      ctx.fill();
+
+      // Target rings for visual clarity
+      ctx.strokeStyle = `rgba(255, 255, 255, ${opacity * 0.6})`;
+      ctx.lineWidth = 1;
+      circle(radius * 0.6);
+      ctx.stroke();
+      circle(radius * 0.25);
+      ctx.stroke();
+      break;
+  }
+};
+
+// Targets, hit effects and miss effects
+export const drawGame = (
+  ctx: CanvasRenderingContext2D,
+  game: GameState,
+  toScreen: ScreenProjection,
+  colors: ThemeColors = DEFAULT_COLORS,
+) => {
+  // Draw targets with hit zones
+  game.targets.forEach(target => {
+    const position = toScreen(target.x, target.y);
+    if (!position) return;
+    const age = game.time - target.createdAt;
+    let opacity = Math.max(colors.minTargetOpacity, 1 - (age / target.lifetime));
+    let color = colors.targets.standard;
+
+    if (isTrackingScenario(game.scenario)) {
+      // On-target color while the player is on target, so they can feel when they slip off
+      color = game.onTarget ? colors.targets.onTarget : colors.targets.offTarget;
+      opacity = 0.9;
+    } else if (target.baseSize !== undefined) {
+      const intensity = Math.max(0.5, 2 - (target.size / target.baseSize));
+      color = colors.targets.shrinking;
+      opacity = Math.min(1, opacity * intensity);
+    } else if (target.velocityX !== undefined && colors.minTargetOpacity < 1) {
+      const pulse = Math.sin(age * 0.01) * 0.2 + 0.8;
+      opacity *= pulse;
+    }
+
+    const radius = target.size / 2 * position.scale;
+    if (target.health !== undefined && game.scenario.humanoid) {
+      drawTarget(ctx, colors, position.x, position.y, radius, color, opacity, 'humanoid');
+
+      // Light up the head, where one hit does the most
+      const { head } = HUMANOID_SHAPES;
+      ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.35})`;
+      ctx.beginPath();
+      ctx.arc(position.x + head.x * radius, position.y + head.y * radius, head.radius * radius, 0, 2 * Math.PI);
+      ctx.fill();
+
+      // Health bar once the target has been hit
+      const share = target.health / game.scenario.humanoid.health;
+      if (share < 1) {
+        const top = position.y - radius - 8;
+        ctx.fillStyle = `rgba(0, 0, 0, ${opacity * 0.6})`;
+        ctx.fillRect(position.x - radius * 0.6, top, radius * 1.2, 4);
+        ctx.fillStyle = `rgba(${colors.hit.ring}, ${opacity})`;
+        ctx.fillRect(position.x - radius * 0.6, top, radius * 1.2 * share, 4);
+      }
+    } else {
+      drawTarget(ctx, colors, position.x, position.y, radius, color, opacity);
+    }
+
+    // Movement trail for speed mode
+    if (target.velocityX !== undefined && target.velocityY !== undefined) {
+      ctx.strokeStyle = `rgba(${color}, ${opacity * 0.3})`;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      const tail = toScreen(target.x - target.velocityX * 0.1, target.y - target.velocityY * 0.1);
+      if (tail) {
+        ctx.moveTo(position.x, position.y);
+        ctx.lineTo(tail.x, tail.y);
+        ctx.stroke();
+      }
+    }
+  });
+
+  // Draw hit effects
+  game.hitEffects.forEach(effect => {
+    const position = toScreen(effect.x, effect.y);
+    if (!position) return;
+    const age = game.time - effect.createdAt;
+    const progress = age / 1000; // 1 second duration
+    const opacity = Math.max(0, 1 - progress);
+    const scale = 1 + progress * 2; // Expand over time
+
+    // Color based on hit zone
+    const color = `rgba(${colors.hit[EFFECT_COLORS[effect.type]]}, ${opacity})`;
+
+    // Draw expanding circle
+    ctx.strokeStyle = color;
+    ctx.lineWidth = colors.effectLineWidth;
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, 20 * scale, 0, 2 * Math.PI);
+    ctx.stroke();
+
+    // Draw score text
+    if (progress < 0.5) {
+      ctx.fillStyle = color;
+      ctx.font = `${16 + scale * 4}px Arial`;
+      ctx.textAlign = 'center';
+      ctx.fillText(`+${effect.score}`, position.x, position.y - 30 * scale);
+    }
+  });
+
+  // Draw miss effects
+  game.missEffects.forEach(effect => {
+    const position = toScreen(effect.x, effect.y);
+    if (!position) return;
+    const age = game.time - effect.createdAt;
+    const progress = age / 1500; // 1.5 second duration
+    const opacity = Math.max(0, 1 - progress);
+
+    // An X for misses
+    ctx.strokeStyle = `rgba(${colors.miss}, ${opacity})`;
+    ctx.lineWidth = colors.effectLineWidth;
+    const size = 15;
+    ctx.beginPath();
+    ctx.moveTo(position.x - size, position.y - size);
+    ctx.lineTo(position.x + size, position.y + size);
+    ctx.moveTo(position.x + size, position.y - size);
+    ctx.lineTo(position.x - size, position.y + size);
+    ctx.stroke();
+
+    // Miss distance text
+    if (progress < 0.7) {
+      ctx.fillStyle = `rgba(${colors.missText}, ${opacity})`;
+      ctx.font = '12px Arial';
+      ctx.textAlign = 'center';
+      const angular = effect.angularDistance !== undefined ? ` / ${effect.angularDistance.toFixed(1)}°` : '';
+      ctx.fillText(`${effect.distance.toFixed(0)}px${angular} ${effect.direction}`, position.x, position.y + 25);
+    }
+  });
+};
+
+// The player's crosshair centered on (x, y). Parts are whole-pixel rectangles
+// so thin lines stay sharp; the outline goes underneath in one pass.
+export const drawCrosshair = (ctx: CanvasRenderingContext2D, crosshair: Crosshair, x: number, y: number) => {
+  const { style, color, outline, thickness, gap, length } = crosshair;
+  const cx = Math.round(x);
+  const cy = Math.round(y);
+  const half = thickness / 2;
+  const rects: [number, number, number, number][] = [];
+
+  if (style === 'cross' || style === 't') {
+    if (style === 'cross') rects.push([cx - half, cy - gap - length, thickness, length]);
+    rects.push([cx - half, cy + gap, thickness, length]);
+    rects.push([cx - gap - length, cy - half, length, thickness]);
+    rects.push([cx + gap, cy - half, length, thickness]);
+  }
+  if (crosshair.centerDot || style === 'dot') {
+    rects.push([cx - half, cy - half, thickness, thickness]);
+  }
+
+  const ring = (lineWidth: number) => {
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    ctx.arc(cx, cy, gap + length, 0, Math.PI * 2);
+    ctx.stroke();
+  };
+
+  if (outline > 0) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+    rects.forEach(([left, top, width, height]) =>
+      ctx.fillRect(left - outline, top - outline, width + outline * 2, height + outline * 2));
+    if (style === 'circle') ring(thickness + outline * 2);
+  }
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  rects.forEach(([left, top, width, height]) => ctx.fillRect(left, top, width, height));
+  if (style === 'circle') ring(thickness);
+};
@@ -0,0 +1,21 @@
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now(),
+};
+
+// A clock that only moves when told to, for tests and replays
+export const createManualClock = (start = 0) => {
+  let current = start;
+  return {
+    now: () => current,
+    advance(ms: number) {
+      current += ms;
+    },
+    set(ms: number) {
+      current = ms;
+    },
+  };
+};
@@ -0,0 +1,94 @@
+// The player's crosshair, drawn on the canvas in place of the system cursor.
+// Sizes are in canvas pixels. A crosshair travels between players as a short
+// share code that spells out every setting.
+
+export const CROSSHAIR_STYLES = ['cross', 'dot', 'circle', 't'] as const;
+
+export type CrosshairStyle = typeof CROSSHAIR_STYLES[number];
+
+export interface Crosshair {
+  style: CrosshairStyle;
+  // #rrggbb
+  color: string;
+  // Width of the dark border around every part, 0 for none
+  outline: number;
+  thickness: number;
+  // Distance from the center to where the arms, or the circle, begin
+  gap: number;
+  // Length of each arm; a circle's ring is this far out from the gap
+  length: number;
+  centerDot: boolean;
+}
+
+export const DEFAULT_CROSSHAIR: Crosshair = {
+  style: 'cross',
+  color: '#00ff00',
+  outline: 1,
+  thickness: 2,
+  gap: 3,
+  length: 7,
+  centerDot: false,
+};
+
+export const CROSSHAIR_LIMITS = {
+  outline: { min: 0, max: 3 },
+  thickness: { min: 1, max: 10 },
+  gap: { min: 0, max: 20 },
+  length: { min: 1, max: 30 },
+};
+
+const CODE_PREFIX = 'XH1';
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+// Returns a description of the first problem with the crosshair, or null if it is usable
+export const validateCrosshair = (crosshair: Crosshair): string | null => {
+  if (!CROSSHAIR_STYLES.includes(crosshair.style)) {
+    return 'Unknown crosshair style';
+  }
+  if (!COLOR_PATTERN.test(crosshair.color)) {
+    return 'Crosshair color must be a #rrggbb color';
+  }
+  for (const [key, { min, max }] of Object.entries(CROSSHAIR_LIMITS)) {
+    const value = crosshair[key as keyof typeof CROSSHAIR_LIMITS];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return `Crosshair ${key} must be a whole number from ${min} to ${max}`;
+    }
+  }
+  return null;
+};
+
+// XH1-<style>-<color>-<outline>-<thickness>-<gap>-<length>-<center dot>,
+// for example XH1-cross-00ff00-1-2-3-7-0
+export const encodeCrosshair = (crosshair: Crosshair): string =>
+  [
+    CODE_PREFIX,
+    crosshair.style,
+    crosshair.color.slice(1),
+    crosshair.outline,
+    crosshair.thickness,
+    crosshair.gap,
+    crosshair.length,
+    crosshair.centerDot ? 1 : 0,
+  ].join('-');
+
+// Reads a share code, or returns null if it is not a valid one
+export const decodeCrosshair = (code: string): Crosshair | null => {
+  const parts = code.trim().toLowerCase().split('-');
+  if (parts.length !== 8 || parts[0] !== CODE_PREFIX.toLowerCase()) {
+    return null;
+  }
+  const [, style, color, outline, thickness, gap, length, centerDot] = parts;
+  if (!/^\d+$/.test(outline + thickness + gap + length) || (centerDot !== '0' && centerDot !== '1')) {
+    return null;
+  }
+  const crosshair = {
+    style: style as CrosshairStyle,
+    color: `#${color}`,
+    outline: parseInt(outline),
+    thickness: parseInt(thickness),
+    gap: parseInt(gap),
+    length: parseInt(length),
+    centerDot: centerDot === '1',
+  };
+  return validateCrosshair(crosshair) ? null : crosshair;
+};
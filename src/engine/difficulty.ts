@@ -0,0 +1,38 @@
+import type { EngineSettings } from './types';
+
+// Adaptive difficulty scales every target from the player's settings by one
+// factor: above 1 targets spawn smaller, stay up for less time and move faster,
+// below 1 the reverse.
+export const MIN_DIFFICULTY = 0.6;
+export const MAX_DIFFICULTY = 2.5;
+export const MIN_SUCCESS_RATE = 0.5;
+export const MAX_SUCCESS_RATE = 0.95;
+
+// Hits, misses and expired targets the success rate is measured over
+export const OUTCOME_WINDOW = 10;
+// Outcomes needed before the first adjustment, so one early miss doesn't swing it
+const MIN_OUTCOMES = 4;
+// How strongly each outcome pulls the difficulty towards the success rate
+const GAIN = 0.4;
+// How much fast hits count on top of the hit rate, see adjustDifficulty
+const REACTION_WEIGHT = 0.2;
+
+// The settings targets are spawned with at a given difficulty
+export const getEffectiveSettings = (settings: EngineSettings, difficulty: number): EngineSettings =>
+  difficulty === 1
+    ? settings
+    : { ...settings, targetSize: settings.targetSize / difficulty, targetSpeed: settings.targetSpeed / difficulty };
+
+// Next difficulty after an outcome. `outcomes` holds recent [hit, reactionShare]
+// pairs, hit being 1 or 0 and reactionShare the part of the target's lifetime
+// it took to hit it (-1 when unknown). Hitting at the success rate but well
+// within lifetimes still nudges the difficulty up, and slow hits nudge it down.
+export const adjustDifficulty = (difficulty: number, outcomes: number[][], successRate: number): number => {
+  if (outcomes.length < MIN_OUTCOMES) return difficulty;
+
+  const hitRate = outcomes.reduce((sum, [hit]) => sum + hit, 0) / outcomes.length;
+  const shares = outcomes.filter(([hit, share]) => hit === 1 && share >= 0).map(([, share]) => share);
+  const reactionPressure = shares.length > 0 ? 0.5 - shares.reduce((a, b) => a + b, 0) / shares.length : 0;
+  const pressure = hitRate - successRate + REACTION_WEIGHT * reactionPressure;
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty * Math.exp(GAIN * pressure)));
+};
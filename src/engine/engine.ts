@@ -0,0 +1,495 @@
+import { OUTCOME_WINDOW, adjustDifficulty, getEffectiveSettings } from './difficulty';
+import { MAX_PATH_SAMPLES, analyzeFlick, cursorSampleAt } from './flick';
+import { createRng, type Rng } from './random';
+import { anglesToWallPoint, wallPointToAngles } from './view';
+import {
+  HIT_EFFECT_DURATION,
+  MAX_SHOWN_DELAY_MS,
+  MISS_EFFECT_DURATION,
+  analyzeShot,
+  distanceBetween,
+  findClosestTarget,
+  getBodyZone,
+  getDirectionText,
+  getHitZone,
+  getScoreForHit,
+  getScoreMultiplier,
+  getShrunkSize,
+  getSpawnMargin,
+  getTargetLifetime,
+  getTrackingPoints,
+} from './rules';
+import { isTrackingScenario } from './scenarios';
+import type {
+  FlickSummary,
+  GameConfig,
+  GameEvent,
+  GameInput,
+  GameState,
+  GameStats,
+  Range,
+  Scenario,
+  StepResult,
+  Target,
+} from './types';
+
+export const createEmptyStats = (): GameStats => ({
+  score: 0,
+  targetsHit: 0,
+  targetsMissed: 0,
+  reactionTimes: [],
+  centerHits: 0,
+  ringHits: 0,
+  edgeHits: 0,
+  headHits: 0,
+  bodyHits: 0,
+  legHits: 0,
+  totalShots: 0,
+  overshoots: 0,
+  undershoots: 0,
+  averageMissDistance: 0,
+  trackingTime: 0,
+  timeOnTarget: 0,
+  trackingPoints: 0,
+  trackingDistanceTotal: 0,
+  trackingSamples: 0,
+  flicks: 0,
+  flickTimeToMoveTotal: 0,
+  flickPeakVelocityTotal: 0,
+  flickEfficiencyTotal: 0,
+  flickCorrections: 0,
+  flickOvershoots: 0,
+});
+
+const randomBetween = (range: Range, rng: Rng) => range.min + rng.next() * (range.max - range.min);
+
+const randomVelocity = (range: Range, rng: Rng, scale: number) => {
+  const speed = randomBetween(range, rng) * scale;
+  const angle = rng.next() * 2 * Math.PI;
+  return { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+};
+
+const spawnTarget = (state: GameState, rng: Rng): Target => {
+  const { bounds, scenario } = state;
+  const settings = getEffectiveSettings(state.settings, state.difficulty);
+  const margin = getSpawnMargin(scenario, settings);
+
+  const target: Target = {
+    id: state.nextId++,
+    x: margin + rng.next() * (bounds.width - 2 * margin),
+    y: margin + rng.next() * (bounds.height - 2 * margin),
+    size: settings.targetSize,
+    createdAt: state.time,
+    lifetime: getTargetLifetime(scenario, settings),
+  };
+
+  // In first-person mode targets are placed by direction rather than by position,
+  // within the cone where the whole target is still on the wall
+  if (settings.fov !== undefined) {
+    const limit = wallPointToAngles(margin, margin, bounds, settings.fov);
+    const yaw = ((target.x - margin) / (bounds.width - 2 * margin) * 2 - 1) * Math.abs(limit.yaw);
+    const pitch = ((target.y - margin) / (bounds.height - 2 * margin) * 2 - 1) * Math.abs(limit.pitch);
+    const point = anglesToWallPoint(yaw, pitch, bounds, settings.fov);
+    target.x = point.x;
+    target.y = point.y;
+  }
+
+  const { size, velocity, steering } = scenario;
+  const jitter = size.jitter > 0 ? (rng.next() - 0.5) * size.jitter : 0;
+  target.size = Math.max(size.min, settings.targetSize + size.offset + jitter);
+  if (scenario.shrink) {
+    target.baseSize = target.size;
+  }
+  if (scenario.humanoid) {
+    target.health = scenario.humanoid.health;
+  }
+
+  if (velocity) {
+    const { x, y } = randomVelocity(velocity, rng, state.difficulty);
+    target.velocityX = x;
+    target.velocityY = y;
+    if (steering) {
+      target.desiredVelocityX = x;
+      target.desiredVelocityY = y;
+      target.turnAt = state.time + randomBetween(steering.turn, rng);
+    }
+  }
+
+  return target;
+};
+
+export const createGameState = (config: GameConfig): GameState => {
+  const state: GameState = {
+    scenario: config.scenario,
+    settings: { ...config.settings },
+    bounds: { ...config.bounds },
+    rngState: config.seed >>> 0,
+    time: 0,
+    nextId: 1,
+    sinceSpawnCheck: 0,
+    targets: [],
+    hitEffects: [],
+    missEffects: [],
+    stats: createEmptyStats(),
+    lastShot: null,
+    cursor: null,
+    cursorPath: [],
+    lastShotTime: 0,
+    difficulty: 1,
+    outcomes: [],
+    difficultyCurve: config.settings.adaptive !== undefined ? [[0, 1]] : [],
+    onTarget: false,
+    isOver: false,
+  };
+
+  // A round always opens with one target on screen
+  const rng = createRng(state.rngState);
+  state.targets.push(spawnTarget(state, rng));
+  state.rngState = rng.state;
+  return state;
+};
+
+// Feed a hit, miss or expired target to adaptive difficulty
+const recordOutcome = (state: GameState, hit: boolean, reactionShare = -1) => {
+  const { adaptive } = state.settings;
+  if (adaptive === undefined) return;
+  state.outcomes = [...state.outcomes, [hit ? 1 : 0, reactionShare]].slice(-OUTCOME_WINDOW);
+  const difficulty = adjustDifficulty(state.difficulty, state.outcomes, adaptive);
+  if (difficulty !== state.difficulty) {
+    state.difficulty = difficulty;
+    state.difficultyCurve = [...state.difficultyCurve, [state.time, difficulty]];
+  }
+};
+
+const applyShot = (state: GameState, x: number, y: number, at: number, events: GameEvent[]) => {
+  const stats = state.stats;
+  const view = state.settings.fov !== undefined ? { bounds: state.bounds, fov: state.settings.fov } : undefined;
+
+  // The flick towards whichever target the shot was aimed at started when that
+  // target appeared, or at the previous shot if that came later
+  const aimedAt = findClosestTarget(x, y, state.targets);
+  const flickStart = Math.max(aimedAt?.createdAt ?? 0, state.lastShotTime);
+  const origin = state.cursorPath.length > 0 ? cursorSampleAt(state.cursorPath, flickStart) : undefined;
+  const analysis = analyzeShot(x, y, state.targets, view, origin && { x: origin[1], y: origin[2] });
+  const flick = aimedAt && analyzeFlick(state.cursorPath, flickStart, state.time, aimedAt, x, y);
+  if (flick) {
+    analysis.flick = flick;
+    stats.flicks += 1;
+    stats.flickTimeToMoveTotal += flick.timeToMove;
+    stats.flickPeakVelocityTotal += flick.peakVelocity;
+    stats.flickEfficiencyTotal += flick.pathEfficiency;
+    stats.flickCorrections += flick.corrections;
+    if (flick.overshot) stats.flickOvershoots += 1;
+  }
+  state.lastShot = analysis;
+  state.lastShotTime = state.time;
+  // The next flick starts from wherever the cursor is now
+  state.cursorPath = state.cursorPath.slice(-1);
+
+  let hitTarget = false;
+  const { humanoid } = state.scenario;
+  const remaining: Target[] = [];
+
+  for (const target of state.targets) {
+    const distance = distanceBetween(x, y, target.x, target.y);
+    const zone = humanoid && target.health !== undefined
+      ? getBodyZone(x - target.x, y - target.y, target.size)
+      : distance <= target.size / 2 ? getHitZone(distance, target.size) : null;
+    if (!zone) {
+      remaining.push(target);
+      continue;
+    }
+
+    const reactionTime = Math.max(0, at - (target.shownAt ?? target.createdAt));
+    const points = getScoreForHit(state.scenario, reactionTime, target, state.settings);
+    let score: number;
+    let killed = true;
+    switch (zone) {
+      case 'head':
+      case 'body':
+      case 'legs': {
+        // Body zones only come from humanoid targets, which always have health
+        if (!humanoid || target.health === undefined) {
+          remaining.push(target);
+          continue;
+        }
+        // Hits pay for the health they take, so overkill on a weakened target scores nothing extra
+        const { damage, multiplier } = humanoid.zones[zone];
+        const { health } = target;
+        score = Math.floor(points * multiplier * Math.min(damage, health) / humanoid.health);
+        killed = damage >= health;
+        if (!killed) remaining.push({ ...target, health: health - damage });
+        if (zone === 'head') stats.headHits += 1;
+        else if (zone === 'body') stats.bodyHits += 1;
+        else stats.legHits += 1;
+        break;
+      }
+      case 'center':
+        score = Math.floor(points * getScoreMultiplier(zone));
+        stats.centerHits += 1;
+        break;
+      case 'ring':
+        score = Math.floor(points * getScoreMultiplier(zone));
+        stats.ringHits += 1;
+        break;
+      case 'edge':
+        score = Math.floor(points * getScoreMultiplier(zone));
+        stats.edgeHits += 1;
+        break;
+    }
+
+    hitTarget = true;
+    stats.score += score;
+    stats.targetsHit += 1;
+    stats.totalShots += 1;
+    // A reaction ends when the target goes down
+    if (killed) {
+      recordOutcome(state, true, Number.isFinite(target.lifetime) ? reactionTime / target.lifetime : -1);
+      stats.reactionTimes = [...stats.reactionTimes, reactionTime];
+    }
+
+    state.hitEffects.push({
+      id: state.nextId++,
+      x,
+      y,
+      createdAt: state.time,
+      type: zone,
+      score,
+    });
+    events.push({
+      type: 'hit',
+      targetId: target.id,
+      x,
+      y,
+      zone,
+      distance,
+      targetSize: target.size,
+      score,
+      reactionTime,
+      killed,
+    });
+  }
+  state.targets = remaining;
+
+  if (hitTarget) return;
+
+  state.missEffects.push({
+    id: state.nextId++,
+    x,
+    y,
+    createdAt: state.time,
+    distance: analysis.distance,
+    angularDistance: analysis.angularDistance,
+    direction: getDirectionText(analysis.angle),
+  });
+
+  stats.averageMissDistance =
+    (stats.averageMissDistance * stats.targetsMissed + analysis.distance) / (stats.targetsMissed + 1);
+  stats.targetsMissed += state.scenario.missPenalty;
+  stats.totalShots += 1;
+  if (analysis.direction === 'overshoot') stats.overshoots += 1;
+  if (analysis.direction === 'undershoot') stats.undershoots += 1;
+
+  recordOutcome(state, false);
+  events.push({ type: 'miss', x, y, analysis });
+};
+
+const moveTarget = (state: GameState, target: Target, dtMs: number): Target => {
+  const { bounds } = state;
+  const next = { ...target };
+
+  if (target.velocityX !== undefined && target.velocityY !== undefined) {
+    const radius = target.size / 2;
+    next.x += target.velocityX * dtMs / 1000;
+    next.y += target.velocityY * dtMs / 1000;
+
+    const { steering } = state.scenario;
+    if (steering && target.desiredVelocityX !== undefined && target.desiredVelocityY !== undefined) {
+      const blend = Math.min(1, dtMs / steering.easeMs);
+      next.velocityX = target.velocityX + (target.desiredVelocityX - target.velocityX) * blend;
+      next.velocityY = target.velocityY + (target.desiredVelocityY - target.velocityY) * blend;
+    }
+
+    // Bounce off the walls, and make sure a steering target doesn't turn straight back into them
+    if (next.x <= radius || next.x >= bounds.width - radius) {
+      next.velocityX = -target.velocityX;
+      if (next.desiredVelocityX !== undefined) next.desiredVelocityX = -next.desiredVelocityX;
+    }
+    if (next.y <= radius || next.y >= bounds.height - radius) {
+      next.velocityY = -target.velocityY;
+      if (next.desiredVelocityY !== undefined) next.desiredVelocityY = -next.desiredVelocityY;
+    }
+
+    next.x = Math.max(radius, Math.min(bounds.width - radius, next.x));
+    next.y = Math.max(radius, Math.min(bounds.height - radius, next.y));
+  }
+
+  if (target.baseSize !== undefined) {
+    next.size = getShrunkSize(state.time - target.createdAt, target.baseSize, state.scenario, target.lifetime);
+  }
+
+  return next;
+};
+
+const steerTarget = (state: GameState, target: Target, rng: Rng): Target => {
+  const { velocity, steering } = state.scenario;
+  if (!velocity || !steering || target.turnAt === undefined || state.time < target.turnAt) return target;
+  const desired = randomVelocity(velocity, rng, state.difficulty);
+  return {
+    ...target,
+    desiredVelocityX: desired.x,
+    desiredVelocityY: desired.y,
+    turnAt: state.time + randomBetween(steering.turn, rng),
+  };
+};
+
+// Score the cursor against the tracking target for the tick that just passed.
+// A cursor outside the canvas counts as off target and adds no distance sample.
+const sampleTracking = (state: GameState, dtMs: number) => {
+  const target = state.targets[0];
+  const { cursor, bounds, stats } = state;
+  state.onTarget = false;
+  if (!target) return;
+
+  stats.trackingTime += dtMs;
+  if (!cursor || cursor.x < 0 || cursor.y < 0 || cursor.x > bounds.width || cursor.y > bounds.height) return;
+
+  const distance = distanceBetween(cursor.x, cursor.y, target.x, target.y);
+  stats.trackingDistanceTotal += distance;
+  stats.trackingSamples += 1;
+
+  if (distance > target.size / 2 || (state.settings.holdToTrack && !cursor.firing)) return;
+
+  state.onTarget = true;
+  stats.timeOnTarget += dtMs;
+  stats.trackingPoints += getTrackingPoints(state.scenario, distance, target.size, dtMs);
+  stats.score = Math.floor(stats.trackingPoints);
+};
+
+// Finish a round early, e.g. when the player stops it
+export const endRound = (state: GameState): GameState => ({
+  ...state,
+  targets: [],
+  hitEffects: [],
+  missEffects: [],
+  isOver: true,
+});
+
+// Advance a round by dtMs of simulated time. Inputs are applied first, at the
+// state's current time, then targets move, expire and spawn. The previous
+// state is never mutated.
+export const step = (prev: GameState, dtMs: number, inputs: GameInput[] = []): StepResult => {
+  if (prev.isOver) return { state: prev, events: [] };
+
+  const events: GameEvent[] = [];
+  const state: GameState = {
+    ...prev,
+    bounds: { ...prev.bounds },
+    targets: [...prev.targets],
+    hitEffects: [...prev.hitEffects],
+    missEffects: [...prev.missEffects],
+    stats: { ...prev.stats },
+  };
+  const rng = createRng(state.rngState);
+  const targetCount = state.targets.length;
+  const tracking = isTrackingScenario(state.scenario);
+
+  // Resizes and cursor moves go first so that shots in the same tick always see them
+  for (const input of inputs) {
+    if (input.type === 'resize') {
+      state.bounds = { width: input.width, height: input.height };
+    } else if (input.type === 'cursor') {
+      state.cursor = { x: input.x, y: input.y, firing: input.firing };
+      if (!tracking) {
+        state.cursorPath = [...state.cursorPath, [state.time, input.x, input.y]].slice(-MAX_PATH_SAMPLES);
+      }
+    } else if (input.type === 'shown') {
+      state.targets = state.targets.map(target =>
+        target.id === input.targetId && target.shownAt === undefined &&
+        input.at >= target.createdAt && input.at - target.createdAt <= MAX_SHOWN_DELAY_MS
+          ? { ...target, shownAt: input.at }
+          : target);
+    }
+  }
+  // Tracking is scored continuously, so clicks don't count as shots there
+  for (const input of inputs) {
+    if (input.type === 'shot' && !tracking) {
+      applyShot(state, input.x, input.y, input.at ?? state.time, events);
+    }
+  }
+
+  state.time += dtMs;
+  state.targets = state.targets
+    .map(target => moveTarget(state, steerTarget(state, target, rng), dtMs))
+    .filter(target => {
+      if (state.time - target.createdAt < target.lifetime) return true;
+      state.stats.targetsMissed += 1;
+      recordOutcome(state, false);
+      events.push({ type: 'expire', targetId: target.id });
+      return false;
+    });
+
+  if (tracking) {
+    sampleTracking(state, dtMs);
+  }
+
+  state.hitEffects = state.hitEffects.filter(effect => state.time - effect.createdAt < HIT_EFFECT_DURATION);
+  state.missEffects = state.missEffects.filter(effect => state.time - effect.createdAt < MISS_EFFECT_DURATION);
+
+  if (state.time >= state.settings.gameTime * 1000) {
+    state.rngState = rng.state;
+    events.push({ type: 'end' });
+    return { state: endRound(state), events };
+  }
+
+  // The spawn timer restarts whenever the number of targets on screen changes
+  if (state.targets.length !== targetCount) {
+    state.sinceSpawnCheck = 0;
+  } else {
+    state.sinceSpawnCheck += dtMs;
+  }
+
+  const { spawnRate } = state.scenario;
+  if (state.sinceSpawnCheck >= spawnRate) {
+    state.sinceSpawnCheck -= spawnRate;
+    if (state.targets.length < state.scenario.maxTargets) {
+      const target = spawnTarget(state, rng);
+      state.targets.push(target);
+      state.sinceSpawnCheck = 0;
+      events.push({ type: 'spawn', target });
+    }
+  }
+
+  state.rngState = rng.state;
+  return { state, events };
+};
+
+export const getTimeLeft = (state: GameState): number =>
+  Math.max(0, Math.ceil((state.settings.gameTime * 1000 - state.time) / 1000));
+
+export const summarizeStats = (scenario: Scenario, stats: GameStats) => {
+  const timeOnTargetPercent = stats.trackingTime > 0 ? (stats.timeOnTarget / stats.trackingTime) * 100 : 0;
+  const averageTrackingDistance = stats.trackingSamples > 0
+    ? stats.trackingDistanceTotal / stats.trackingSamples
+    : 0;
+
+  // Tracking has no discrete hits, so accuracy is the share of time on target
+  const totalTargets = stats.targetsHit + stats.targetsMissed;
+  const accuracy = isTrackingScenario(scenario)
+    ? timeOnTargetPercent
+    : totalTargets > 0 ? (stats.targetsHit / totalTargets) * 100 : 0;
+  const averageReactionTime = stats.reactionTimes.length > 0
+    ? stats.reactionTimes.reduce((a, b) => a + b, 0) / stats.reactionTimes.length
+    : 0;
+  const flickAverage = (total: number) => (stats.flicks > 0 ? total / stats.flicks : 0);
+  const flick: FlickSummary = {
+    averageTimeToMove: flickAverage(stats.flickTimeToMoveTotal),
+    averagePeakVelocity: flickAverage(stats.flickPeakVelocityTotal),
+    averagePathEfficiency: flickAverage(stats.flickEfficiencyTotal),
+    averageCorrections: flickAverage(stats.flickCorrections),
+    overshootRate: flickAverage(stats.flickOvershoots),
+  };
+  const bodyPartHits = stats.headHits + stats.bodyHits + stats.legHits;
+  const headshotPercent = bodyPartHits > 0 ? (stats.headHits / bodyPartHits) * 100 : 0;
+  return { accuracy, averageReactionTime, timeOnTargetPercent, averageTrackingDistance, headshotPercent, flick };
+};
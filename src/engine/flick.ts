@@ -0,0 +1,92 @@
+import type { FlickMetrics } from './types';
+
+// Cursor movement smaller than this between samples is hand jitter, not a movement
+const MOVE_THRESHOLD = 2;
+// A turn sharper than this between two movements counts as a correction
+const CORRECTION_ANGLE = Math.PI / 4;
+
+// Cursor samples kept per flick; older ones are dropped
+export const MAX_PATH_SAMPLES = 1000;
+
+// Latest [time, x, y] sample at or before a time, or the first one if none is
+export const cursorSampleAt = (path: number[][], time: number) => {
+  let position = path[0];
+  for (const sample of path) {
+    if (sample[0] > time) break;
+    position = sample;
+  }
+  return position;
+};
+
+// Describe the movement that led to a shot. `path` holds [time, x, y] cursor
+// samples, `start` is when the flick began (the target spawning or the
+// previous shot, whichever was later) and the shot lands at (shotX, shotY) at
+// time `end`. Returns null when the cursor was never sampled.
+export const analyzeFlick = (
+  path: number[][],
+  start: number,
+  end: number,
+  target: { x: number; y: number; size: number },
+  shotX: number,
+  shotY: number,
+): FlickMetrics | null => {
+  if (path.length === 0) return null;
+
+  const origin = cursorSampleAt(path, start);
+  const points = [
+    [start, origin[1], origin[2]],
+    ...path.filter(([time]) => time > start && time <= end),
+    [end, shotX, shotY],
+  ];
+
+  let timeToMove: number | null = null;
+  let peakVelocity = 0;
+  let pathLength = 0;
+  let corrections = 0;
+  let lastMove: { dx: number; dy: number } | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const [time, x, y] = points[i];
+    const [prevTime, prevX, prevY] = points[i - 1];
+    const dx = x - prevX;
+    const dy = y - prevY;
+    const distance = Math.hypot(dx, dy);
+    pathLength += distance;
+
+    if (timeToMove === null && Math.hypot(x - origin[1], y - origin[2]) > MOVE_THRESHOLD) {
+      timeToMove = prevTime - start;
+    }
+    if (time > prevTime) {
+      peakVelocity = Math.max(peakVelocity, (distance / (time - prevTime)) * 1000);
+    }
+    if (distance > MOVE_THRESHOLD) {
+      if (lastMove) {
+        const cos = (dx * lastMove.dx + dy * lastMove.dy) / (distance * Math.hypot(lastMove.dx, lastMove.dy));
+        if (Math.acos(Math.max(-1, Math.min(1, cos))) > CORRECTION_ANGLE) corrections += 1;
+      }
+      lastMove = { dx, dy };
+    }
+  }
+
+  // Project every point onto the line from where the flick started to the
+  // target. Having gone past the target's far edge and then clicking closer
+  // in is an overshoot, whether or not the shot hit.
+  const axisX = target.x - origin[1];
+  const axisY = target.y - origin[2];
+  const targetDistance = Math.hypot(axisX, axisY);
+  let overshot = false;
+  if (targetDistance > target.size / 2) {
+    const along = (x: number, y: number) => ((x - origin[1]) * axisX + (y - origin[2]) * axisY) / targetDistance;
+    const farthest = Math.max(...points.map(([, x, y]) => along(x, y)));
+    overshot = farthest > targetDistance + target.size / 2 && along(shotX, shotY) < farthest - MOVE_THRESHOLD;
+  }
+
+  const straightDistance = Math.hypot(shotX - origin[1], shotY - origin[2]);
+  return {
+    timeToMove: timeToMove ?? end - start,
+    peakVelocity,
+    pathEfficiency: pathLength > 0 ? Math.min(1, straightDistance / pathLength) : 1,
+    corrections,
+    overshot,
+  };
+};
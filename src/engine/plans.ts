@@ -0,0 +1,107 @@
+// A block is one round of a scenario at fixed settings, with a score to beat
+export interface PlanBlock {
+  // A built-in scenario id or a custom scenario document id
+  scenarioId: string;
+  targetSize: number;
+  targetSpeed: number;
+  // Round length in seconds
+  duration: number;
+  targetScore: number;
+}
+
+export interface PlanDefinition {
+  // Seconds of rest between blocks
+  restSeconds: number;
+  blocks: PlanBlock[];
+}
+
+export interface TrainingPlan extends PlanDefinition {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export const MAX_PLAN_BLOCKS = 20;
+
+export const BUILT_IN_PLANS: TrainingPlan[] = [
+  {
+    id: 'warmup',
+    name: '10-Minute Warmup',
+    description: 'Big, slow targets first, then speed and control before you queue up',
+    restSeconds: 15,
+    blocks: [
+      { scenarioId: 'classic', targetSize: 70, targetSpeed: 3000, duration: 60, targetScore: 3500 },
+      { scenarioId: 'tracking', targetSize: 70, targetSpeed: 2000, duration: 60, targetScore: 6000 },
+      { scenarioId: 'classic', targetSize: 55, targetSpeed: 2500, duration: 60, targetScore: 4500 },
+      { scenarioId: 'speed', targetSize: 55, targetSpeed: 2500, duration: 60, targetScore: 6000 },
+      { scenarioId: 'precision', targetSize: 50, targetSpeed: 2000, duration: 60, targetScore: 4000 },
+      { scenarioId: 'tracking', targetSize: 50, targetSpeed: 2000, duration: 60, targetScore: 5000 },
+      { scenarioId: 'speed', targetSize: 50, targetSpeed: 2000, duration: 60, targetScore: 7000 },
+      { scenarioId: 'classic', targetSize: 45, targetSpeed: 2000, duration: 60, targetScore: 5000 },
+    ],
+  },
+  {
+    id: 'flick-fundamentals',
+    name: 'Flick Fundamentals',
+    description: 'Clean single flicks, shrinking targets and less time on each',
+    restSeconds: 20,
+    blocks: [
+      { scenarioId: 'classic', targetSize: 60, targetSpeed: 2500, duration: 45, targetScore: 3000 },
+      { scenarioId: 'classic', targetSize: 50, targetSpeed: 2000, duration: 45, targetScore: 3500 },
+      { scenarioId: 'precision', targetSize: 50, targetSpeed: 2500, duration: 60, targetScore: 4000 },
+      { scenarioId: 'classic', targetSize: 40, targetSpeed: 1500, duration: 45, targetScore: 3500 },
+      { scenarioId: 'precision', targetSize: 40, targetSpeed: 2000, duration: 60, targetScore: 3500 },
+      { scenarioId: 'speed', targetSize: 45, targetSpeed: 2000, duration: 45, targetScore: 5000 },
+    ],
+  },
+  {
+    id: 'tracking-endurance',
+    name: 'Tracking Endurance',
+    description: 'Long tracking rounds to build steady, smooth aim',
+    restSeconds: 30,
+    blocks: [
+      { scenarioId: 'tracking', targetSize: 60, targetSpeed: 2000, duration: 90, targetScore: 9000 },
+      { scenarioId: 'tracking', targetSize: 50, targetSpeed: 2000, duration: 90, targetScore: 8000 },
+      { scenarioId: 'tracking', targetSize: 40, targetSpeed: 2000, duration: 120, targetScore: 9000 },
+    ],
+  },
+];
+
+export const getBuiltInPlan = (id: string): TrainingPlan | undefined =>
+  BUILT_IN_PLANS.find(plan => plan.id === id);
+
+const inRange = (value: number, min: number, max: number) => Number.isFinite(value) && value >= min && value <= max;
+
+// Returns a description of the first problem with the plan, or null if it can
+// be played. Block settings have the same limits as the Settings panel; whether
+// each scenario exists and fits its block's duration is checked separately.
+export const validatePlan = (plan: PlanDefinition): string | null => {
+  if (plan.blocks.length === 0 || plan.blocks.length > MAX_PLAN_BLOCKS) {
+    return `Plans have 1 to ${MAX_PLAN_BLOCKS} blocks`;
+  }
+  if (!inRange(plan.restSeconds, 5, 120)) {
+    return 'Rest must be between 5 and 120 seconds';
+  }
+  for (const [i, block] of plan.blocks.entries()) {
+    if (!block.scenarioId) {
+      return `Block ${i + 1} needs a scenario`;
+    }
+    if (!inRange(block.targetSize, 30, 80) || !inRange(block.targetSpeed, 1000, 4000)) {
+      return `Block ${i + 1} needs a target size of 30 to 80 px and a speed of 1000 to 4000 ms`;
+    }
+    if (!inRange(block.duration, 15, 120)) {
+      return `Block ${i + 1} must last 15 to 120 seconds`;
+    }
+    if (!inRange(block.targetScore, 0, 1000000)) {
+      return `Block ${i + 1} needs a target score of 0 or more`;
+    }
+  }
+  return null;
+};
+
+// The player's local date as yyyy-mm-dd, which plan progress is recorded against
+export const toLocalDay = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
@@ -0,0 +1,25 @@
+export interface Rng {
+  // Returns a float in [0, 1)
+  next(): number;
+  // Current internal state, which can be fed back into createRng to resume
+  readonly state: number;
+}
+
+// Mulberry32: tiny, fast and good enough for gameplay randomness
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return {
+    next() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return state;
+    },
+  };
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,159 @@
+import type { BodyZone, Bounds, EngineSettings, RingZone, Scenario, ShotAnalysis, Target } from './types';
+import { angleBetweenWallPoints } from './view';
+
+export const HIT_EFFECT_DURATION = 1000;
+export const MISS_EFFECT_DURATION = 1500;
+// A target counts as shown only within a few frames of spawning, so a client
+// can't push shownAt towards its shots. Later frames fall back to createdAt.
+export const MAX_SHOWN_DELAY_MS = 100;
+
+export const getHitZone = (distance: number, targetSize: number): RingZone => {
+  const radius = targetSize / 2;
+  if (distance <= radius * 0.25) return 'center';
+  if (distance <= radius * 0.6) return 'ring';
+  return 'edge';
+};
+
+export const getScoreMultiplier = (hitZone: RingZone): number => {
+  switch (hitZone) {
+    case 'center': return 2.0;
+    case 'ring': return 1.5;
+    case 'edge': return 1.0;
+  }
+};
+
+// Hit shapes of a humanoid target around its center, in target radii with y
+// pointing down. They fit inside the target's circle, so spawning and shot
+// analysis treat humanoids like any other target.
+export const HUMANOID_SHAPES = {
+  head: { x: 0, y: -0.68, radius: 0.26 },
+  body: { left: -0.42, top: -0.42, right: 0.42, bottom: 0.3 },
+  legs: { left: -0.3, top: 0.3, right: 0.3, bottom: 0.95 },
+};
+
+// The body part a shot at (dx, dy) from a humanoid's center lands on, if any
+export const getBodyZone = (dx: number, dy: number, targetSize: number): BodyZone | null => {
+  const radius = targetSize / 2;
+  const x = dx / radius;
+  const y = dy / radius;
+  const { head, body, legs } = HUMANOID_SHAPES;
+  const inside = (box: typeof body) => x >= box.left && x <= box.right && y >= box.top && y <= box.bottom;
+  if (distanceBetween(x, y, head.x, head.y) <= head.radius) return 'head';
+  if (inside(body)) return 'body';
+  if (inside(legs)) return 'legs';
+  return null;
+};
+
+export const getScoreForHit = (
+  scenario: Scenario,
+  reactionTime: number,
+  target: Target,
+  settings: EngineSettings,
+): number => {
+  const { scoring } = scenario;
+  if (scoring.type === 'tracking') return 0;
+
+  const points = scoring.type === 'linear'
+    ? Math.max(scoring.base - Math.floor(reactionTime / scoring.decayMs), scoring.minimum)
+    : scoring.tiers.find(tier => reactionTime < tier.within)?.points ?? scoring.otherwise;
+  const movingBonus = target.velocityX || target.velocityY ? scoring.movingBonus : 0;
+  const sizeBonus = Math.max(0, (settings.targetSize - target.size) * scoring.sizeBonus);
+  return points + movingBonus + sizeBonus;
+};
+
+export const getTargetLifetime = (scenario: Scenario, settings: EngineSettings): number =>
+  scenario.lifetime
+    ? Math.max(scenario.lifetime.min, settings.targetSpeed + scenario.lifetime.offset)
+    : Infinity;
+
+// Largest size a target of this scenario can spawn at
+export const getMaxSpawnSize = (scenario: Scenario, settings: EngineSettings): number =>
+  Math.max(scenario.size.min, settings.targetSize + scenario.size.offset + scenario.size.jitter / 2);
+
+// How far from the edges targets spawn, so that they are always fully inside
+export const getSpawnMargin = (scenario: Scenario, settings: EngineSettings): number =>
+  Math.max(settings.targetSize, getMaxSpawnSize(scenario, settings) / 2);
+
+// Points for one tick with the cursor on a tracking target, more the closer it is to the center
+export const getTrackingPoints = (scenario: Scenario, distance: number, targetSize: number, dtMs: number): number => {
+  if (scenario.scoring.type !== 'tracking') return 0;
+  const closeness = Math.max(0, 1 - distance / (targetSize / 2));
+  return (dtMs / 1000) * (scenario.scoring.perSecond + scenario.scoring.centerBonus * closeness);
+};
+
+// Size of a shrinking target at a given age
+export const getShrunkSize = (age: number, baseSize: number, scenario: Scenario, lifetime: number): number => {
+  if (!scenario.shrink) return baseSize;
+  const progress = Math.min(1, age / lifetime);
+  const { endScale, power } = scenario.shrink;
+  return baseSize * Math.max(endScale, 1 - Math.pow(progress, power) * (1 - endScale));
+};
+
+export const distanceBetween = (x1: number, y1: number, x2: number, y2: number): number =>
+  Math.sqrt(Math.pow(x1 - x2, 2) + Math.pow(y1 - y2, 2));
+
+export const findClosestTarget = (x: number, y: number, targets: Target[]): Target | undefined => {
+  let closest: Target | undefined;
+  let minDistance = Infinity;
+  for (const target of targets) {
+    const distance = distanceBetween(x, y, target.x, target.y);
+    if (distance < minDistance) {
+      minDistance = distance;
+      closest = target;
+    }
+  }
+  return closest;
+};
+
+export const analyzeShot = (
+  clickX: number,
+  clickY: number,
+  targets: Target[],
+  view?: { bounds: Bounds; fov: number },
+  // Where the cursor was when the flick started, if known
+  origin?: { x: number; y: number },
+): ShotAnalysis => {
+  const closestTarget = findClosestTarget(clickX, clickY, targets);
+  if (!closestTarget) {
+    return { distance: 0, direction: 'hit', angle: 0 };
+  }
+  const minDistance = distanceBetween(clickX, clickY, closestTarget.x, closestTarget.y);
+
+  const angle = Math.atan2(clickY - closestTarget.y, clickX - closestTarget.x) * 180 / Math.PI;
+  const targetRadius = closestTarget.size / 2;
+
+  const angularDistance = view
+    ? angleBetweenWallPoints(clickX, clickY, closestTarget.x, closestTarget.y, view.bounds, view.fov)
+    : undefined;
+
+  if (minDistance <= targetRadius) {
+    return { distance: minDistance, angularDistance, direction: 'hit', angle };
+  }
+
+  // A shot past the target's center along the flick is an overshoot. Without a
+  // known starting point, fall back to guessing from the distance alone.
+  let direction: ShotAnalysis['direction'];
+  if (origin) {
+    const axisX = closestTarget.x - origin.x;
+    const axisY = closestTarget.y - origin.y;
+    const along = (clickX - origin.x) * axisX + (clickY - origin.y) * axisY;
+    direction = along > axisX * axisX + axisY * axisY ? 'overshoot' : 'undershoot';
+  } else {
+    direction = minDistance > targetRadius * 1.5 ? 'overshoot' : 'undershoot';
+  }
+
+  return { distance: minDistance, angularDistance, direction, angle };
+};
+
+export const getDirectionText = (angle: number): string => {
+  const normalizedAngle = ((angle % 360) + 360) % 360;
+
+  if (normalizedAngle >= 337.5 || normalizedAngle < 22.5) return 'right';
+  if (normalizedAngle >= 22.5 && normalizedAngle < 67.5) return 'bottom-right';
+  if (normalizedAngle >= 67.5 && normalizedAngle < 112.5) return 'bottom';
+  if (normalizedAngle >= 112.5 && normalizedAngle < 157.5) return 'bottom-left';
+  if (normalizedAngle >= 157.5 && normalizedAngle < 202.5) return 'left';
+  if (normalizedAngle >= 202.5 && normalizedAngle < 247.5) return 'top-left';
+  if (normalizedAngle >= 247.5 && normalizedAngle < 292.5) return 'top';
+  return 'top-right';
+};
@@ -0,0 +1,219 @@
+import type { Scenario, ScenarioDefinition } from './types';
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Balanced gameplay for general training',
+    maxTargets: 2,
+    spawnRate: 1200,
+    lifetime: { offset: 0, min: 0 },
+    size: { offset: 0, jitter: 10, min: 10 },
+    velocity: null,
+    steering: null,
+    shrink: null,
+    scoring: { type: 'linear', base: 150, decayMs: 20, minimum: 25, movingBonus: 0, sizeBonus: 0 },
+    missPenalty: 1,
+    duration: null,
+  },
+  {
+    id: 'speed',
+    name: 'Speed',
+    description: 'Fast-moving targets, quick reactions required',
+    maxTargets: 4,
+    spawnRate: 600,
+    lifetime: { offset: -500, min: 800 },
+    size: { offset: -15, jitter: 0, min: 20 },
+    velocity: { min: 50, max: 150 },
+    steering: null,
+    shrink: null,
+    scoring: { type: 'linear', base: 150, decayMs: 8, minimum: 20, movingBonus: 50, sizeBonus: 0 },
+    missPenalty: 1,
+    duration: null,
+  },
+  {
+    id: 'precision',
+    name: 'Precision',
+    description: 'Shrinking targets, accuracy over speed',
+    maxTargets: 1,
+    spawnRate: 3000,
+    lifetime: { offset: 1000, min: 0 },
+    size: { offset: 20, jitter: 0, min: 10 },
+    velocity: null,
+    steering: null,
+    shrink: { endScale: 0.3, power: 1 },
+    scoring: {
+      type: 'tiered',
+      tiers: [
+        { within: 300, points: 300 },
+        { within: 600, points: 200 },
+      ],
+      otherwise: 100,
+      movingBonus: 0,
+      sizeBonus: 5,
+    },
+    missPenalty: 2,
+    duration: null,
+  },
+  {
+    id: 'humanoid',
+    name: 'Humanoid',
+    description: 'Head and body targets, down in one headshot or three body shots',
+    maxTargets: 2,
+    spawnRate: 1200,
+    lifetime: { offset: 1000, min: 0 },
+    size: { offset: 30, jitter: 10, min: 30 },
+    velocity: null,
+    steering: null,
+    shrink: null,
+    scoring: { type: 'linear', base: 150, decayMs: 20, minimum: 25, movingBonus: 0, sizeBonus: 0 },
+    humanoid: {
+      health: 100,
+      zones: {
+        head: { damage: 100, multiplier: 2 },
+        body: { damage: 34, multiplier: 1 },
+        legs: { damage: 25, multiplier: 0.75 },
+      },
+    },
+    missPenalty: 1,
+    duration: null,
+  },
+  {
+    id: 'tracking',
+    name: 'Tracking',
+    description: 'One smoothly moving target, keep your cursor on it',
+    maxTargets: 1,
+    spawnRate: 1000,
+    lifetime: null,
+    size: { offset: 0, jitter: 0, min: 10 },
+    velocity: { min: 120, max: 300 },
+    steering: { turn: { min: 500, max: 2000 }, easeMs: 400 },
+    shrink: null,
+    scoring: { type: 'tracking', perSecond: 100, centerBonus: 100 },
+    missPenalty: 1,
+    duration: null,
+  },
+];
+
+export const getBuiltInScenario = (id: string): Scenario | undefined =>
+  BUILT_IN_SCENARIOS.find(scenario => scenario.id === id);
+
+export const isTrackingScenario = (scenario: ScenarioDefinition): boolean => scenario.scoring.type === 'tracking';
+
+// Just the gameplay fields, e.g. to store or to start a new scenario from
+export const toScenarioDefinition = (scenario: ScenarioDefinition): ScenarioDefinition => ({
+  maxTargets: scenario.maxTargets,
+  spawnRate: scenario.spawnRate,
+  lifetime: scenario.lifetime,
+  size: scenario.size,
+  velocity: scenario.velocity,
+  steering: scenario.steering,
+  shrink: scenario.shrink,
+  scoring: scenario.scoring,
+  ...(scenario.humanoid && { humanoid: scenario.humanoid }),
+  missPenalty: scenario.missPenalty,
+  duration: scenario.duration,
+});
+
+const inRange = (value: number, min: number, max: number) => Number.isFinite(value) && value >= min && value <= max;
+
+const validRange = (range: { min: number; max: number }, min: number, max: number) =>
+  inRange(range.min, min, max) && inRange(range.max, min, max) && range.min <= range.max;
+
+// Returns a description of the first problem with the definition, or null if
+// it is playable. Limits keep every scenario within what the engine and the
+// session verification can handle.
+export const validateScenario = (scenario: ScenarioDefinition): string | null => {
+  if (!Number.isInteger(scenario.maxTargets) || !inRange(scenario.maxTargets, 1, 10)) {
+    return 'Max targets must be a whole number from 1 to 10';
+  }
+  if (!inRange(scenario.spawnRate, 100, 10000)) {
+    return 'Spawn rate must be between 100 and 10000 ms';
+  }
+  if (scenario.lifetime) {
+    const { offset, min } = scenario.lifetime;
+    if (!inRange(offset, -3000, 10000) || !inRange(min, 0, 20000)) {
+      return 'Lifetime offset must be between -3000 and 10000 ms and its minimum at most 20000 ms';
+    }
+    // Checked against the lowest Target Speed setting
+    if (Math.max(min, 1000 + offset) < 100) {
+      return 'Targets must stay up for at least 100 ms';
+    }
+  }
+  const { size } = scenario;
+  if (!inRange(size.offset, -60, 100) || !inRange(size.jitter, 0, 100) || !inRange(size.min, 5, 200)) {
+    return 'Size offset must be between -60 and 100 px, jitter up to 100 px and the minimum 5 to 200 px';
+  }
+  if (scenario.velocity && !validRange(scenario.velocity, 0, 1000)) {
+    return 'Velocity must be a range within 0 to 1000 px/s';
+  }
+  if (scenario.steering) {
+    if (!scenario.velocity) {
+      return 'Steering needs moving targets';
+    }
+    if (!validRange(scenario.steering.turn, 100, 10000) || !inRange(scenario.steering.easeMs, 1, 5000)) {
+      return 'Steering turns must be within 100 to 10000 ms and easing within 1 to 5000 ms';
+    }
+  }
+  if (scenario.shrink) {
+    if (!scenario.lifetime) {
+      return 'Shrinking targets need a lifetime';
+    }
+    if (!inRange(scenario.shrink.endScale, 0.05, 1) || !inRange(scenario.shrink.power, 0.1, 10)) {
+      return 'Shrink end scale must be between 0.05 and 1 and its power between 0.1 and 10';
+    }
+  }
+
+  const { scoring } = scenario;
+  switch (scoring.type) {
+    case 'linear':
+      if (
+        !inRange(scoring.base, 0, 10000) || !inRange(scoring.decayMs, 1, 10000) ||
+        !inRange(scoring.minimum, 0, 10000) || !inRange(scoring.movingBonus, 0, 10000) ||
+        !inRange(scoring.sizeBonus, 0, 100)
+      ) {
+        return 'Scoring values are out of range';
+      }
+      break;
+    case 'tiered':
+      if (
+        scoring.tiers.length > 10 ||
+        !scoring.tiers.every(tier => inRange(tier.within, 0, 60000) && inRange(tier.points, 0, 10000)) ||
+        !scoring.tiers.every((tier, i) => i === 0 || tier.within > scoring.tiers[i - 1].within) ||
+        !inRange(scoring.otherwise, 0, 10000) || !inRange(scoring.movingBonus, 0, 10000) ||
+        !inRange(scoring.sizeBonus, 0, 100)
+      ) {
+        return 'Scoring tiers must be in increasing order, at most 10, with values in range';
+      }
+      break;
+    case 'tracking':
+      if (!inRange(scoring.perSecond, 0, 10000) || !inRange(scoring.centerBonus, 0, 10000)) {
+        return 'Tracking points are out of range';
+      }
+      if (scenario.maxTargets !== 1) {
+        return 'Tracking scenarios have exactly one target';
+      }
+      break;
+  }
+
+  if (scenario.humanoid) {
+    if (scoring.type === 'tracking') {
+      return 'Tracking scenarios can not have humanoid targets';
+    }
+    const { health, zones } = scenario.humanoid;
+    if (
+      !inRange(health, 1, 10000) ||
+      !Object.values(zones).every(zone => inRange(zone.damage, 1, 10000) && inRange(zone.multiplier, 0, 10))
+    ) {
+      return 'Humanoid health and damage must be 1 to 10000 and multipliers 0 to 10';
+    }
+  }
+
+  if (!Number.isInteger(scenario.missPenalty) || !inRange(scenario.missPenalty, 0, 10)) {
+    return 'Miss penalty must be a whole number from 0 to 10';
+  }
+  if (scenario.duration !== null && !inRange(scenario.duration, 15, 120)) {
+    return 'Duration must be between 15 and 120 seconds';
+  }
+  return null;
+};
@@ -0,0 +1,91 @@
+// Mouse sensitivity across games. Every game turns the camera by a fixed number
+// of degrees per mouse count at sensitivity 1 (its "yaw"), so a DPI, a game and
+// an in-game sensitivity together pin down how far the mouse travels for a full
+// turn, which is the number that carries over between games.
+
+export interface GameYaw {
+  id: string;
+  name: string;
+  // Degrees per mouse count at in-game sensitivity 1
+  yaw: number;
+}
+
+export interface SensitivityProfile {
+  dpi: number;
+  game: string;
+  sensitivity: number;
+  customGames: GameYaw[];
+}
+
+export const CM_PER_INCH = 2.54;
+
+export const BUILT_IN_GAMES: GameYaw[] = [
+  { id: 'cs2', name: 'Counter-Strike 2', yaw: 0.022 },
+  { id: 'valorant', name: 'Valorant', yaw: 0.07 },
+  { id: 'apex', name: 'Apex Legends', yaw: 0.022 },
+  { id: 'overwatch2', name: 'Overwatch 2', yaw: 0.0066 },
+  { id: 'cod', name: 'Call of Duty', yaw: 0.0066 },
+  { id: 'destiny2', name: 'Destiny 2', yaw: 0.0066 },
+  { id: 'quake', name: 'Quake Champions', yaw: 0.022 },
+  { id: 'tf2', name: 'Team Fortress 2', yaw: 0.022 },
+];
+
+export const DEFAULT_SENSITIVITY_PROFILE: SensitivityProfile = {
+  dpi: 800,
+  game: 'cs2',
+  sensitivity: 1,
+  customGames: [],
+};
+
+export const MIN_DPI = 100;
+export const MAX_DPI = 32000;
+export const MAX_CUSTOM_GAMES = 20;
+
+export const getGames = (profile: SensitivityProfile): GameYaw[] => [...BUILT_IN_GAMES, ...profile.customGames];
+
+// Falls back to the first built-in game if the profile's game was removed
+export const getProfileGame = (profile: SensitivityProfile): GameYaw =>
+  getGames(profile).find(game => game.id === profile.game) ?? BUILT_IN_GAMES[0];
+
+export const getDegreesPerCount = (profile: SensitivityProfile): number =>
+  getProfileGame(profile).yaw * profile.sensitivity;
+
+export const getCmPer360 = (profile: SensitivityProfile): number =>
+  (360 / getDegreesPerCount(profile) / profile.dpi) * CM_PER_INCH;
+
+// In-game sensitivity that gives the same cm/360 in another game at a given DPI
+export const sensitivityForCmPer360 = (cmPer360: number, dpi: number, yaw: number): number =>
+  360 / ((cmPer360 / CM_PER_INCH) * dpi) / yaw;
+
+export const createCustomGameId = (name: string): string =>
+  `custom:${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+// Returns a description of the first problem with the profile, or null if it is usable
+export const validateSensitivityProfile = (profile: SensitivityProfile): string | null => {
+  if (!Number.isFinite(profile.dpi) || profile.dpi < MIN_DPI || profile.dpi > MAX_DPI) {
+    return `DPI must be between ${MIN_DPI} and ${MAX_DPI}`;
+  }
+  if (!Number.isFinite(profile.sensitivity) || profile.sensitivity <= 0 || profile.sensitivity > 1000) {
+    return 'Sensitivity must be a positive number';
+  }
+  if (profile.customGames.length > MAX_CUSTOM_GAMES) {
+    return `At most ${MAX_CUSTOM_GAMES} custom games are allowed`;
+  }
+  const ids = new Set(BUILT_IN_GAMES.map(game => game.id));
+  for (const game of profile.customGames) {
+    if (!game.name.trim() || game.name.length > 40) {
+      return 'Custom game names must be 1 to 40 characters';
+    }
+    if (!Number.isFinite(game.yaw) || game.yaw <= 0 || game.yaw > 10) {
+      return `Yaw for ${game.name} must be a positive number of degrees`;
+    }
+    if (ids.has(game.id)) {
+      return `${game.name} is already in the list`;
+    }
+    ids.add(game.id);
+  }
+  if (!ids.has(profile.game)) {
+    return 'Unknown source game';
+  }
+  return null;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { verifySession } from '../../convex/sessionVerification';
+import { createGameState, step, summarizeStats } from './engine';
+import { getBuiltInScenario } from './scenarios';
+import { TICK_MS, createSessionLog, recordEvents, recordInputs, replaySessionLog } from './sessionLog';
+import type { EngineSettings, GameConfig, GameInput, GameState, Scenario } from './types';
+
+const SETTINGS: EngineSettings = { targetSize: 50, targetSpeed: 2000, gameTime: 15 };
+
+// Plays a whole round the way the trainer does: every target is reported shown
+// a few milliseconds into the tick after it appears, most shots land on the
+// oldest target and every so often one misses.
+const playRound = (scenario: Scenario) => {
+  const config: GameConfig = { scenario, settings: SETTINGS, bounds: { width: 800, height: 600 }, seed: 1234 };
+  const log = createSessionLog(config);
+  let state: GameState = createGameState(config);
+  let shownUpTo = -1;
+
+  while (!state.isOver) {
+    const inputs: GameInput[] = [];
+    for (const target of state.targets) {
+      if (target.id > shownUpTo) {
+        inputs.push({ type: 'shown', targetId: target.id, at: state.time + 3 });
+        shownUpTo = target.id;
+      }
+    }
+    const [target] = state.targets;
+    if (state.time % 1000 === 600) {
+      inputs.push({ type: 'shot', x: 1, y: 1, at: state.time + 5 });
+    } else if (state.time % 400 === 200 && target) {
+      inputs.push({ type: 'shot', x: target.x, y: target.y, at: state.time + 5 });
+    }
+
+    recordInputs(log, state.time, inputs);
+    const result = step(state, TICK_MS, inputs);
+    state = result.state;
+    recordEvents(log, state, result.events);
+  }
+  return { state, log };
+};
+
+describe('replaySessionLog', () => {
+  const scenario = getBuiltInScenario('classic');
+  if (!scenario) throw new Error('Missing the classic scenario');
+
+  it('replays a logged round to the state it ended in live', () => {
+    const live = playRound(scenario);
+    const replay = replaySessionLog({ scenario, settings: SETTINGS }, live.log);
+
+    expect(live.state.stats.targetsHit).toBeGreaterThan(0);
+    expect(live.state.stats.targetsMissed).toBeGreaterThan(0);
+    expect(replay.spawns).toEqual(live.log.spawns);
+    expect(replay.state.time).toBe(live.state.time);
+    expect(replay.state.stats).toEqual(live.state.stats);
+  });
+
+  it('passes server verification with the live result', () => {
+    const { state, log } = playRound(scenario);
+    const { stats } = state;
+
+    const verified = verifySession(scenario, SETTINGS, log, {
+      ...summarizeStats(scenario, stats),
+      score: stats.score,
+      targetsHit: stats.targetsHit,
+      targetsMissed: stats.targetsMissed,
+      centerHits: stats.centerHits,
+      ringHits: stats.ringHits,
+      edgeHits: stats.edgeHits,
+    });
+
+    expect(verified.stats).toEqual(stats);
+    expect(verified.flags).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { createGameState, endRound, step } from './engine';
+import type { Bounds, GameConfig, GameEvent, GameInput, GameState } from './types';
+
+// Rounds are simulated in fixed ticks so a log replays to the exact same state
+export const TICK_MS = 8;
+// Cursor moves are only fed to the engine this often, which keeps logs small
+export const CURSOR_SAMPLE_MS = 16;
+
+// Compact record of a round. Every entry is a flat number tuple, keyed by the
+// simulated time (a multiple of TICK_MS) at which it happened:
+//   shots:   [time, x, y, at?]
+//   resizes: [time, width, height]
+//   cursors: [time, x, y, firing ? 1 : 0]
+//   spawns:  [time, targetId, x, y]
+//   shown:   [time, targetId, at]
+// `at` is the exact time within the tick, see GameInput. Older logs have no
+// shown entries and no shot times.
+export interface SessionLog {
+  seed: number;
+  bounds: Bounds;
+  elapsed: number;
+  shots: number[][];
+  resizes: number[][];
+  cursors: number[][];
+  spawns: number[][];
+  shown?: number[][];
+}
+
+export const createSessionLog = (config: GameConfig): SessionLog => ({
+  seed: config.seed,
+  bounds: { ...config.bounds },
+  elapsed: 0,
+  shots: [],
+  resizes: [],
+  cursors: [],
+  spawns: [],
+  shown: [],
+});
+
+export const recordInputs = (log: SessionLog, time: number, inputs: GameInput[]) => {
+  for (const input of inputs) {
+    switch (input.type) {
+      case 'shot':
+        log.shots.push(input.at === undefined ? [time, input.x, input.y] : [time, input.x, input.y, input.at]);
+        break;
+      case 'resize':
+        log.resizes.push([time, input.width, input.height]);
+        break;
+      case 'cursor':
+        log.cursors.push([time, input.x, input.y, input.firing ? 1 : 0]);
+        break;
+      case 'shown':
+        (log.shown ??= []).push([time, input.targetId, input.at]);
+        break;
+    }
+  }
+};
+
+export const recordEvents = (log: SessionLog, state: GameState, events: GameEvent[]) => {
+  for (const event of events) {
+    if (event.type === 'spawn') {
+      log.spawns.push([event.target.createdAt, event.target.id, event.target.x, event.target.y]);
+    }
+  }
+  log.elapsed = state.time;
+};
+
+export interface ReplayResult {
+  state: GameState;
+  spawns: number[][];
+}
+
+const groupInputsByTime = (log: SessionLog) => {
+  const inputsByTime = new Map<number, GameInput[]>();
+  const addInput = (time: number, input: GameInput) => {
+    inputsByTime.set(time, [...(inputsByTime.get(time) ?? []), input]);
+  };
+
+  log.resizes.forEach(([time, width, height]) => addInput(time, { type: 'resize', width, height }));
+  log.cursors.forEach(([time, x, y, firing]) => addInput(time, { type: 'cursor', x, y, firing: firing === 1 }));
+  log.shown?.forEach(([time, targetId, at]) => addInput(time, { type: 'shown', targetId, at }));
+  log.shots.forEach(([time, x, y, at]) => addInput(time, { type: 'shot', x, y, at }));
+  return inputsByTime;
+};
+
+// Re-run a round from its seed and inputs. Inputs are applied at the start of
+// the tick whose time matches theirs, exactly as the live game applies them.
+export const replaySessionLog = (config: Omit<GameConfig, 'seed' | 'bounds'>, log: SessionLog): ReplayResult => {
+  let state = createGameState({ ...config, seed: log.seed, bounds: log.bounds });
+  const spawns: number[][] = [];
+  const inputsByTime = groupInputsByTime(log);
+
+  while (!state.isOver && state.time < log.elapsed) {
+    const result = step(state, TICK_MS, inputsByTime.get(state.time) ?? []);
+    state = result.state;
+    for (const event of result.events) {
+      if (event.type === 'spawn') {
+        spawns.push([event.target.createdAt, event.target.id, event.target.x, event.target.y]);
+      }
+    }
+  }
+
+  return { state: state.isOver ? state : endRound(state), spawns };
+};
+
+// A snapshot is kept this often so that seeking never re-simulates more than this
+const KEYFRAME_MS = 1000;
+
+export interface ReplayTimeline {
+  duration: number;
+  // The state of the round at a simulated time, rounded down to a whole tick
+  stateAt: (time: number) => GameState;
+}
+
+// Simulate a logged round once up front, then let a viewer jump to any moment
+export const createReplayTimeline = (config: Omit<GameConfig, 'seed' | 'bounds'>, log: SessionLog): ReplayTimeline => {
+  const inputsByTime = groupInputsByTime(log);
+  const advance = (state: GameState, time: number) => {
+    while (!state.isOver && state.time < time) {
+      state = step(state, TICK_MS, inputsByTime.get(state.time) ?? []).state;
+    }
+    return state;
+  };
+
+  let state = createGameState({ ...config, seed: log.seed, bounds: log.bounds });
+  const keyframes: GameState[] = [state];
+  while (!state.isOver && state.time < log.elapsed) {
+    state = advance(state, state.time + TICK_MS);
+    if (state.time % KEYFRAME_MS === 0) keyframes.push(state);
+  }
+
+  // Playing forwards continues from the last state instead of the keyframe
+  let last = keyframes[0];
+  const stateAt = (time: number) => {
+    const tickTime = Math.max(0, Math.min(log.elapsed, Math.floor(time / TICK_MS) * TICK_MS));
+    const keyframe = keyframes[Math.min(keyframes.length - 1, Math.floor(tickTime / KEYFRAME_MS))];
+    const from = last.time <= tickTime && last.time >= keyframe.time ? last : keyframe;
+    last = advance(from, tickTime);
+    return last;
+  };
+
+  return { duration: log.elapsed, stateAt };
+};
@@ -0,0 +1,187 @@
+// How the play field looks: background, targets and hit effects. A theme only
+// changes drawing, never the simulation. Players pick one for every scenario
+// or a default for all of them.
+
+export const TARGET_STYLES = ['bullseye', 'solid', 'ring', 'humanoid'] as const;
+export const HIT_PALETTES = ['classic', 'neon', 'mono'] as const;
+
+export type TargetStyle = typeof TARGET_STYLES[number];
+export type HitPalette = typeof HIT_PALETTES[number];
+
+export interface Theme {
+  // #rrggbb, as are the other colors
+  background: string;
+  // Bottom color of a vertical gradient down from background
+  backgroundGradient?: string;
+  // One color for every target; without it targets are colored by mode
+  targetColor?: string;
+  targetStyle: TargetStyle;
+  hitPalette: HitPalette;
+  // Swaps every red/green pair for colors told apart with any color vision
+  colorblindSafe: boolean;
+  // Black background, bright targets that don't fade and thick effects, which
+  // survive video compression on a stream
+  highContrast: boolean;
+}
+
+export const DEFAULT_THEME: Theme = {
+  background: '#1f2937',
+  targetStyle: 'bullseye',
+  hitPalette: 'classic',
+  colorblindSafe: false,
+  highContrast: false,
+};
+
+export const THEME_PRESETS: { id: string; name: string; theme: Theme }[] = [
+  { id: 'default', name: 'Default', theme: DEFAULT_THEME },
+  {
+    id: 'midnight',
+    name: 'Midnight',
+    theme: {
+      background: '#0f172a',
+      backgroundGradient: '#1e1b4b',
+      targetColor: '#22d3ee',
+      targetStyle: 'ring',
+      hitPalette: 'neon',
+      colorblindSafe: false,
+      highContrast: false,
+    },
+  },
+  {
+    id: 'range',
+    name: 'Shooting Range',
+    theme: {
+      background: '#3f4a3c',
+      backgroundGradient: '#262d24',
+      targetColor: '#f97316',
+      targetStyle: 'humanoid',
+      hitPalette: 'classic',
+      colorblindSafe: false,
+      highContrast: false,
+    },
+  },
+  { id: 'streaming', name: 'Streaming', theme: { ...DEFAULT_THEME, highContrast: true } },
+];
+
+// "r, g, b" strings, so drawing code can add its own alpha
+type Rgb = string;
+
+export interface ThemeColors {
+  background: string;
+  backgroundGradient?: string;
+  targetStyle: TargetStyle;
+  targets: {
+    // Static and moving targets
+    standard: Rgb;
+    // Targets that shrink over their lifetime
+    shrinking: Rgb;
+    onTarget: Rgb;
+    offTarget: Rgb;
+  };
+  // Drawn around every target, if set
+  targetOutline?: Rgb;
+  // Targets fade to this opacity as their lifetime runs out
+  minTargetOpacity: number;
+  hit: { center: Rgb; ring: Rgb; edge: Rgb };
+  miss: Rgb;
+  missText: Rgb;
+  wall: Rgb;
+  effectLineWidth: number;
+}
+
+const PALETTES: Record<HitPalette, Pick<ThemeColors, 'hit' | 'miss' | 'missText'>> = {
+  classic: {
+    hit: { center: '255, 215, 0', ring: '0, 255, 0', edge: '255, 165, 0' },
+    miss: '255, 0, 0',
+    missText: '255, 100, 100',
+  },
+  neon: {
+    hit: { center: '255, 64, 255', ring: '0, 255, 255', edge: '190, 255, 0' },
+    miss: '255, 60, 120',
+    missText: '255, 130, 170',
+  },
+  mono: {
+    hit: { center: '255, 255, 255', ring: '209, 213, 219', edge: '156, 163, 175' },
+    miss: '107, 114, 128',
+    missText: '156, 163, 175',
+  },
+};
+
+// Okabe-Ito colors, which stay distinct under the common color blindnesses
+const COLORBLIND_PALETTE: Pick<ThemeColors, 'hit' | 'miss' | 'missText'> = {
+  hit: { center: '240, 228, 66', ring: '86, 180, 233', edge: '230, 159, 0' },
+  miss: '213, 94, 0',
+  missText: '213, 94, 0',
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+const hexToRgb = (hex: string): Rgb =>
+  [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16)).join(', ');
+
+// Returns a description of the first problem with the theme, or null if it is usable
+export const validateTheme = (theme: Theme): string | null => {
+  const colors = [theme.background, theme.backgroundGradient, theme.targetColor];
+  if (colors.some(color => color !== undefined && !COLOR_PATTERN.test(color))) {
+    return 'Theme colors must be #rrggbb colors';
+  }
+  if (!TARGET_STYLES.includes(theme.targetStyle)) {
+    return 'Unknown target style';
+  }
+  if (!HIT_PALETTES.includes(theme.hitPalette)) {
+    return 'Unknown hit effect palette';
+  }
+  return null;
+};
+
+// The concrete colors a theme draws with, after its accessibility options
+export const resolveTheme = (theme: Theme): ThemeColors => {
+  const palette = theme.colorblindSafe ? COLORBLIND_PALETTE : PALETTES[theme.hitPalette];
+  const byMode = theme.colorblindSafe
+    ? { standard: '213, 94, 0', shrinking: '0, 114, 178' }
+    : { standard: '239, 68, 68', shrinking: '59, 130, 246' };
+  const tracking = theme.colorblindSafe
+    ? { onTarget: '0, 114, 178', offTarget: '230, 159, 0' }
+    : { onTarget: '34, 197, 94', offTarget: '239, 68, 68' };
+  const single = theme.targetColor && hexToRgb(theme.targetColor);
+
+  if (theme.highContrast) {
+    return {
+      background: '#000000',
+      targetStyle: theme.targetStyle,
+      targets: {
+        standard: single || '255, 255, 0',
+        shrinking: single || '0, 255, 255',
+        ...(theme.colorblindSafe ? tracking : { onTarget: '0, 255, 0', offTarget: '255, 0, 255' }),
+      },
+      targetOutline: '255, 255, 255',
+      minTargetOpacity: 1,
+      ...palette,
+      wall: '255, 255, 255',
+      effectLineWidth: 5,
+    };
+  }
+  return {
+    background: theme.background,
+    backgroundGradient: theme.backgroundGradient,
+    targetStyle: theme.targetStyle,
+    targets: {
+      standard: single || byMode.standard,
+      shrinking: single || byMode.shrinking,
+      ...tracking,
+    },
+    minTargetOpacity: 0.3,
+    ...palette,
+    wall: '107, 114, 128',
+    effectLineWidth: 3,
+  };
+};
+
+// The theme for a scenario: its own, else the player's default, else the built-in one
+export const getScenarioTheme = (
+  themes: { scenarioId: string | null; theme: Theme }[] | undefined,
+  scenarioId: string,
+): Theme =>
+  themes?.find(entry => entry.scenarioId === scenarioId)?.theme
+  ?? themes?.find(entry => entry.scenarioId === null)?.theme
+  ?? DEFAULT_THEME;
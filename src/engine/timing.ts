@@ -0,0 +1,83 @@
+// Frame pacing and input delay as the browser reports them. None of this
+// feeds the simulation; it is kept so a round's numbers can be judged by how
+// smoothly it ran.
+
+export interface FrameTiming {
+  frames: number;
+  // Milliseconds between animation frames, on average and at worst
+  averageFrameTime: number;
+  worstFrameTime: number;
+  // Frames the display showed without a new one being drawn
+  droppedFrames: number;
+  // Milliseconds from an input event to its handler running
+  averageInputDelay: number;
+}
+
+// Pointer moves can arrive a thousand times a second, so input delays are
+// only summed
+export interface FrameTimer {
+  frameTimes: number[];
+  inputDelayTotal: number;
+  inputs: number;
+}
+
+export const createFrameTimer = (): FrameTimer => ({ frameTimes: [], inputDelayTotal: 0, inputs: 0 });
+
+export const recordInputDelay = (timer: FrameTimer, delay: number) => {
+  timer.inputDelayTotal += delay;
+  timer.inputs += 1;
+};
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// The display's refresh interval, taken as the typical time between frames
+export const getRefreshInterval = (frameTimes: number[]) => median(frameTimes);
+
+// A frame that took n refresh intervals means n - 1 refreshes showed the
+// previous frame again
+export const countDroppedFrames = (frameTimes: number[]) => {
+  const interval = getRefreshInterval(frameTimes);
+  if (interval <= 0) return 0;
+  return frameTimes.reduce((dropped, time) => dropped + Math.max(0, Math.round(time / interval) - 1), 0);
+};
+
+export const summarizeFrameTiming = (timer: FrameTimer): FrameTiming => ({
+  frames: timer.frameTimes.length,
+  averageFrameTime: average(timer.frameTimes),
+  worstFrameTime: timer.frameTimes.reduce((worst, time) => Math.max(worst, time), 0),
+  droppedFrames: countDroppedFrames(timer.frameTimes),
+  averageInputDelay: timer.inputs > 0 ? timer.inputDelayTotal / timer.inputs : 0,
+});
+
+export interface LatencyEstimate {
+  refreshRate: number;
+  // Event timestamp to handler
+  inputDelay: number;
+  // Event timestamp to the start of the frame that draws its result
+  eventToFrame: number;
+  // A drawn frame reaches the screen at the next refresh at the earliest
+  displayDelay: number;
+  total: number;
+  droppedFrames: number;
+}
+
+// Estimates from a self-test: frame times, input delays and, for every input,
+// how long until the frame that showed it began
+export const estimateLatency = (frameTimes: number[], inputDelays: number[], eventToFrame: number[]): LatencyEstimate => {
+  const interval = getRefreshInterval(frameTimes);
+  const toFrame = average(eventToFrame);
+  return {
+    refreshRate: interval > 0 ? 1000 / interval : 0,
+    inputDelay: average(inputDelays),
+    eventToFrame: toFrame,
+    displayDelay: interval,
+    total: toFrame + interval,
+    droppedFrames: countDroppedFrames(frameTimes),
+  };
+};
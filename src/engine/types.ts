@@ -0,0 +1,281 @@
+// Round targets score by ring, humanoid ones by body part
+export type RingZone = 'center' | 'ring' | 'edge';
+export type BodyZone = 'head' | 'body' | 'legs';
+export type HitZone = RingZone | BodyZone;
+
+export interface Bounds {
+  width: number;
+  height: number;
+}
+
+// The subset of user settings that affects gameplay
+export interface EngineSettings {
+  targetSize: number;
+  targetSpeed: number;
+  gameTime: number;
+  // Tracking mode: only count time on target while the mouse button is held
+  holdToTrack?: boolean;
+  // First-person mode: horizontal field of view in degrees. The canvas becomes
+  // a wall seen through a camera, see view.ts
+  fov?: number;
+  // Adaptive difficulty: the share of targets the player should hit, which the
+  // difficulty then moves to keep them at. Click scenarios only, see difficulty.ts
+  adaptive?: number;
+}
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+// How a hit is scored, before the hit zone multiplier. `sizeBonus` is points
+// per pixel the target is smaller than the Target Size setting when hit.
+export type ScoringRule =
+  | {
+      // base minus a point per decayMs of reaction time, never below minimum
+      type: 'linear';
+      base: number;
+      decayMs: number;
+      minimum: number;
+      movingBonus: number;
+      sizeBonus: number;
+    }
+  | {
+      // points of the first tier the reaction time is under, else otherwise
+      type: 'tiered';
+      tiers: { within: number; points: number }[];
+      otherwise: number;
+      movingBonus: number;
+      sizeBonus: number;
+    }
+  | {
+      // No shots: points per second with the cursor on the target, plus up
+      // to centerBonus more the closer it is to the center
+      type: 'tracking';
+      perSecond: number;
+      centerBonus: number;
+    };
+
+// Targets shaped like a person, with hit shapes for head, upper body and legs
+// instead of rings. Every hit deals its zone's damage and the target goes down
+// once it has taken `health`, so a headshot can kill where body shots take
+// several. Each hit scores its share of the target's health, times the zone's
+// multiplier.
+export interface HumanoidModel {
+  health: number;
+  zones: Record<BodyZone, { damage: number; multiplier: number }>;
+}
+
+// Everything that makes one game mode play differently from another. Sizes
+// and lifetimes are relative to the Target Size and Target Speed settings so
+// that one scenario works at every difficulty.
+export interface ScenarioDefinition {
+  maxTargets: number;
+  // Milliseconds between spawns while there is room for another target
+  spawnRate: number;
+  // Target Speed plus offset, at least min milliseconds. Null keeps targets
+  // up for the whole round
+  lifetime: { offset: number; min: number } | null;
+  // Target Size plus offset, varied randomly by up to jitter/2 either way, at least min
+  size: { offset: number; jitter: number; min: number };
+  // Pixels per second in a random direction; null for stationary targets
+  velocity: Range | null;
+  // Moving targets ease into a new random heading every turn ms
+  steering: { turn: Range; easeMs: number } | null;
+  // Targets shrink to endScale of their size over their lifetime
+  shrink: { endScale: number; power: number } | null;
+  scoring: ScoringRule;
+  // Added later, so older custom scenarios don't have it; absent for round targets
+  humanoid?: HumanoidModel;
+  // Misses counted per missed shot
+  missPenalty: number;
+  // Round length in seconds; null uses the Game Time setting
+  duration: number | null;
+}
+
+export interface Scenario extends ScenarioDefinition {
+  // Built-in scenarios use their name in lower case, custom ones their Convex id
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface Target {
+  id: number;
+  x: number;
+  y: number;
+  size: number;
+  createdAt: number;
+  // When the first frame showing it was drawn. Reaction times count from
+  // here, or from createdAt for logs that predate it.
+  shownAt?: number;
+  // How long it stays up, fixed when it spawns
+  lifetime: number;
+  velocityX?: number;
+  velocityY?: number;
+  // Shrinking targets remember the size they spawned at
+  baseSize?: number;
+  // Tracking targets steer towards a new random heading every so often
+  desiredVelocityX?: number;
+  desiredVelocityY?: number;
+  turnAt?: number;
+  // Humanoid targets: health left after the hits so far
+  health?: number;
+}
+
+export interface Cursor {
+  x: number;
+  y: number;
+  firing: boolean;
+}
+
+export interface HitEffect {
+  id: number;
+  x: number;
+  y: number;
+  createdAt: number;
+  type: HitZone;
+  score: number;
+}
+
+export interface MissEffect {
+  id: number;
+  x: number;
+  y: number;
+  createdAt: number;
+  distance: number;
+  angularDistance?: number;
+  direction: string;
+}
+
+export interface GameStats {
+  score: number;
+  targetsHit: number;
+  targetsMissed: number;
+  reactionTimes: number[];
+  centerHits: number;
+  ringHits: number;
+  edgeHits: number;
+  // Humanoid targets: hits per body part. Reaction times for them are times
+  // to kill, from the target being shown to the shot that took it down.
+  headHits: number;
+  bodyHits: number;
+  legHits: number;
+  totalShots: number;
+  overshoots: number;
+  undershoots: number;
+  averageMissDistance: number;
+  // Tracking mode, sampled every tick
+  trackingTime: number;
+  timeOnTarget: number;
+  trackingPoints: number;
+  trackingDistanceTotal: number;
+  trackingSamples: number;
+  // Totals over every shot with a recorded cursor path, see flick.ts
+  flicks: number;
+  flickTimeToMoveTotal: number;
+  flickPeakVelocityTotal: number;
+  flickEfficiencyTotal: number;
+  flickCorrections: number;
+  flickOvershoots: number;
+}
+
+// How the cursor got from where a flick started to where the shot landed
+export interface FlickMetrics {
+  // Milliseconds before the cursor first moved
+  timeToMove: number;
+  // Pixels per second
+  peakVelocity: number;
+  // Straight-line distance divided by the length of the path taken, 1 is perfect
+  pathEfficiency: number;
+  // Sharp changes of direction on the way
+  corrections: number;
+  // The cursor went past the target and came back before the shot
+  overshot: boolean;
+}
+
+// Session averages over every shot that had a flick
+export interface FlickSummary {
+  averageTimeToMove: number;
+  averagePeakVelocity: number;
+  averagePathEfficiency: number;
+  averageCorrections: number;
+  // Fraction of flicks that overshot, 0 to 1
+  overshootRate: number;
+}
+
+export interface ShotAnalysis {
+  distance: number;
+  // Only in first-person mode
+  angularDistance?: number;
+  direction: 'overshoot' | 'undershoot' | 'hit';
+  angle: number;
+  flick?: FlickMetrics;
+}
+
+export interface GameConfig {
+  scenario: Scenario;
+  settings: EngineSettings;
+  bounds: Bounds;
+  seed: number;
+}
+
+// Everything needed to continue a round. Times are milliseconds of
+// simulated time since the round started, never wall-clock time.
+export interface GameState {
+  scenario: Scenario;
+  settings: EngineSettings;
+  bounds: Bounds;
+  rngState: number;
+  time: number;
+  nextId: number;
+  sinceSpawnCheck: number;
+  targets: Target[];
+  hitEffects: HitEffect[];
+  missEffects: MissEffect[];
+  stats: GameStats;
+  lastShot: ShotAnalysis | null;
+  cursor: Cursor | null;
+  // [time, x, y] cursor samples since the last shot, for flick analysis
+  cursorPath: number[][];
+  lastShotTime: number;
+  // Adaptive rounds only: the current difficulty (1 for fixed rounds), recent
+  // [hit, reactionShare] outcomes and [time, difficulty] at every change
+  difficulty: number;
+  outcomes: number[][];
+  difficultyCurve: number[][];
+  onTarget: boolean;
+  isOver: boolean;
+}
+
+// `at` is the exact simulated time an input happened, taken from the browser
+// event or frame, somewhere within the tick it is applied in
+export type GameInput =
+  | { type: 'shot'; x: number; y: number; at?: number }
+  | { type: 'cursor'; x: number; y: number; firing: boolean }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'shown'; targetId: number; at: number };
+
+export type GameEvent =
+  | { type: 'spawn'; target: Target }
+  | { type: 'expire'; targetId: number }
+  | {
+      type: 'hit';
+      targetId: number;
+      x: number;
+      y: number;
+      zone: HitZone;
+      distance: number;
+      targetSize: number;
+      score: number;
+      reactionTime: number;
+      // Humanoid targets survive hits until their health runs out
+      killed: boolean;
+    }
+  | { type: 'miss'; x: number; y: number; analysis: ShotAnalysis }
+  | { type: 'end' };
+
+export interface StepResult {
+  state: GameState;
+  events: GameEvent[];
+}
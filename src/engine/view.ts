@@ -0,0 +1,103 @@
+import type { Bounds } from './types';
+
+// First-person geometry. The play field is a flat wall in front of the player,
+// measured in the same units as the 2D canvas, at the distance where a camera
+// looking straight ahead with the given horizontal FOV sees exactly all of it.
+// Yaw is positive to the right and pitch positive upwards, both in degrees.
+
+export const DEFAULT_FOV = 103;
+export const MAX_CAMERA_ANGLE = 89;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export const getWallDistance = (bounds: Bounds, fov: number): number =>
+  bounds.width / 2 / Math.tan(toRadians(fov) / 2);
+
+// Direction from the eye to a point on the wall, as yaw and pitch
+export const wallPointToAngles = (x: number, y: number, bounds: Bounds, fov: number) => {
+  const distance = getWallDistance(bounds, fov);
+  const dx = x - bounds.width / 2;
+  const dy = bounds.height / 2 - y;
+  return {
+    yaw: toDegrees(Math.atan2(dx, distance)),
+    pitch: toDegrees(Math.atan2(dy, Math.sqrt(dx * dx + distance * distance))),
+  };
+};
+
+// Where a ray with the given yaw and pitch hits the wall
+export const anglesToWallPoint = (yaw: number, pitch: number, bounds: Bounds, fov: number) => {
+  const distance = getWallDistance(bounds, fov);
+  const yawRad = toRadians(yaw);
+  return {
+    x: bounds.width / 2 + distance * Math.tan(yawRad),
+    y: bounds.height / 2 - (distance * Math.tan(toRadians(pitch))) / Math.cos(yawRad),
+  };
+};
+
+// Angle in degrees between the directions to two points on the wall
+export const angleBetweenWallPoints = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  bounds: Bounds,
+  fov: number,
+): number => {
+  const distance = getWallDistance(bounds, fov);
+  const a = [x1 - bounds.width / 2, bounds.height / 2 - y1, distance];
+  const b = [x2 - bounds.width / 2, bounds.height / 2 - y2, distance];
+  const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const lengths = Math.hypot(a[0], a[1], a[2]) * Math.hypot(b[0], b[1], b[2]);
+  return toDegrees(Math.acos(Math.min(1, Math.max(-1, dot / lengths))));
+};
+
+export interface Camera {
+  yaw: number;
+  pitch: number;
+}
+
+// Project a point on the wall onto the screen of a camera with the given yaw
+// and pitch. Returns null for points behind the camera. `scale` is how much
+// larger than at the wall's reference distance things at that point appear.
+export const projectWallPoint = (
+  x: number,
+  y: number,
+  camera: Camera,
+  bounds: Bounds,
+  screen: Bounds,
+  fov: number,
+) => {
+  const distance = getWallDistance(bounds, fov);
+  const px = x - bounds.width / 2;
+  const py = bounds.height / 2 - y;
+  const pz = distance;
+
+  // Undo the camera's yaw, then its pitch
+  const yaw = toRadians(camera.yaw);
+  const pitch = toRadians(camera.pitch);
+  const x1 = px * Math.cos(yaw) - pz * Math.sin(yaw);
+  const z1 = px * Math.sin(yaw) + pz * Math.cos(yaw);
+  const y2 = py * Math.cos(pitch) - z1 * Math.sin(pitch);
+  const z2 = py * Math.sin(pitch) + z1 * Math.cos(pitch);
+  if (z2 <= 1) return null;
+
+  const focal = getWallDistance(screen, fov);
+  return {
+    x: screen.width / 2 + (x1 * focal) / z2,
+    y: screen.height / 2 - (y2 * focal) / z2,
+    scale: focal / Math.hypot(x1, y2, z2),
+  };
+};
+
+// Turn raw mouse counts into camera rotation. `degreesPerCount` is the game's
+// yaw constant multiplied by its in-game sensitivity.
+export const rotateCamera = (
+  camera: Camera,
+  movementX: number,
+  movementY: number,
+  degreesPerCount: number,
+): Camera => ({
+  yaw: Math.max(-MAX_CAMERA_ANGLE, Math.min(MAX_CAMERA_ANGLE, camera.yaw + movementX * degreesPerCount)),
+  pitch: Math.max(-MAX_CAMERA_ANGLE, Math.min(MAX_CAMERA_ANGLE, camera.pitch - movementY * degreesPerCount)),
+});
@@ -4,3 +4,6 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// HTTP actions are served from the deployment's .site domain
+export const SITE_URL = (import.meta.env.VITE_CONVEX_URL as string).replace(/\.cloud$/, ".site");
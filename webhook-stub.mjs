@@ -0,0 +1,49 @@
+/**
+ * A local receiver for trying out webhooks. Prints every delivery and checks
+ * its signature:
+ *
+ *   WEBHOOK_SECRET=whsec_... node webhook-stub.mjs [port]
+ *
+ * Point a webhook at http://localhost:8787 (with a local Convex backend, or
+ * through a tunnel for a cloud one). Set FAIL=1 to answer every delivery with
+ * a 500 and watch the retries in the delivery log.
+ */
+
+import http from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+
+const port = Number(process.argv[2] ?? 8787);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.FAIL === "1";
+
+function checkSignature(timestamp, body, signature) {
+  if (!secret) {
+    return "not checked, set WEBHOOK_SECRET";
+  }
+  const expected = `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  const valid =
+    signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? "valid" : "INVALID";
+}
+
+http
+  .createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const timestamp = request.headers["x-webhook-timestamp"] ?? "";
+      const signature = request.headers["x-webhook-signature"] ?? "";
+      console.log(`\n${request.method} ${request.url} ${request.headers["x-webhook-event"] ?? ""}`);
+      console.log(`delivery ${request.headers["x-webhook-delivery"] ?? "?"}, signature ${checkSignature(timestamp, body, signature)}`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+      response.writeHead(fail ? 500 : 204);
+      response.end();
+    });
+  })
+  .listen(port, () => {
+    console.log(`Webhook stub listening on http://localhost:${port}${fail ? ", failing every delivery" : ""}`);
+  });